@@ -1,15 +1,44 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Delete, Body, Param, Query, HttpCode, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { AuthService } from '../auth/auth.service';
+import { PhoneChangeService } from '../auth/services/phone-change.service';
+import { StartPhoneChangeDto, ConfirmPhoneChangeDto, StartImpersonationDto, CreateApiKeyDto } from '../auth/dto/auth.dto';
+import { UsersService } from '../users/users.service';
+import { AccountDeletionService } from '../users/account-deletion.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { ProfilesService } from '../profiles/profiles.service';
+import { UpdateProfileRoleDto } from '../profiles/dto/profile.dto';
+import { IdentityCacheService } from '../auth/services/identity-cache.service';
+import { ImpersonationService } from '../auth/services/impersonation.service';
+import { ApiKeysService } from '../auth/services/api-keys.service';
+import { AuditRequestContext, AuthAuditService } from '../auth/services/auth-audit.service';
+import { ReviewsService } from '../reviews/reviews.service';
+import { ResolveReviewReportDto } from '../reviews/dto/review.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequestContext } from '../auth/decorators/request-context.decorator';
 
 @ApiTags('Admin')
 @ApiBearerAuth('JWT-auth')
 @Controller('admin')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class AdminController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly phoneChangeService: PhoneChangeService,
+    private readonly schedulerService: SchedulerService,
+    private readonly profilesService: ProfilesService,
+    private readonly identityCacheService: IdentityCacheService,
+    private readonly impersonationService: ImpersonationService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly authAuditService: AuthAuditService,
+    private readonly reviewsService: ReviewsService,
+  ) {}
+
   @Get('stats')
   @Roles('admin', 'superadmin')
   @ApiOperation({ summary: 'Get admin stats', description: 'Get platform statistics. Admin and superadmin only.' })
@@ -41,4 +70,489 @@ export class AdminController {
       },
     };
   }
-}
\ No newline at end of file
+
+  @Post('users/:id/revoke-tokens')
+  @HttpCode(200)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Revoke all tokens for a user',
+    description: 'Logs the user out of every device immediately, e.g. when banning an account. Admin and superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiResponse({ status: 200, description: 'All tokens revoked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async revokeUserTokens(@Param('id') userId: string, @CurrentUser() user: any, @RequestContext() context: AuditRequestContext) {
+    await this.authService.logoutAll(userId, { reason: 'admin_revoke', actorId: user.id, context });
+    return { success: true, message: 'All tokens revoked for user' };
+  }
+
+  @Post('profiles/:id/role')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Change a profile\'s role',
+    description: 'Sets the role and, optionally, the permissions (e.g. pii:read) of a profile. Applies from the user\'s next request. Superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated',
+    schema: { example: { success: true, profile: { id: 'uuid', user_id: 'uuid', role: 'admin', permissions: ['pii:read'] } } },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async updateProfileRole(
+    @Param('id') profileId: string,
+    @Body() dto: UpdateProfileRoleDto,
+    @CurrentUser() user: any,
+    @RequestContext() context: AuditRequestContext,
+  ) {
+    return this.profilesService.updateRole(profileId, dto, user.id, context);
+  }
+
+  @Get('identity-cache/stats')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Identity cache statistics',
+    description: 'Hit/miss counters of the cache behind request authentication, for this instance. Admin and superadmin only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Counters since the instance started',
+    schema: { example: { hits: 950, misses: 50, invalidations: 4, hitRate: 0.95, ttlSeconds: 60 } },
+  })
+  getIdentityCacheStats() {
+    return this.identityCacheService.getStats();
+  }
+
+  @Post('users/:id/impersonate')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Impersonate a user',
+    description: 'Returns a short-lived access token acting as the user, for support. The token names the superadmin in its `act` claim; '
+      + 'every write made with it is audited, and account deletion, payments and credential changes are refused. '
+      + 'There is no refresh token. Admin accounts cannot be impersonated. Superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Impersonation token issued',
+    schema: {
+      example: {
+        success: true,
+        access_token: 'eyJhbGciOiJSUzI1NiIs...',
+        expires_in: 900,
+        expires_at: '2024-01-01T00:15:00.000Z',
+        impersonating: { userId: 'uuid', profileId: 'uuid', role: 'artist' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Cannot impersonate yourself' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only, or the target is an admin' })
+  @ApiResponse({ status: 404, description: 'User or profile not found' })
+  async impersonateUser(
+    @Param('id') userId: string,
+    @Body() dto: StartImpersonationDto,
+    @CurrentUser() user: any,
+    @RequestContext() context: AuditRequestContext,
+  ) {
+    return this.impersonationService.start({ id: user.id, profileId: user.profileId }, userId, dto, context);
+  }
+
+  @Get('auth-audit')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Auth audit log',
+    description: 'OTP sends and verifications, lockouts, signups, logins, refreshes, logouts, role changes and impersonations, newest first. '
+      + 'Filter by user or phone. Entries are kept for AUTH_AUDIT_RETENTION_DAYS. Admin and superadmin only.',
+  })
+  @ApiQuery({ name: 'userId', required: false, description: 'Only entries for this user' })
+  @ApiQuery({ name: 'phone', required: false, description: 'Only entries for this phone number', example: '+919876543210' })
+  @ApiQuery({ name: 'event', required: false, description: 'Only this event', example: 'otp_failed' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of entries (max 100)', example: 50 })
+  @ApiResponse({
+    status: 200,
+    description: 'Entries returned',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', event: 'otp_failed', outcome: 'failure', user_id: null, phone: '+919876543210', profile_id: null,
+          actor_id: null, reason: 'OTP_INVALID', metadata: { channel: 'sms' }, ip_address: '203.0.113.7',
+          user_agent: 'okhttp/4.12.0', created_at: '2024-01-01T00:00:00.000Z',
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid phone number' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async listAuthAudit(
+    @Query('userId') userId?: string,
+    @Query('phone') phone?: string,
+    @Query('event') event?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.authAuditService.list({ userId, phone, event, cursor, limit: limit ? parseInt(limit, 10) : undefined });
+  }
+
+  @Get('impersonations')
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Impersonation audit log',
+    description: 'Impersonation starts, writes and blocked actions, newest first. Superadmin only.',
+  })
+  @ApiQuery({ name: 'impersonatorId', required: false, description: 'Only entries by this superadmin (user UUID)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Only entries for this impersonated user' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of entries (max 100)', example: 50 })
+  @ApiResponse({
+    status: 200,
+    description: 'Entries returned',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', impersonator_id: 'uuid', target_user_id: 'uuid', target_profile_id: 'uuid', token_jti: 'uuid',
+          event: 'write', method: 'PUT', path: '/api/profiles/uuid', status_code: 200, created_at: '2024-01-01T00:05:00.000Z',
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  async listImpersonations(
+    @Query('impersonatorId') impersonatorId?: string,
+    @Query('userId') targetUserId?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.impersonationService.listLog({
+      impersonatorId,
+      targetUserId,
+      cursor,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Post('api-keys')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Create an API key',
+    description: 'Creates a key for a server-to-server integration. Send it in the `X-API-Key` header. '
+      + 'The key is only shown in this response. Admin and superadmin only.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Key created',
+    schema: {
+      example: {
+        id: 'uuid',
+        name: 'Casting dashboard',
+        scopes: ['profiles:read', 'posts:read'],
+        rate_limit_per_minute: 60,
+        expires_at: null,
+        created_by: 'uuid',
+        created_at: '2024-01-01T00:00:00.000Z',
+        key: 'k24_uuid.secret',
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async createApiKey(@Body() dto: CreateApiKeyDto, @CurrentUser() user: any) {
+    return this.apiKeysService.create(user.id, dto);
+  }
+
+  @Get('api-keys')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'List API keys', description: 'Keys with their scopes, limits and last use, newest first. Admin and superadmin only.' })
+  @ApiQuery({ name: 'includeRevoked', required: false, description: 'Also list revoked keys', example: 'false' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of keys (max 100)', example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Keys returned',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', name: 'Casting dashboard', scopes: ['profiles:read'], rate_limit_per_minute: 60, expires_at: null,
+          created_by: 'uuid', created_at: '2024-01-01T00:00:00.000Z', revoked_at: null, revoked_by: null,
+          last_used_at: '2024-01-02T10:00:00.000Z', last_used_ip: '10.0.0.5',
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async listApiKeys(
+    @Query('includeRevoked') includeRevoked?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.apiKeysService.list({
+      includeRevoked: includeRevoked === 'true',
+      cursor,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Delete('api-keys/:id')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'Revoke an API key', description: 'The key is rejected from its next request. Admin and superadmin only.' })
+  @ApiParam({ name: 'id', description: 'API key UUID' })
+  @ApiResponse({ status: 200, description: 'Key revoked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  @ApiResponse({ status: 404, description: 'Key not found or already revoked' })
+  async revokeApiKey(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    await this.apiKeysService.revoke(id, user.id);
+    return { success: true, message: 'API key revoked' };
+  }
+
+  @Post('users/:id/phone-change')
+  @HttpCode(200)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Start a phone change for a user (override)',
+    description: 'For users who lost access to their old number. Only the new number receives an OTP. Admin and superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiResponse({ status: 200, description: 'OTP sent to the new number; returns change_token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async startUserPhoneChange(@Param('id') userId: string, @Body() dto: StartPhoneChangeDto, @CurrentUser() admin: any) {
+    return this.phoneChangeService.start(userId, dto.newPhone, { override: true, requestedBy: admin.id });
+  }
+
+  @Post('users/:id/phone-change/confirm')
+  @HttpCode(200)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Confirm a phone change for a user (override)',
+    description: 'Confirms with the OTP the user received on the new number. Logs the user out everywhere. Admin and superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiResponse({ status: 200, description: 'Phone number changed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid OTP or expired change token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async confirmUserPhoneChange(@Param('id') userId: string, @Body() dto: ConfirmPhoneChangeDto) {
+    return this.phoneChangeService.confirm(dto.changeToken, { oldOtp: dto.oldOtp, newOtp: dto.newOtp }, userId, { asAdmin: true });
+  }
+
+  @Post('phones/migrate-legacy')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Normalize legacy phone numbers to E.164',
+    description: 'Rewrites stored phone numbers without a country code as +91 numbers. Safe to re-run. Superadmin only.',
+  })
+  @ApiQuery({ name: 'dryRun', required: false, description: 'Report what would change without writing', example: 'true' })
+  @ApiResponse({
+    status: 200,
+    description: 'Migration summary per table and column',
+    schema: {
+      example: {
+        success: true,
+        dryRun: false,
+        results: [{ table: 'users', column: 'phone', scanned: 120, updated: 118, invalid: ['uuid'], failed: ['uuid'] }],
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  async migrateLegacyPhones(@Query('dryRun') dryRun?: string) {
+    const isDryRun = dryRun === 'true';
+    const results = await this.usersService.migrateLegacyPhones({ dryRun: isDryRun });
+    return { success: true, dryRun: isDryRun, results };
+  }
+
+  @Post('pii/encrypt-legacy')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Encrypt legacy Aadhaar numbers',
+    description: 'Encrypts Aadhaar numbers still stored as plaintext in artist and recruiter profiles. Safe to re-run. Superadmin only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Encryption summary per table',
+    schema: {
+      example: {
+        success: true,
+        results: [{ table: 'artist_profiles', scanned: 120, encrypted: 120, failed: [] }],
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  async encryptLegacyPii() {
+    const results = await this.profilesService.encryptLegacySensitiveFields();
+    return { success: true, results };
+  }
+
+  @Post('account-deletions/process')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Process due account deletions',
+    description: 'Erases every account whose deletion grace period has ended and writes erasure records. Superadmin only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Processing summary',
+    schema: { example: { success: true, processed: 3, failed: 0 } },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  async processAccountDeletions() {
+    const result = await this.accountDeletionService.processDueDeletions();
+    return { success: true, ...result };
+  }
+
+  @Get('account-deletions/failed')
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'List failed account deletions',
+    description: 'Deletion requests whose erasure kept failing after every retry, with the last error. Superadmin only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Failed requests returned',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          {
+            id: 'uuid',
+            user_id: 'uuid',
+            requested_at: '2024-01-01T00:00:00.000Z',
+            scheduled_for: '2024-01-31T00:00:00.000Z',
+            attempts: 5,
+            last_attempt_at: '2024-02-01T07:30:00.000Z',
+            error: 'Failed to delete from messages: timeout',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  async listFailedAccountDeletions() {
+    const data = await this.accountDeletionService.listFailedDeletions();
+    return { success: true, data };
+  }
+
+  @Post('account-deletions/:id/retry')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Retry a failed account deletion',
+    description: 'Queues a failed deletion request again with a fresh set of attempts. Superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'Deletion request ID' })
+  @ApiResponse({ status: 200, description: 'Request queued', schema: { example: { success: true } } })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  @ApiResponse({ status: 404, description: 'No failed deletion request with this ID' })
+  async retryAccountDeletion(@Param('id', ParseUUIDPipe) id: string) {
+    return this.accountDeletionService.retryDeletion(id);
+  }
+
+  @Get('jobs')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'List scheduled jobs',
+    description: 'Registered housekeeping jobs with their interval and most recent run. Admin and superadmin only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs returned',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          {
+            name: 'otp-cleanup',
+            description: 'Delete expired OTP records',
+            intervalSeconds: 3600,
+            scheduled: true,
+            lastRun: { id: 'uuid', job_name: 'otp-cleanup', status: 'succeeded', trigger: 'schedule', started_at: '2024-01-15T10:00:00.000Z', duration_ms: 84 },
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async listJobs() {
+    return { success: true, data: await this.schedulerService.listJobs() };
+  }
+
+  @Get('jobs/runs')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'Job run history', description: 'Past job runs, newest first. Admin and superadmin only.' })
+  @ApiQuery({ name: 'job', required: false, description: 'Only runs of this job', example: 'otp-cleanup' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of runs (max 100)', example: 20 })
+  @ApiResponse({ status: 200, description: 'Runs returned', schema: { example: { data: [], nextCursor: null } } })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async listJobRuns(@Query('job') job?: string, @Query('cursor') cursor?: string, @Query('limit') limit?: string) {
+    return this.schedulerService.listRuns({ job, cursor, limit: limit ? parseInt(limit, 10) : undefined });
+  }
+
+  @Post('jobs/:name/run')
+  @HttpCode(200)
+  @Roles('superadmin')
+  @ApiOperation({
+    summary: 'Run a job now',
+    description: 'Runs a scheduled job immediately. Skipped if the job is already running on another instance. Superadmin only.',
+  })
+  @ApiParam({ name: 'name', description: 'Job name', example: 'otp-cleanup' })
+  @ApiResponse({
+    status: 200,
+    description: 'Run outcome',
+    schema: { example: { job: 'otp-cleanup', status: 'succeeded', runId: 'uuid', result: { success: true }, durationMs: 84 } },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Superadmin only' })
+  @ApiResponse({ status: 404, description: 'Unknown job' })
+  async runJob(@Param('name') name: string, @CurrentUser() user: any) {
+    return this.schedulerService.runJob(name, 'manual', user?.id);
+  }
+
+  @Get('review-reports')
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'Reported reviews', description: 'Reports of abusive reviews with the review, newest first. Admin and superadmin only.' })
+  @ApiQuery({ name: 'status', required: false, enum: ['open', 'actioned', 'dismissed'], description: 'Report status (defaults to open)' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of reports (max 100)', example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Reports returned',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', reason: 'harassment', details: null, status: 'open', reporter_profile_id: 'uuid', created_at: '2024-01-01T00:00:00.000Z',
+          reviews: { id: 'uuid', reviewer_profile_id: 'uuid', reviewee_profile_id: 'uuid', comment: '...', status: 'published' },
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  async listReviewReports(@Query('status') status?: string, @Query('cursor') cursor?: string, @Query('limit') limit?: string) {
+    return this.reviewsService.listReports({ status, cursor, limit: limit ? parseInt(limit, 10) : undefined });
+  }
+
+  @Post('review-reports/:id/resolve')
+  @HttpCode(200)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Resolve a review report',
+    description: '`hide` removes the review from profiles and ratings and closes its other open reports; `dismiss` keeps it. Admin and superadmin only.',
+  })
+  @ApiParam({ name: 'id', description: 'Report UUID' })
+  @ApiResponse({ status: 200, description: 'Report resolved', schema: { example: { success: true, action: 'hide', reviewId: 'uuid' } } })
+  @ApiResponse({ status: 400, description: 'Report already resolved' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async resolveReviewReport(
+    @Param('id', ParseUUIDPipe) reportId: string,
+    @Body() dto: ResolveReviewReportDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.reviewsService.resolveReport(reportId, user.id, dto);
+  }
+}
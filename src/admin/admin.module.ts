@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { AdminController } from './admin.controller';
 import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { ProfilesModule } from '../profiles/profiles.module';
+import { ReviewsModule } from '../reviews/reviews.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, UsersModule, ProfilesModule, ReviewsModule],
   controllers: [AdminController],
 })
 export class AdminModule {}
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AppController } from './app.controller';
 
 import { SupabaseModule } from './supabase/supabase.module';
+import { RedisModule } from './redis/redis.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { CryptoModule } from './crypto/crypto.module';
 import { PhotoModule } from './photo/photo.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
@@ -12,10 +15,13 @@ import { ProfilesModule } from './profiles/profiles.module';
 import { ProjectsModule } from './projects/projects.module';
 import { SchedulesModule } from './schedules/schedules.module';
 import { PostsModule } from './posts/posts.module';
+import { PortfolioModule } from './portfolio/portfolio.module';
+import { ReviewsModule } from './reviews/reviews.module';
 import { ChatModule } from './chat/chat.module';
 import { UploadsModule } from './uploads/uploads.module';
 import { AdminModule } from './admin/admin.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { ImpersonationInterceptor } from './auth/interceptors/impersonation.interceptor';
 
 @Module({
   imports: [
@@ -40,6 +46,9 @@ import { NotificationsModule } from './notifications/notifications.module';
       },
     ]),
     SupabaseModule,
+    RedisModule,
+    SchedulerModule,
+    CryptoModule,
     PhotoModule,
     AuthModule,
     UsersModule,
@@ -47,6 +56,8 @@ import { NotificationsModule } from './notifications/notifications.module';
     ProjectsModule,
     SchedulesModule,
     PostsModule,
+    PortfolioModule,
+    ReviewsModule,
     ChatModule,
     UploadsModule,
     AdminModule,
@@ -59,6 +70,11 @@ import { NotificationsModule } from './notifications/notifications.module';
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    // Audit and restrict requests made with impersonation tokens
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ImpersonationInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -1,13 +1,39 @@
-import { Controller, Post, Body, Get, UseGuards, Request, Headers, UnauthorizedException, HttpCode } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Post, Body, Get, Delete, Param, UseGuards, Request, Headers, UnauthorizedException, HttpCode, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { SendOtpDto, VerifyOtpDto, SignupDto } from './dto/auth.dto';
+import { SessionsService, LoginContext } from './services/sessions.service';
+import { PhoneChangeService } from './services/phone-change.service';
+import { AuditRequestContext } from './services/auth-audit.service';
+import { SendOtpDto, VerifyOtpDto, SignupDto, RefreshTokenDto, LoginDeviceDto, StartPhoneChangeDto, ConfirmPhoneChangeDto, SendEmailOtpDto, VerifyEmailOtpDto, ConfirmEmailDto, SwitchProfileDto } from './dto/auth.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
+import { RequestContext } from './decorators/request-context.decorator';
 
 @ApiTags('Auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly phoneChangeService: PhoneChangeService,
+  ) { }
+
+  /**
+   * Device details from the body plus where the request came from
+   */
+  private getLoginContext(device: LoginDeviceDto, req: any): LoginContext {
+    return {
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      platform: device.platform,
+      appVersion: device.appVersion,
+      osVersion: device.osVersion,
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    };
+  }
 
   @Post('send-otp')
   @ApiOperation({
@@ -26,8 +52,9 @@ export class AuthController {
     },
   })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid phone number' })
-  async sendOtp(@Body() sendOtpDto: SendOtpDto) {
-    return this.authService.sendOtp(sendOtpDto.phone);
+  @ApiResponse({ status: 429, description: 'Too many requests - Resend cooldown, daily OTP limit (OTP_SEND_COOLDOWN, OTP_DAILY_LIMIT_REACHED) or phone locked out; see retryAfter' })
+  async sendOtp(@Body() sendOtpDto: SendOtpDto, @RequestContext() context: AuditRequestContext) {
+    return this.authService.sendOtp(sendOtpDto.phone, context);
   }
 
   @Post('verify-otp')
@@ -35,7 +62,7 @@ export class AuthController {
     summary: 'Verify OTP',
     description: `Verifies the OTP sent to the phone number.
     
-**For existing users:** Returns \`access_token\` for authenticated API calls with \`isNewUser: false\`
+**For existing users:** Returns a short-lived \`access_token\` and a \`refresh_token\` with \`isNewUser: false\`
 
 **For new users:** Returns \`access_token\` (valid for 10 minutes) to be used in the signup endpoint with \`isNewUser: true\``,
   })
@@ -59,22 +86,50 @@ export class AuthController {
             message: 'Login successful',
             user: {
               id: 'uuid',
-              phone: '9876543210',
+              phone: '+919876543210',
               email: 'john@example.com',
               role: 'artist',
               firstName: 'John',
               lastName: 'Doe',
             },
             profile: {},
+            refresh_token: '3f0c8a52-5d1e-4a8e-9a43-2f6f7c1e9b10.q9X0...',
+            expires_in: 900,
             access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
           },
         },
       ],
     },
   })
-  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired OTP' })
-  async verifyOtp(@Body() verifyOtpDto: VerifyOtpDto) {
-    return this.authService.verifyOtp(verifyOtpDto.phone, verifyOtpDto.otp);
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired OTP (code OTP_INVALID, with attemptsRemaining)' })
+  @ApiResponse({ status: 429, description: 'Too many requests - Too many wrong OTPs (OTP_ATTEMPTS_EXCEEDED, OTP_VERIFY_LOCKED); see retryAfter' })
+  async verifyOtp(@Body() verifyOtpDto: VerifyOtpDto, @Request() req: any) {
+    return this.authService.verifyOtp(verifyOtpDto.phone, verifyOtpDto.otp, this.getLoginContext(verifyOtpDto, req));
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description: `Exchanges a refresh token for a new short-lived \`access_token\` and a rotated \`refresh_token\`.
+
+Each refresh token can be used only once. Presenting a refresh token that was already rotated revokes every token issued from the same login, and the user must verify OTP again.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens refreshed',
+    schema: {
+      example: {
+        success: true,
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: '7a9d2c1e-0b4f-4c3a-8f2e-1d5b6a7c8e9f.Zt4k...',
+        expires_in: 900,
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid, expired, revoked or reused refresh token' })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto, @RequestContext() context: AuditRequestContext) {
+    return this.authService.refreshTokens(refreshTokenDto.refresh_token, refreshTokenDto.deviceId, context);
   }
 
   @Post('signup')
@@ -100,20 +155,22 @@ The phone number is extracted from the token - do not include it in the request
         message: 'Signup successful',
         user: {
           id: 'uuid',
-          phone: '9876543210',
+          phone: '+919876543210',
           email: 'john@example.com',
           role: 'artist',
           firstName: 'John',
           lastName: 'Doe',
         },
         profile: {},
+        refresh_token: '3f0c8a52-5d1e-4a8e-9a43-2f6f7c1e9b10.q9X0...',
+        expires_in: 900,
         access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
       },
     },
   })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired signup token' })
   @ApiResponse({ status: 400, description: 'Bad request - User already exists or validation error' })
-  async signup(@Body() signupDto: SignupDto, @Headers('authorization') authHeader?: string) {
+  async signup(@Body() signupDto: SignupDto, @Request() req: any, @Headers('authorization') authHeader?: string) {
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       throw new UnauthorizedException('Authorization header with Bearer token is required. Please verify OTP first.');
     }
@@ -123,7 +180,7 @@ The phone number is extracted from the token - do not include it in the request
       throw new UnauthorizedException('Invalid authorization token');
     }
 
-    return this.authService.signup(signupDto, token);
+    return this.authService.signup(signupDto, token, this.getLoginContext(signupDto, req));
   }
 
   @Get('profile')
@@ -141,7 +198,7 @@ The phone number is extracted from the token - do not include it in the request
         success: true,
         user: {
           id: 'uuid',
-          phone: '9876543210',
+          phone: '+919876543210',
           email: 'john@example.com',
         },
         profile: {
@@ -156,13 +213,324 @@ The phone number is extracted from the token - do not include it in the request
   })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
   async getProfile(@Request() req: any) {
-    return this.authService.getProfile(req.user.id);
+    return this.authService.getProfile(req.user.id, req.user.profileId);
+  }
+
+  @Post('switch-profile')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Switch active profile',
+    description: `Users can own several role profiles (e.g. artist and recruiter). Requests act as the profile in the access token.
+
+Returns a new \`access_token\` for the chosen profile and revokes the current one. Refreshes keep the chosen profile.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile switched',
+    schema: {
+      example: {
+        success: true,
+        message: 'Profile switched',
+        profile: { id: 'uuid', role: 'recruiter', firstName: 'John', lastName: 'Doe' },
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        expires_in: 900,
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Profile belongs to another user' })
+  async switchProfile(@Request() req: any, @Body() dto: SwitchProfileDto) {
+    return this.authService.switchProfile(req.user, dto.profileId);
+  }
+
+  @Post('logout')
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Log out this device',
+    description: 'Revokes the current access token and the refresh token issued with it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged out',
+    schema: { example: { success: true, message: 'Logged out successfully' } },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  async logout(@Request() req: any, @RequestContext() context: AuditRequestContext) {
+    return this.authService.logout(req.user, context);
+  }
+
+  @Post('logout-all')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Log out all devices',
+    description: 'Revokes every access and refresh token issued to the current user, including this one.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged out everywhere',
+    schema: { example: { success: true, message: 'Logged out from all devices' } },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  async logoutAll(@Request() req: any, @RequestContext() context: AuditRequestContext) {
+    return this.authService.logoutAll(req.user.id, { context });
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List active sessions',
+    description: 'Returns every device the current user is logged in on. The session making the request has `current: true`.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions',
+    schema: {
+      example: {
+        success: true,
+        sessions: [
+          {
+            id: 'uuid',
+            device_id: 'a1b2c3d4-device',
+            device_name: 'Pixel 6',
+            platform: 'android',
+            app_version: '1.0.0',
+            os_version: 'Android 13',
+            ip_address: '203.0.113.10',
+            user_agent: 'okhttp/4.9.2',
+            push_token_id: 'uuid',
+            created_at: '2024-01-01T10:00:00.000Z',
+            last_active_at: '2024-01-02T08:30:00.000Z',
+            current: true,
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  async listSessions(@Request() req: any) {
+    const sessions = await this.sessionsService.listForUser(req.user.id, req.user.sessionId);
+    return { success: true, sessions };
+  }
+
+  @Post('sessions/revoke-others')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Revoke all other sessions',
+    description: 'Logs out every device except the one making the request.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Other sessions revoked',
+    schema: { example: { success: true, message: 'Other sessions revoked', revoked: 2 } },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  async revokeOtherSessions(@Request() req: any) {
+    const revoked = await this.sessionsService.revokeOthers(req.user.id, req.user.sessionId);
+    return { success: true, message: 'Other sessions revoked', revoked };
+  }
+
+  @Delete('sessions/:id')
+  @BlockImpersonation()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description: 'Logs out one device. Its refresh token stops working and its access tokens are rejected immediately.',
+  })
+  @ApiParam({ name: 'id', description: 'Session UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked',
+    schema: { example: { success: true, message: 'Session revoked' } },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@Request() req: any, @Param('id', ParseUUIDPipe) sessionId: string) {
+    await this.sessionsService.revokeForUser(req.user.id, sessionId);
+    return { success: true, message: 'Session revoked' };
+  }
+
+  @Post('phone/change')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start a phone number change',
+    description: 'Sends an OTP to the current and to the new phone number. Returns a `change_token` valid for 15 minutes.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'OTPs sent',
+    schema: {
+      example: {
+        success: true,
+        message: 'OTPs sent to the current and the new phone number',
+        change_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid number, same number, or number already registered' })
+  @ApiResponse({ status: 429, description: 'Too many requests - OTP cooldown or daily limit' })
+  async startPhoneChange(@Request() req: any, @Body() dto: StartPhoneChangeDto) {
+    return this.phoneChangeService.start(req.user.id, dto.newPhone);
+  }
+
+  @Post('phone/change/confirm')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Confirm a phone number change',
+    description: 'Checks both OTPs and switches the login number. Every session is logged out; log in again with the new number.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Phone number changed',
+    schema: {
+      example: {
+        success: true,
+        message: 'Phone number changed. Please log in again with the new number.',
+        phone: '+971501234567',
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid OTP or expired change token' })
+  async confirmPhoneChange(@Request() req: any, @Body() dto: ConfirmPhoneChangeDto) {
+    return this.phoneChangeService.confirm(dto.changeToken, { oldOtp: dto.oldOtp, newOtp: dto.newOtp }, req.user.id);
+  }
+
+  @Post('email/send-otp')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Send login code by email',
+    description: `Emails a 6-digit code and a magic link to the account's verified email address.
+
+The response is the same whether or not the email belongs to an account. New users sign up with their phone number.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Request accepted',
+    schema: {
+      example: {
+        success: true,
+        message: 'If this email belongs to a verified account, a login code has been sent',
+        email: 'john@example.com',
+      },
+    },
+  })
+  @ApiResponse({ status: 429, description: 'Too many requests - Resend cooldown, daily limit or email locked out; see retryAfter' })
+  async sendEmailOtp(@Body() dto: SendEmailOtpDto, @RequestContext() context: AuditRequestContext) {
+    return this.authService.sendEmailLoginCode(dto.email, context);
+  }
+
+  @Post('email/verify')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Log in with an email code or magic link',
+    description: 'Send either the 6-digit `otp` from the email or the `token` from its magic link. Returns the same tokens as verify-otp.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    schema: {
+      example: {
+        success: true,
+        isNewUser: false,
+        message: 'Login successful',
+        user: {
+          id: 'uuid',
+          phone: '+919876543210',
+          email: 'john@example.com',
+          emailVerified: true,
+          role: 'artist',
+          firstName: 'John',
+          lastName: 'Doe',
+        },
+        profile: {},
+        refresh_token: '3f0c8a52-5d1e-4a8e-9a43-2f6f7c1e9b10.q9X0...',
+        expires_in: 900,
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Neither otp nor token provided' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired code (code OTP_INVALID, with attemptsRemaining)' })
+  @ApiResponse({ status: 429, description: 'Too many requests - Too many wrong codes (OTP_ATTEMPTS_EXCEEDED, OTP_VERIFY_LOCKED); see retryAfter' })
+  async verifyEmailOtp(@Body() dto: VerifyEmailOtpDto, @Request() req: any) {
+    return this.authService.verifyEmailLogin(dto.email, { otp: dto.otp, token: dto.token }, this.getLoginContext(dto, req));
+  }
+
+  @Post('email/confirm')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Confirm email address',
+    description: 'Marks the account email as verified using the code or link token sent after signup. Email login only works for verified addresses.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Email verified',
+    schema: {
+      example: {
+        success: true,
+        message: 'Email verified',
+        email: 'john@example.com',
+        verifiedAt: '2024-01-15T10:30:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Neither otp nor token provided, or the email changed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired code' })
+  async confirmEmail(@Body() dto: ConfirmEmailDto) {
+    return this.authService.confirmEmail(dto.email, { otp: dto.otp, token: dto.token });
+  }
+
+  @Post('email/send-verification')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Resend email confirmation',
+    description: 'Emails a new confirmation code and link to the current user, unless the email is already verified.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent',
+    schema: {
+      example: {
+        success: true,
+        message: 'Verification email sent',
+        email: 'john@example.com',
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  @ApiResponse({ status: 429, description: 'Too many requests - Resend cooldown or daily limit' })
+  async sendEmailVerification(@Request() req: any) {
+    return this.authService.sendEmailVerification(req.user.id);
   }
 
   @Post('cleanup-otps')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Cleanup expired OTPs',
-    description: 'Removes expired OTP records from the database. Should be called periodically via cron job.',
+    description: 'Removes expired OTP records from the database. This runs automatically as the `otp-cleanup` scheduled job; admin and superadmin only.',
   })
   @ApiResponse({
     status: 200,
@@ -175,6 +543,8 @@ The phone number is extracted from the token - do not include it in the request
       },
     },
   })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin and superadmin only' })
   async cleanupOtps() {
     return this.authService.cleanupExpiredOtps();
   }
@@ -0,0 +1,34 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { OtpService } from './services/otp.service';
+import { AuthAuditService } from './services/auth-audit.service';
+
+/**
+ * Periodic auth housekeeping
+ */
+@Injectable()
+export class AuthJobs implements OnModuleInit {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly otpService: OtpService,
+    private readonly authAuditService: AuthAuditService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'otp-cleanup',
+      description: 'Delete expired OTP records',
+      intervalSeconds: parseInt(this.configService.get<string>('OTP_CLEANUP_INTERVAL_SECONDS') || '3600', 10),
+      run: () => this.otpService.cleanupExpiredOTPs(),
+    });
+
+    this.schedulerService.register({
+      name: 'auth-audit-retention',
+      description: 'Delete auth audit entries older than AUTH_AUDIT_RETENTION_DAYS',
+      intervalSeconds: 24 * 60 * 60,
+      run: () => this.authAuditService.purgeExpired(),
+    });
+  }
+}
@@ -3,18 +3,37 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
+import { JwksController } from './jwks.controller';
 import { AuthService } from './auth.service';
 import { OtpService } from './services/otp.service';
+import { OtpRateLimitService } from './services/otp-rate-limit.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { SessionsService } from './services/sessions.service';
+import { PhoneChangeService } from './services/phone-change.service';
+import { EmailOtpService } from './services/email-otp.service';
+import { JwtKeyService } from './services/jwt-key.service';
+import { IdentityCacheService } from './services/identity-cache.service';
+import { ImpersonationService } from './services/impersonation.service';
+import { ApiKeysService } from './services/api-keys.service';
+import { AuthAuditService } from './services/auth-audit.service';
+import { AuthJobs } from './auth.jobs';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { ApiKeyOrJwtGuard } from './guards/api-key-or-jwt.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { PoliciesGuard } from './policies/policies.guard';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PhotoModule } from '../photo/photo.module';
+import { SmsModule } from '../sms/sms.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
     SupabaseModule,
     PhotoModule,
+    SmsModule,
+    MailModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -31,9 +50,9 @@ import { PhotoModule } from '../photo/photo.module';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, OtpService, JwtStrategy, JwtAuthGuard, RolesGuard],
-  exports: [AuthService, OtpService, JwtAuthGuard, RolesGuard],
+  controllers: [AuthController, JwksController],
+  providers: [AuthService, JwtKeyService, OtpService, OtpRateLimitService, RefreshTokenService, TokenRevocationService, SessionsService, PhoneChangeService, EmailOtpService, IdentityCacheService, ImpersonationService, ApiKeysService, AuthAuditService, AuthJobs, JwtStrategy, JwtAuthGuard, ApiKeyOrJwtGuard, RolesGuard, PoliciesGuard],
+  exports: [AuthService, JwtKeyService, OtpService, EmailOtpService, TokenRevocationService, SessionsService, PhoneChangeService, IdentityCacheService, ImpersonationService, ApiKeysService, AuthAuditService, JwtAuthGuard, ApiKeyOrJwtGuard, RolesGuard, PoliciesGuard],
 })
 export class AuthModule {}
 
@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PhotoService } from '../photo/photo.service';
+import { OtpService } from './services/otp.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { SessionsService } from './services/sessions.service';
+import { EmailOtpService } from './services/email-otp.service';
+import { JwtKeyService } from './services/jwt-key.service';
+import { IdentityCacheService } from './services/identity-cache.service';
+import { AuthAuditService } from './services/auth-audit.service';
+import { FieldEncryptionService } from '../crypto/field-encryption.service';
+import { SignupDto } from './dto/auth.dto';
+
+describe('AuthService signup', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+  let rpcResult: { data: any; error: any };
+
+  const supabase = { rpc: jest.fn(() => Promise.resolve(rpcResult)) };
+  const authAuditService = { record: jest.fn(() => Promise.resolve()), reasonFor: (error: any) => error.message };
+
+  const photoService = {
+    uploadArtistProfilePicFromBase64: jest.fn((_data: string, userId: string) =>
+      Promise.resolve(`https://x.supabase.co/storage/v1/object/public/photos/artist_profiles/${userId}/1.jpg`)),
+    uploadRecruiterProfilePicFromBase64: jest.fn(),
+    pathFromPublicUrl: jest.fn((url: string) => url.split('/public/photos/')[1]),
+    deleteImage: jest.fn(() => Promise.resolve()),
+  };
+
+  // Identity "wrapping" keeps the spec independent of a key file
+  const fieldEncryptionService = new FieldEncryptionService({
+    name: 'test',
+    wrapKey: async (dataKey: Buffer) => ({ keyId: 'test-1', wrappedKey: dataKey }),
+    unwrapKey: async (_keyId: string, wrappedKey: Buffer) => wrappedKey,
+  });
+
+  const dto = {
+    firstName: 'John',
+    email: 'John@Example.com',
+    role: 'artist',
+    profilePhoto: 'iVBORw0KGgo=',
+    aadharNumber: '1234567890123456',
+    instagram: 'https://instagram.com/john',
+  } as SignupDto;
+
+  const created = (replayed = false) => ({
+    data: {
+      user: { id: 'user-1', phone: '+919876543210', email: 'john@example.com' },
+      profile: { id: 'profile-1', role: 'artist', first_name: 'John' },
+      replayed,
+    },
+    error: null,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => supabase) } },
+        { provide: PhotoService, useValue: photoService },
+        { provide: OtpService, useValue: {} },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test-secret' }) },
+        JwtKeyService,
+        {
+          provide: RefreshTokenService,
+          useValue: { issue: jest.fn(() => Promise.resolve({ familyId: 'family-1', token: 'rt' })) },
+        },
+        { provide: TokenRevocationService, useValue: {} },
+        { provide: SessionsService, useValue: { create: jest.fn() } },
+        { provide: IdentityCacheService, useValue: { invalidate: jest.fn() } },
+        {
+          provide: EmailOtpService,
+          useValue: {
+            normalizeEmail: (email: string) => email.trim().toLowerCase(),
+            sendVerification: jest.fn(() => Promise.resolve({ success: true })),
+          },
+        },
+        { provide: FieldEncryptionService, useValue: fieldEncryptionService },
+        { provide: AuthAuditService, useValue: authAuditService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'JWT_SECRET' ? 'test-secret' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  const signupToken = (jti = 'signup-jti-1') =>
+    jwtService.sign({ phone: '+919876543210', type: 'signup', jti }, { expiresIn: '10m' });
+
+  it('creates the account in one RPC keyed by the signup token', async () => {
+    rpcResult = created();
+
+    const result = await service.signup(dto, signupToken());
+
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    const [fn, args] = (supabase.rpc.mock.calls[0] as any[]);
+    expect(fn).toBe('signup_user');
+    expect(args.p_idempotency_key).toBe('signup-jti-1');
+    expect(args.p_phone_candidates).toContain('9876543210');
+    expect(args.p_payload.user).toEqual({ id: expect.any(String), phone: '+919876543210', email: 'john@example.com' });
+    expect(args.p_payload.artist_profile.profile_pic).toContain(`artist_profiles/${args.p_payload.user.id}/`);
+    expect(args.p_payload.recruiter_profile).toBeNull();
+    expect(args.p_payload.artist_profile.aadhar_number).toMatch(/^enc:v1:test-1:/);
+    expect(await fieldEncryptionService.decrypt(args.p_payload.artist_profile.aadhar_number)).toBe('1234567890123456');
+    expect(args.p_payload.social_links).toEqual([
+      { platform: 'instagram', url: 'https://www.instagram.com/john/', handle: 'john', is_custom: false, order_index: 0 },
+    ]);
+    expect(result).toMatchObject({ success: true, emailVerificationSent: true, profile: { id: 'profile-1' } });
+    expect(photoService.deleteImage).not.toHaveBeenCalled();
+    expect(authAuditService.record).toHaveBeenCalledWith('signup', expect.objectContaining({
+      outcome: 'success',
+      userId: 'user-1',
+      profileId: 'profile-1',
+    }));
+  });
+
+  it('deletes the uploaded photo when the transaction fails', async () => {
+    rpcResult = { data: null, error: { code: 'P0001', message: 'USER_EXISTS' } };
+
+    await expect(service.signup(dto, signupToken())).rejects.toThrow(
+      new BadRequestException('User already exists. Please login instead.'),
+    );
+
+    const uploadedUserId = photoService.uploadArtistProfilePicFromBase64.mock.calls[0][1];
+    expect(photoService.deleteImage).toHaveBeenCalledWith(`artist_profiles/${uploadedUserId}/1.jpg`);
+    expect(authAuditService.record).toHaveBeenCalledWith('signup', expect.objectContaining({
+      outcome: 'failure',
+      phone: '+919876543210',
+    }));
+  });
+
+  it('returns the original signup on a retry and drops the duplicate photo', async () => {
+    rpcResult = created(true);
+
+    const result = await service.signup(dto, signupToken());
+
+    expect(result).toMatchObject({ success: true, user: { id: 'user-1' } });
+    expect(photoService.deleteImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('never deletes photos given as URLs', async () => {
+    rpcResult = { data: null, error: { message: 'boom' } };
+
+    await expect(
+      service.signup({ ...dto, profilePhoto: 'https://cdn.example.com/me.jpg' } as SignupDto, signupToken()),
+    ).rejects.toThrow(new BadRequestException('Failed to create user account'));
+
+    expect(photoService.uploadArtistProfilePicFromBase64).not.toHaveBeenCalled();
+    expect(photoService.deleteImage).not.toHaveBeenCalled();
+  });
+
+  it('stores custom links as custom and rejects invalid links before uploading anything', async () => {
+    rpcResult = created();
+    await service.signup({ ...dto, customLinks: ['example.com/reel'] } as SignupDto, signupToken('signup-jti-2'));
+    const [, args] = (supabase.rpc.mock.calls[0] as any[]);
+    expect(args.p_payload.social_links[1]).toEqual({
+      platform: 'custom', url: 'https://example.com/reel', handle: null, is_custom: true, order_index: 1,
+    });
+
+    photoService.uploadArtistProfilePicFromBase64.mockClear();
+    await expect(
+      service.signup({ ...dto, instagram: 'https://instagram.com/p/abc123' } as SignupDto, signupToken('signup-jti-3')),
+    ).rejects.toThrow(new BadRequestException('Not a valid instagram link'));
+    expect(photoService.uploadArtistProfilePicFromBase64).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,31 @@
-import { Injectable, UnauthorizedException, BadRequestException, Logger } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { Injectable, UnauthorizedException, BadRequestException, ForbiddenException, HttpException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseService } from '../supabase/supabase.service';
 import { PhotoService } from '../photo/photo.service';
 import { OtpService } from './services/otp.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { LoginContext, SessionsService } from './services/sessions.service';
+import { EmailOtpService } from './services/email-otp.service';
+import { JwtKeyService } from './services/jwt-key.service';
+import { IdentityCacheService } from './services/identity-cache.service';
+import { AuditRequestContext, AuthAuditService } from './services/auth-audit.service';
+import { FieldEncryptionService } from '../crypto/field-encryption.service';
+import { SENSITIVE_PROFILE_FIELDS } from '../crypto/sensitive-fields';
+import { createHash, randomUUID } from 'crypto';
 import { SignupDto } from './dto/auth.dto';
+import { OtpErrorCode, OtpThrottleException } from './exceptions/otp-throttle.exception';
+import { legacyPhoneCandidates } from '../utils/phone.util';
+import { pickActiveProfile, summarizeProfiles } from '../utils/profile.util';
+import { canonicalizeSocialLink, SocialPlatform } from '../utils/social-link.util';
+
+/** A signup link, canonicalised like the ones added through the social link endpoints */
+interface SignupSocialLink {
+  platform: SocialPlatform;
+  url: string;
+  handle: string | null;
+  is_custom: boolean;
+}
 
 @Injectable()
 export class AuthService {
@@ -13,35 +35,61 @@ export class AuthService {
     private readonly supabaseService: SupabaseService,
     private readonly photoService: PhotoService,
     private readonly otpService: OtpService,
-    private readonly jwtService: JwtService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly sessionsService: SessionsService,
+    private readonly identityCacheService: IdentityCacheService,
+    private readonly emailOtpService: EmailOtpService,
+    private readonly fieldEncryptionService: FieldEncryptionService,
+    private readonly authAuditService: AuthAuditService,
+    private readonly configService: ConfigService,
   ) { }
 
   /**
    * Send OTP to phone number
    * Checks if user exists and returns that information
    */
-  async sendOtp(phone: string) {
+  async sendOtp(phone: string, context: AuditRequestContext = {}) {
     this.logger.log(`📱 sendOtp called for phone: ${phone}`);
     try {
       const result = await this.otpService.sendOTP(phone);
       this.logger.log(`✅ OTP sent successfully to ${phone}, userExists: ${result.userExists}`);
+      await this.authAuditService.record('otp_sent', {
+        outcome: 'success',
+        phone,
+        metadata: { channel: 'sms', userExists: result.userExists },
+        context,
+      });
       return result;
     } catch (error: any) {
       this.logger.error(`❌ Send OTP error for ${phone}:`, error);
+      await this.authAuditService.record('otp_sent', {
+        outcome: error instanceof OtpThrottleException ? 'blocked' : 'failure',
+        phone,
+        reason: this.authAuditService.reasonFor(error),
+        metadata: { channel: 'sms' },
+        context,
+      });
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new BadRequestException(error?.message || 'Failed to send OTP');
     }
   }
 
   /**
    * Verify OTP for existing users (login) or new users (signup)
-   * For existing users: Returns access_token for authenticated requests
+   * For existing users: Returns access_token and refresh_token for authenticated requests
    * For new users: Returns access_token to be used for signup endpoint
    */
-  async verifyOtp(phone: string, otp: string) {
+  async verifyOtp(phone: string, otp: string, context: LoginContext = {}) {
     this.logger.log(`🔐 verifyOtp called for phone: ${phone}`);
+    let formattedPhone = phone;
+    let verified = false;
     try {
       // Format phone number
-      const formattedPhone = this.otpService.formatPhoneNumber(phone);
+      formattedPhone = this.otpService.formatPhoneNumber(phone);
       this.logger.log(`📞 Formatted phone: ${formattedPhone}`);
 
       // Verify OTP
@@ -50,10 +98,17 @@ export class AuthService {
 
       if (!verification.isValid) {
         this.logger.warn(`⚠️  Invalid OTP for phone: ${formattedPhone}`);
-        throw new UnauthorizedException(verification.message);
+        throw new UnauthorizedException({
+          statusCode: 401,
+          error: 'Unauthorized',
+          code: OtpErrorCode.INVALID,
+          message: verification.message,
+          attemptsRemaining: verification.attemptsRemaining,
+        });
       }
 
       this.logger.log(`✅ OTP verified successfully`);
+      verified = true;
 
       // Check if user exists
       this.logger.log(`🔍 Checking if user exists in database...`);
@@ -61,7 +116,8 @@ export class AuthService {
       const { data: user, error } = await supabase
         .from('users')
         .select('*, profiles(*)')
-        .eq('phone', formattedPhone)
+        .in('phone', legacyPhoneCandidates(formattedPhone))
+        .limit(1)
         .maybeSingle();
 
       if (error || !user) {
@@ -69,6 +125,12 @@ export class AuthService {
         // User doesn't exist - generate a signup token with phone number
         const signupToken = this.generateSignupToken(formattedPhone);
         this.logger.log(`🎫 Signup token generated for new user`);
+        await this.authAuditService.record('otp_verified', {
+          outcome: 'success',
+          phone: formattedPhone,
+          metadata: { channel: 'sms', isNewUser: true },
+          context,
+        });
 
         return {
           success: true,
@@ -80,39 +142,31 @@ export class AuthService {
 
       this.logger.log(`👤 User found: ID=${user.id}, email=${user.email}`);
 
-      // Handle profiles - could be array, object, or null
-      let profile = user.profiles;
-      if (Array.isArray(profile)) {
-        profile = profile.length > 0 ? profile[0] : null;
-      }
-
-      if (profile) {
-        this.logger.log(`📋 Profile loaded: role=${profile.role}, name=${profile.first_name} ${profile.last_name}`);
+      // Upgrade numbers stored before E.164 normalization on first login
+      if (user.phone !== formattedPhone) {
+        const { error: phoneError } = await supabase
+          .from('users')
+          .update({ phone: formattedPhone })
+          .eq('id', user.id);
+        if (phoneError) {
+          this.logger.warn(`⚠️  Could not normalize phone for user ${user.id}: ${phoneError.message}`);
+        } else {
+          user.phone = formattedPhone;
+        }
       }
 
-      // Generate JWT token
-      const token = this.generateToken(user);
-      this.logger.log(`🎫 JWT token generated`);
-
-      this.logger.log(`✅ Login successful for user: ${user.id}`);
-      return {
-        success: true,
-        isNewUser: false,
-        message: 'Login successful',
-        user: {
-          id: user.id,
-          phone: user.phone,
-          email: user.email,
-          role: profile?.role,
-          firstName: profile?.first_name,
-          lastName: profile?.last_name,
-        },
-        profile: profile,
-        access_token: token,
-      };
+      await this.authAuditService.record('otp_verified', {
+        outcome: 'success',
+        userId: user.id,
+        phone: formattedPhone,
+        metadata: { channel: 'sms', isNewUser: false },
+        context,
+      });
+      return await this.completeLogin(user, context, 'sms');
     } catch (error: any) {
       this.logger.error(`❌ Verify OTP error:`, error);
-      if (error instanceof UnauthorizedException) {
+      await this.recordVerificationFailure(error, verified, { phone: formattedPhone, channel: 'sms', context });
+      if (error instanceof HttpException) {
         throw error;
       }
       throw new BadRequestException(error?.message || 'Failed to verify OTP');
@@ -120,218 +174,285 @@ export class AuthService {
   }
 
   /**
-   * Complete user signup with all details
-   * Requires a valid signup token (obtained from verify-otp for new users)
-   * The phone number is extracted from the token, not from request body
+   * Email a login code and magic link to a verified email address
    */
-  async signup(signupDto: SignupDto, signupToken: string) {
+  async sendEmailLoginCode(email: string, context: AuditRequestContext = {}) {
+    this.logger.log(`📧 sendEmailLoginCode called for email: ${email}`);
     try {
-      // Verify signup token
-      const tokenPayload = this.verifySignupToken(signupToken);
-      if (!tokenPayload || !tokenPayload.phone) {
-        throw new UnauthorizedException('Invalid or expired signup token. Please verify OTP again.');
+      const result = await this.emailOtpService.sendLoginCode(email);
+      await this.authAuditService.record('otp_sent', {
+        outcome: 'success',
+        metadata: { channel: 'email', email: this.emailOtpService.normalizeEmail(email) },
+        context,
+      });
+      return result;
+    } catch (error: any) {
+      this.logger.error(`❌ Send email OTP error for ${email}:`, error);
+      await this.authAuditService.record('otp_sent', {
+        outcome: error instanceof OtpThrottleException ? 'blocked' : 'failure',
+        reason: this.authAuditService.reasonFor(error),
+        metadata: { channel: 'email', email: this.emailOtpService.normalizeEmail(email) },
+        context,
+      });
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new BadRequestException(error?.message || 'Failed to send email OTP');
+    }
+  }
 
-      const formattedPhone = tokenPayload.phone;
-      this.logger.log(`📱 Signup initiated for phone: ${formattedPhone}`);
+  /**
+   * Log in with an emailed code or magic-link token
+   * Only existing accounts with a verified email can log in this way; new users sign up by phone.
+   */
+  async verifyEmailLogin(email: string, credentials: { otp?: string; token?: string }, context: LoginContext = {}) {
+    this.logger.log(`🔐 verifyEmailLogin called for email: ${email}`);
+    let verified = false;
+    try {
+      const verification = await this.emailOtpService.verify(email, 'login', credentials);
 
-      // Check if user already exists
+      if (!verification.isValid) {
+        throw new UnauthorizedException({
+          statusCode: 401,
+          error: 'Unauthorized',
+          code: OtpErrorCode.INVALID,
+          message: verification.message,
+          attemptsRemaining: verification.attemptsRemaining,
+        });
+      }
+
+      verified = true;
       const supabase = this.supabaseService.getAdminClient();
-      const { data: existingUser } = await supabase
+      const { data: user, error } = await supabase
         .from('users')
-        .select('id')
-        .eq('phone', formattedPhone)
+        .select('*, profiles(*)')
+        .eq('id', verification.otpRecord.user_id)
         .maybeSingle();
 
-      if (existingUser) {
-        throw new BadRequestException('User already exists. Please login instead.');
+      if (error || !user || this.emailOtpService.normalizeEmail(user.email) !== this.emailOtpService.normalizeEmail(email)) {
+        throw new UnauthorizedException('This email is no longer linked to an account');
       }
 
-      // Create user
-      const { data: newUser, error: userError } = await supabase
-        .from('users')
-        .insert({
-          phone: formattedPhone,
-          email: signupDto.email,
-        })
-        .select()
-        .single();
-
-      if (userError || !newUser) {
-        this.logger.error('Error creating user:', userError);
-        throw new BadRequestException('Failed to create user account');
+      await this.authAuditService.record('otp_verified', {
+        outcome: 'success',
+        userId: user.id,
+        phone: user.phone,
+        metadata: { channel: 'email' },
+        context,
+      });
+      return await this.completeLogin(user, context, 'email');
+    } catch (error: any) {
+      this.logger.error(`❌ Verify email login error:`, error);
+      await this.recordVerificationFailure(error, verified, {
+        email: this.emailOtpService.normalizeEmail(email),
+        channel: 'email',
+        context,
+      });
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new BadRequestException(error?.message || 'Failed to verify email login');
+    }
+  }
 
-      // Upload or accept profile picture URL if provided (NEW USERS ONLY)
-      let profilePicUrl: string | null = null;
-      if (signupDto.profilePhoto) {
-        const isUrl = /^https?:\/\//i.test(signupDto.profilePhoto);
-        try {
-          if (isUrl) {
-            profilePicUrl = signupDto.profilePhoto;
-          } else {
-            this.logger.log('📸 Uploading profile picture to Storage...');
-            // Use appropriate method based on role
-            if (signupDto.role === 'artist') {
-              profilePicUrl = await this.photoService.uploadArtistProfilePicFromBase64(
-                signupDto.profilePhoto,
-                newUser.id,
-              );
-            } else if (signupDto.role === 'recruiter') {
-              profilePicUrl = await this.photoService.uploadRecruiterProfilePicFromBase64(
-                signupDto.profilePhoto,
-                newUser.id,
-              );
-            }
-            this.logger.log(`✅ Profile picture uploaded: ${profilePicUrl}`);
-          }
-        } catch (e) {
-          this.logger.warn('Failed to process profile picture, proceeding without image:', e);
-          profilePicUrl = null;
-        }
+  /**
+   * Confirm ownership of the account email with an emailed code or link token
+   */
+  async confirmEmail(email: string, credentials: { otp?: string; token?: string }) {
+    try {
+      const result = await this.emailOtpService.confirmEmail(email, credentials);
+      if (!result.isValid) {
+        throw new UnauthorizedException({
+          statusCode: 401,
+          error: 'Unauthorized',
+          code: OtpErrorCode.INVALID,
+          message: result.message,
+          attemptsRemaining: result.attemptsRemaining,
+        });
+      }
+      return { success: true, message: result.message, email: this.emailOtpService.normalizeEmail(email), verifiedAt: result.verifiedAt };
+    } catch (error: any) {
+      this.logger.error(`❌ Confirm email error:`, error);
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new BadRequestException(error?.message || 'Failed to confirm email');
+    }
+  }
 
-      // Create base profile
-      const { data: baseProfile, error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          user_id: newUser.id,
-          role: signupDto.role,
-          first_name: signupDto.firstName,
-          last_name: signupDto.lastName,
-          // Optional legacy field retained for base profile display
-          profile_photo_url: profilePicUrl,
-        })
-        .select()
-        .single();
+  /**
+   * Send (or resend) the email confirmation for the current user
+   */
+  async sendEmailVerification(userId: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, email, email_verified_at')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!user?.email) {
+      throw new BadRequestException('No email address on this account');
+    }
+    if (user.email_verified_at) {
+      return { success: true, message: 'Email already verified', email: user.email };
+    }
 
-      if (profileError || !baseProfile) {
-        this.logger.error('Error creating base profile:', profileError);
-        await supabase.from('users').delete().eq('id', newUser.id);
-        throw new BadRequestException('Failed to create user profile');
+    try {
+      return await this.emailOtpService.sendVerification(user.id, user.email);
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new BadRequestException(error?.message || 'Failed to send verification email');
+    }
+  }
 
-      // Create role-specific profile
-      if (signupDto.role === 'artist') {
-        const { error: artistProfileError } = await supabase
-          .from('artist_profiles')
-          .insert({
-            profile_id: baseProfile.id,
-            email: signupDto.email,
-            phone: formattedPhone,
-            alt_phone: signupDto.alternativePhone,
-            maa_associative_number: signupDto.maaAssociativeNumber,
-            gender: signupDto.gender,
-            department: signupDto.department,
-            state: signupDto.state,
-            city: signupDto.city,
-            aadhar_number: signupDto.aadharNumber,
-            bio: signupDto.bio,
-            // Store Supabase Storage URL (new users only)
-            profile_pic: profilePicUrl,
-          });
+  /**
+   * Issue tokens for an existing user and build the login response
+   */
+  private async completeLogin(user: any, context: LoginContext, channel: 'sms' | 'email') {
+    // A new login starts on the user's oldest profile; the app can switch afterwards
+    const profile = pickActiveProfile(user.profiles);
 
-        if (artistProfileError) {
-          this.logger.error('Error creating artist profile:', artistProfileError);
-          await supabase.from('profiles').delete().eq('id', baseProfile.id);
-          await supabase.from('users').delete().eq('id', newUser.id);
-          throw new BadRequestException('Failed to create artist profile');
-        }
-      } else if (signupDto.role === 'recruiter') {
-        const { data: recruiterProfile, error: recruiterProfileError } = await supabase
-          .from('recruiter_profiles')
-          .insert({
-            profile_id: baseProfile.id,
-            email: signupDto.email,
-            phone: formattedPhone,
-            alt_phone: signupDto.alternativePhone,
-            maa_associative_number: signupDto.maaAssociativeNumber,
-            gender: signupDto.gender,
-            department: signupDto.department,
-            state: signupDto.state,
-            city: signupDto.city,
-            aadhar_number: signupDto.aadharNumber,
-            bio: signupDto.bio,
-            // Store Supabase Storage URL (new users only)
-            profile_pic: profilePicUrl,
-          })
-          .select()
-          .single();
-
-        if (recruiterProfileError || !recruiterProfile) {
-          this.logger.error('Error creating recruiter profile:', recruiterProfileError);
-          await supabase.from('profiles').delete().eq('id', baseProfile.id);
-          await supabase.from('users').delete().eq('id', newUser.id);
-          throw new BadRequestException('Failed to create recruiter profile');
-        }
+    if (profile) {
+      this.logger.log(`📋 Profile loaded: role=${profile.role}, name=${profile.first_name} ${profile.last_name}`);
+    }
 
-        // Create company if provided
-        if (signupDto.companyName) {
-          const { error: companyError } = await supabase
-            .from('recruiter_companies')
-            .insert({
-              recruiter_profile_id: recruiterProfile.id,
-              name: signupDto.companyName,
-              phone: signupDto.companyPhone,
-              email: signupDto.companyEmail,
-              logo_url: signupDto.companyLogo,
-              website: signupDto.website,
-            });
-
-          if (companyError) {
-            this.logger.error('Error creating company:', companyError);
-          }
-        }
+    // Generate access and refresh tokens
+    const tokens = await this.issueTokens(user, context, profile?.id);
+    this.logger.log(`🎫 JWT token generated`);
+
+    this.logger.log(`✅ Login successful for user: ${user.id}`);
+    await this.authAuditService.record('login', {
+      outcome: 'success',
+      userId: user.id,
+      phone: user.phone,
+      profileId: profile?.id,
+      metadata: { channel, deviceId: context.deviceId, platform: context.platform },
+      context,
+    });
+    return {
+      success: true,
+      isNewUser: false,
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        phone: user.phone,
+        email: user.email,
+        emailVerified: !!user.email_verified_at,
+        role: profile?.role,
+        firstName: profile?.first_name,
+        lastName: profile?.last_name,
+      },
+      profile: profile,
+      profiles: summarizeProfiles(user.profiles),
+      ...tokens,
+    };
+  }
+
+  /**
+   * Complete user signup with all details
+   * Requires a valid signup token (obtained from verify-otp for new users)
+   * The phone number is extracted from the token, not from request body
+   *
+   * `signup_user(p_idempotency_key, p_phone_candidates, p_payload)` inserts every row in one
+   * transaction and returns `{ user, profile, replayed }`. It raises `USER_EXISTS` when any
+   * candidate phone is registered, and returns the earlier result (`replayed: true`) when the
+   * key was already used, so a retried request with the same signup token is safe.
+   */
+  async signup(signupDto: SignupDto, signupToken: string, context: LoginContext = {}) {
+    let formattedPhone: string | undefined;
+    try {
+      // Verify signup token
+      const tokenPayload = this.verifySignupToken(signupToken);
+      if (!tokenPayload || !tokenPayload.phone) {
+        throw new UnauthorizedException('Invalid or expired signup token. Please verify OTP again.');
       }
 
-      // Create social links if provided
-      const socialLinks: Array<{ platform: string; url: string; is_custom?: boolean }> = [];
-      if (signupDto.website) socialLinks.push({ platform: 'website', url: signupDto.website });
-      if (signupDto.facebook) socialLinks.push({ platform: 'facebook', url: signupDto.facebook });
-      if (signupDto.twitter) socialLinks.push({ platform: 'twitter', url: signupDto.twitter });
-      if (signupDto.instagram) socialLinks.push({ platform: 'instagram', url: signupDto.instagram });
-      if (signupDto.youtube) socialLinks.push({ platform: 'youtube', url: signupDto.youtube });
-
-      // Add custom links
-      if (signupDto.customLinks && signupDto.customLinks.length > 0) {
-        signupDto.customLinks.forEach((url, index) => {
-          if (url) {
-            socialLinks.push({ platform: `custom_${index + 1}`, url, is_custom: true });
-          }
-        });
+      formattedPhone = tokenPayload.phone;
+      this.logger.log(`📱 Signup initiated for phone: ${formattedPhone}`);
+
+      // Reject bad links before anything is uploaded
+      const socialLinks = this.buildSignupSocialLinks(signupDto);
+
+      // The whole signup is one transaction in the `signup_user` database function.
+      // Only the photo upload happens outside it, so it is undone if the transaction fails.
+      const userId = randomUUID();
+      const photo = await this.resolveSignupPhoto(signupDto, userId);
+      const profilePicUrl = photo?.url ?? null;
+
+      const supabase = this.supabaseService.getAdminClient();
+      const { data: created, error: signupError } = await supabase.rpc('signup_user', {
+        p_idempotency_key: this.getSignupIdempotencyKey(tokenPayload, signupToken),
+        p_phone_candidates: legacyPhoneCandidates(formattedPhone),
+        p_payload: await this.buildSignupPayload(signupDto, userId, formattedPhone, profilePicUrl, socialLinks),
+      });
+
+      if (signupError || !created?.user || !created?.profile) {
+        await this.discardSignupPhoto(photo?.path);
+        if (signupError?.message?.includes('USER_EXISTS') || signupError?.code === '23505') {
+          throw new BadRequestException('User already exists. Please login instead.');
+        }
+        this.logger.error('Error creating user:', signupError);
+        throw new BadRequestException('Failed to create user account');
       }
 
-      if (socialLinks.length > 0) {
-        const linksToInsert = socialLinks.map((link, index) => ({
-          profile_id: baseProfile.id,
-          platform: link.platform,
-          url: link.url,
-          is_custom: link.is_custom || false,
-          order_index: index,
-        }));
+      const newUser = created.user;
+      const baseProfile = created.profile;
 
-        await supabase.from('profile_social_links').insert(linksToInsert);
+      if (created.replayed) {
+        // A retry of a signup that already went through: keep the original photo
+        this.logger.log(`🔁 Signup replayed for user ${newUser.id}`);
+        await this.discardSignupPhoto(photo?.path);
       }
 
-      // Generate JWT access token for the new user
-      const accessToken = this.generateToken(newUser);
+      // Generate access and refresh tokens for the new user
+      const tokens = await this.issueTokens(newUser, context, baseProfile.id);
+
+      // Ask the user to confirm their email; signup still succeeds if the mail cannot be sent
+      const emailVerification = created.replayed
+        ? { success: false }
+        : await this.emailOtpService
+          .sendVerification(newUser.id, newUser.email)
+          .catch((error) => {
+            this.logger.warn(`⚠️  Could not send verification email for user ${newUser.id}: ${error?.message || error}`);
+            return { success: false };
+          });
+
+      await this.authAuditService.record('signup', {
+        outcome: 'success',
+        userId: newUser.id,
+        phone: newUser.phone,
+        profileId: baseProfile.id,
+        metadata: { role: baseProfile.role, replayed: !!created.replayed, deviceId: context.deviceId, platform: context.platform },
+        context,
+      });
 
       return {
         success: true,
         message: 'Signup successful',
+        emailVerificationSent: emailVerification.success,
         user: {
           id: newUser.id,
           phone: newUser.phone,
           email: newUser.email,
+          emailVerified: false,
           role: baseProfile.role,
           firstName: baseProfile.first_name,
           lastName: baseProfile.last_name,
         },
         profile: baseProfile,
-        access_token: accessToken,
+        ...tokens,
       };
     } catch (error: any) {
       this.logger.error('Signup error:', error);
+      await this.authAuditService.record('signup', {
+        outcome: 'failure',
+        phone: formattedPhone,
+        reason: this.authAuditService.reasonFor(error),
+        context,
+      });
       if (error instanceof UnauthorizedException || error instanceof BadRequestException) {
         throw error;
       }
@@ -339,10 +460,138 @@ export class AuthService {
     }
   }
 
+  /**
+   * Accept a photo URL as is, or upload a base64 photo under the pre-generated user id
+   * `path` is set only for uploads, which are ours to delete again. Returns null when there is
+   * no photo or it cannot be processed (signup continues without it).
+   */
+  private async resolveSignupPhoto(signupDto: SignupDto, userId: string): Promise<{ url: string; path?: string } | null> {
+    if (!signupDto.profilePhoto) {
+      return null;
+    }
+    if (/^https?:\/\//i.test(signupDto.profilePhoto)) {
+      return { url: signupDto.profilePhoto };
+    }
+
+    try {
+      this.logger.log('📸 Uploading profile picture to Storage...');
+      const url = signupDto.role === 'recruiter'
+        ? await this.photoService.uploadRecruiterProfilePicFromBase64(signupDto.profilePhoto, userId)
+        : await this.photoService.uploadArtistProfilePicFromBase64(signupDto.profilePhoto, userId);
+      this.logger.log(`✅ Profile picture uploaded: ${url}`);
+      return { url, path: this.photoService.pathFromPublicUrl(url) ?? undefined };
+    } catch (e) {
+      this.logger.warn('Failed to process profile picture, proceeding without image:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Compensating step for a failed or replayed signup: remove the photo it uploaded
+   */
+  private async discardSignupPhoto(path?: string): Promise<void> {
+    if (!path) return;
+    await this.photoService.deleteImage(path).catch((error) =>
+      this.logger.warn(`⚠️  Could not delete orphaned signup photo ${path}: ${error?.message || error}`),
+    );
+  }
+
+  /**
+   * Retries with the same signup token return the original signup instead of failing
+   */
+  private getSignupIdempotencyKey(tokenPayload: { jti?: string }, signupToken: string): string {
+    // Tokens issued before signup tokens carried a jti are keyed by their hash
+    return tokenPayload.jti || createHash('sha256').update(signupToken).digest('hex');
+  }
+
+  /**
+   * Rows for `signup_user`, which inserts them in one transaction:
+   * users, profiles, artist_profiles or recruiter_profiles (+ recruiter_companies), profile_social_links
+   * Sensitive identifiers such as the Aadhaar number are encrypted here, before they leave the service.
+   */
+  private async buildSignupPayload(
+    signupDto: SignupDto,
+    userId: string,
+    phone: string,
+    profilePicUrl: string | null,
+    socialLinks: SignupSocialLink[],
+  ) {
+    const roleProfile = await this.fieldEncryptionService.encryptFields({
+      email: signupDto.email,
+      phone,
+      alt_phone: signupDto.alternativePhone,
+      maa_associative_number: signupDto.maaAssociativeNumber,
+      gender: signupDto.gender,
+      department: signupDto.department,
+      state: signupDto.state,
+      city: signupDto.city,
+      aadhar_number: signupDto.aadharNumber,
+      bio: signupDto.bio,
+      // Store Supabase Storage URL (new users only)
+      profile_pic: profilePicUrl,
+    }, SENSITIVE_PROFILE_FIELDS);
+
+    return {
+      user: {
+        id: userId,
+        phone,
+        email: this.emailOtpService.normalizeEmail(signupDto.email),
+      },
+      profile: {
+        role: signupDto.role,
+        first_name: signupDto.firstName,
+        last_name: signupDto.lastName,
+        // Optional legacy field retained for base profile display
+        profile_photo_url: profilePicUrl,
+      },
+      artist_profile: signupDto.role === 'artist' ? roleProfile : null,
+      recruiter_profile: signupDto.role === 'recruiter' ? roleProfile : null,
+      recruiter_company: signupDto.role === 'recruiter' && signupDto.companyName
+        ? {
+          name: signupDto.companyName,
+          phone: signupDto.companyPhone,
+          email: signupDto.companyEmail,
+          logo_url: signupDto.companyLogo,
+          website: signupDto.website,
+        }
+        : null,
+      social_links: socialLinks.map((link, index) => ({ ...link, order_index: index })),
+    };
+  }
+
+  /**
+   * Signup links in the canonical form the social link endpoints store
+   * Throws BadRequestException for a link that is not valid for its platform.
+   */
+  private buildSignupSocialLinks(signupDto: SignupDto): SignupSocialLink[] {
+    const inputs: Array<{ platform: SocialPlatform; url?: string }> = [
+      { platform: 'website', url: signupDto.website },
+      { platform: 'facebook', url: signupDto.facebook },
+      { platform: 'twitter', url: signupDto.twitter },
+      { platform: 'instagram', url: signupDto.instagram },
+      { platform: 'youtube', url: signupDto.youtube },
+      ...(signupDto.customLinks || []).map((url) => ({ platform: 'custom' as const, url })),
+    ];
+
+    const links: SignupSocialLink[] = [];
+    for (const { platform, url } of inputs) {
+      if (!url) continue;
+      const canonical = canonicalizeSocialLink(platform, url);
+      if (!canonical) {
+        throw new BadRequestException(`Not a valid ${platform} link`);
+      }
+      if (links.some((link) => link.url === canonical.url)) {
+        throw new BadRequestException(`Duplicate link: ${canonical.url}`);
+      }
+      links.push({ platform, url: canonical.url, handle: canonical.handle, is_custom: platform === 'custom' });
+    }
+    return links;
+  }
+
   /**
    * Get user profile by ID
    */
-  async getProfile(userId: string) {
+  async getProfile(userId: string, profileId?: string) {
     try {
       this.logger.log(`Getting profile for user ID: ${userId}`);
       const supabase = this.supabaseService.getAdminClient();
@@ -365,7 +614,7 @@ export class AuthService {
         .select('*')
         .eq('user_id', userId);
 
-      const profile = profiles && profiles.length > 0 ? profiles[0] : null;
+      const profile = pickActiveProfile(profiles, profileId);
 
       if (profile?.id && profile.role === 'artist') {
         const { data: artistProfile } = await supabase
@@ -391,7 +640,8 @@ export class AuthService {
       const { data: socialLinks } = await supabase
         .from('profile_social_links')
         .select('*')
-        .eq('profile_id', profile?.id);
+        .eq('profile_id', profile?.id)
+        .order('order_index', { ascending: true });
 
       this.logger.log(`Profile found: ${!!profile}, Role: ${profile?.role}`);
 
@@ -403,6 +653,7 @@ export class AuthService {
           email: user.email,
         },
         profile: profile,
+        profiles: summarizeProfiles(profiles),
         socialLinks: socialLinks || [],
       };
     } catch (error) {
@@ -411,19 +662,196 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   * Reusing an already-rotated refresh token revokes the whole token family
+   */
+  async refreshTokens(refreshToken: string, deviceId?: string, context: AuditRequestContext = {}) {
+    const { userId, familyId, refreshToken: rotated } = await this.refreshTokenService
+      .rotate(refreshToken, deviceId)
+      .catch(async (error) => {
+        await this.authAuditService.record('token_refresh', {
+          outcome: 'failure',
+          reason: this.authAuditService.reasonFor(error),
+          metadata: { deviceId },
+          context,
+        });
+        throw error;
+      });
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id, phone, email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error || !user) {
+      this.logger.warn(`⚠️  Refresh attempted for missing user ${userId}, revoking family`);
+      await this.refreshTokenService.revokeFamily(familyId, 'user_missing');
+      throw new UnauthorizedException('User not found');
+    }
+
+    await this.sessionsService.touch(familyId);
+    const activeProfileId = await this.sessionsService.getActiveProfileId(familyId);
+
+    this.logger.log(`🔄 Tokens refreshed for user: ${user.id}`);
+    await this.authAuditService.record('token_refresh', {
+      outcome: 'success',
+      userId: user.id,
+      profileId: activeProfileId,
+      metadata: { sessionId: familyId, deviceId },
+      context,
+    });
+    return {
+      success: true,
+      access_token: this.generateToken(user, familyId, activeProfileId),
+      refresh_token: rotated.token,
+      expires_in: this.getAccessTokenTtlSeconds(),
+    };
+  }
+
+  /**
+   * Switch the profile the current session acts as
+   * Returns a new access token carrying the profile; the old one is revoked and
+   * refreshes keep the chosen profile.
+   */
+  async switchProfile(
+    user: { id: string; phone?: string; email?: string; jti?: string; tokenExp?: number; sessionId?: string },
+    profileId: string,
+  ) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, user_id, role, first_name, last_name')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    if (!profile || profile.user_id !== user.id) {
+      throw new ForbiddenException('You can only switch to one of your own profiles');
+    }
+
+    if (user.sessionId) {
+      await this.sessionsService.setActiveProfile(user.id, user.sessionId, profile.id);
+    }
+    if (user.jti) {
+      await this.tokenRevocationService.revokeToken(user.jti, user.tokenExp);
+    }
+
+    this.logger.log(`🔀 User ${user.id} switched to profile ${profile.id} (${profile.role})`);
+    return {
+      success: true,
+      message: 'Profile switched',
+      profile: summarizeProfiles(profile)[0],
+      access_token: this.generateToken(user, user.sessionId, profile.id),
+      expires_in: this.getAccessTokenTtlSeconds(),
+    };
+  }
+
+  /**
+   * Log out the current device
+   * Revokes the presented access token and every refresh token from the same login
+   */
+  async logout(
+    user: { id: string; profileId?: string; jti?: string; tokenExp?: number; sessionId?: string; impersonatorId?: string },
+    context: AuditRequestContext = {},
+  ) {
+    if (user.jti) {
+      await this.tokenRevocationService.revokeToken(user.jti, user.tokenExp);
+    }
+    if (user.sessionId) {
+      await this.sessionsService.terminate(user.sessionId, 'logout');
+    }
+
+    this.logger.log(`👋 User ${user.id} logged out${user.sessionId ? ` (session ${user.sessionId})` : ''}`);
+    await this.authAuditService.record('logout', {
+      outcome: 'success',
+      userId: user.id,
+      profileId: user.profileId,
+      actorId: user.impersonatorId,
+      metadata: { sessionId: user.sessionId },
+      context,
+    });
+    return { success: true, message: 'Logged out successfully' };
+  }
+
+  /**
+   * Log out every device: revokes all refresh tokens and all access tokens issued so far
+   * `reason` and `actorId` say why and who, for the audit log (e.g. an admin banning the user).
+   */
+  async logoutAll(userId: string, audit: { reason?: string; actorId?: string; context?: AuditRequestContext } = {}) {
+    await this.refreshTokenService.revokeAllForUser(userId, 'logout_all');
+    await this.tokenRevocationService.revokeAllForUser(userId);
+    await this.sessionsService.markAllRevoked(userId, 'logout_all');
+    // Also covers bans, phone changes and deletions, which all end here
+    await this.identityCacheService.invalidate(userId);
+
+    this.logger.log(`👋 User ${userId} logged out from all devices`);
+    await this.authAuditService.record('logout_all', {
+      outcome: 'success',
+      userId,
+      actorId: audit.actorId,
+      reason: audit.reason || 'user_request',
+      context: audit.context,
+    });
+    return { success: true, message: 'Logged out from all devices' };
+  }
+
+  /**
+   * Audit a failed phone/email code verification
+   * Failures after the code was accepted are recorded as failed logins instead.
+   */
+  private async recordVerificationFailure(
+    error: any,
+    verified: boolean,
+    details: { phone?: string; email?: string; channel: 'sms' | 'email'; context: AuditRequestContext },
+  ): Promise<void> {
+    const reason = this.authAuditService.reasonFor(error);
+    const event = verified ? 'login' : reason === OtpErrorCode.ATTEMPTS_EXCEEDED ? 'otp_lockout' : 'otp_failed';
+    await this.authAuditService.record(event, {
+      outcome: error instanceof OtpThrottleException ? 'blocked' : 'failure',
+      phone: details.phone,
+      reason,
+      metadata: { channel: details.channel, ...(details.email ? { email: details.email } : {}) },
+      context: details.context,
+    });
+  }
+
+  /**
+   * Issue a short-lived access token plus a refresh token for a login on a device
+   * and record the login as a session
+   */
+  private async issueTokens(user: any, context: LoginContext = {}, profileId?: string) {
+    const refreshToken = await this.refreshTokenService.issue(user.id, { deviceId: context.deviceId });
+    await this.sessionsService.create(user.id, refreshToken.familyId, context, profileId);
+    return {
+      refresh_token: refreshToken.token,
+      expires_in: this.getAccessTokenTtlSeconds(),
+      access_token: this.generateToken(user, refreshToken.familyId, profileId),
+    };
+  }
+
+  private getAccessTokenTtlSeconds(): number {
+    return parseInt(this.configService.get<string>('JWT_ACCESS_TOKEN_TTL_SECONDS') || '900', 10);
+  }
+
   /**
    * Generate JWT token for authenticated user
+   * `sid` ties the token to the refresh token family of its login; `pid` is the active profile
    */
-  private generateToken(user: any): string {
+  private generateToken(user: any, sessionId?: string, profileId?: string): string {
     const payload = {
       sub: user.id,
       phone: user.phone,
       email: user.email,
       type: 'access',
+      jti: randomUUID(),
+      sid: sessionId,
+      pid: profileId,
     };
 
-    return this.jwtService.sign(payload, {
-      expiresIn: '30d',
+    return this.jwtKeyService.sign(payload, {
+      expiresIn: this.getAccessTokenTtlSeconds(),
     });
   }
 
@@ -435,9 +863,11 @@ export class AuthService {
     const payload = {
       phone: phone,
       type: 'signup',
+      // Idempotency key for the signup this token completes
+      jti: randomUUID(),
     };
 
-    return this.jwtService.sign(payload, {
+    return this.jwtKeyService.sign(payload, {
       expiresIn: '10m',
     });
   }
@@ -445,9 +875,9 @@ export class AuthService {
   /**
    * Verify and decode signup token
    */
-  verifySignupToken(token: string): { phone: string; type: string } | null {
+  verifySignupToken(token: string): { phone: string; type: string; jti?: string } | null {
     try {
-      const payload = this.jwtService.verify(token);
+      const payload = this.jwtKeyService.verify(token);
       if (payload.type !== 'signup') {
         return null;
       }
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_KEY_SCOPES_KEY = 'api_key_scopes';
+
+/**
+ * What an API key may be granted; each route opts in with `@ApiKeyScope()`
+ */
+export const API_KEY_SCOPES = ['profiles:read', 'posts:read', 'projects:read'] as const;
+
+export type ApiKeyScopeName = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Let API keys holding these scopes call the route (requires `ApiKeyOrJwtGuard`)
+ * Routes without it accept user tokens only.
+ */
+export const ApiKeyScope = (...scopes: ApiKeyScopeName[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_IMPERSONATION_KEY = 'block_impersonation';
+
+/**
+ * Reject the route for impersonation tokens (account deletion, payments, credential changes)
+ */
+export const BlockImpersonation = () => SetMetadata(BLOCK_IMPERSONATION_KEY, true);
@@ -7,12 +7,15 @@ export const CurrentUser = createParamDecorator(
   },
 );
 
+/**
+ * The active profile of the request (from the token's `pid` claim)
+ * Pass a field name to get just that field, e.g. `@CurrentProfile('profileId')`.
+ */
 export const CurrentProfile = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
+  (data: string | undefined, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest();
-    // The JWT strategy returns user with profileId, userId, role, etc.
-    // Return the user object directly since it contains profile information
-    return request.user;
+    // The JWT strategy returns user with profileId, userId, role, etc. for the active profile
+    return data ? request.user?.[data] : request.user;
   },
 );
 
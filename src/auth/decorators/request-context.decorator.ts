@@ -0,0 +1,15 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuditRequestContext } from '../services/auth-audit.service';
+
+/**
+ * The caller's IP address and user agent, for the auth audit log
+ */
+export const RequestContext = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AuditRequestContext => {
+    const request = ctx.switchToHttp().getRequest();
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers?.['user-agent'],
+    };
+  },
+);
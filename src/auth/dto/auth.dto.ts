@@ -1,23 +1,66 @@
-import { IsString, IsNotEmpty, Length, Matches, IsEmail, IsOptional, IsEnum, IsArray } from 'class-validator';
+import { IsString, IsNotEmpty, Length, Matches, IsEmail, IsOptional, IsEnum, IsArray, IsPhoneNumber, IsIn, MaxLength, IsUUID, ArrayNotEmpty, IsInt, Min, Max, IsDateString } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NormalizePhone } from '../../utils/phone.util';
+import { API_KEY_SCOPES, ApiKeyScopeName } from '../decorators/api-key-scope.decorator';
 
 export class SendOtpDto {
   @ApiProperty({
-    description: 'Phone number to send OTP to',
-    example: '9876543210',
+    description: 'Phone number to send OTP to, in international format. Numbers without a country code are treated as Indian.',
+    example: '+919876543210',
   })
+  @NormalizePhone()
   @IsString()
   @IsNotEmpty()
+  @IsPhoneNumber(undefined, { message: 'phone must be a valid phone number, e.g. +971501234567 or a 10-digit Indian mobile' })
   phone: string;
 }
 
-export class VerifyOtpDto {
+/**
+ * Device details sent with a login, shown in the user's session list
+ */
+export class LoginDeviceDto {
+  @ApiPropertyOptional({
+    description: 'Stable identifier of the device logging in. Refresh tokens are bound to it.',
+    example: 'a1b2c3d4-device',
+  })
+  @IsString()
+  @IsOptional()
+  deviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Human readable device name', example: 'Pixel 6' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  deviceName?: string;
+
+  @ApiPropertyOptional({ description: 'Device platform', enum: ['ios', 'android', 'web'], example: 'android' })
+  @IsString()
+  @IsOptional()
+  @IsIn(['ios', 'android', 'web'])
+  platform?: string;
+
+  @ApiPropertyOptional({ description: 'App version', example: '1.0.0' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  appVersion?: string;
+
+  @ApiPropertyOptional({ description: 'OS version', example: 'Android 13' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  osVersion?: string;
+}
+
+export class VerifyOtpDto extends LoginDeviceDto {
   @ApiProperty({
     description: 'Phone number that received the OTP',
-    example: '9876543210',
+    example: '+919876543210',
   })
+  @NormalizePhone()
   @IsString()
   @IsNotEmpty()
+  @IsPhoneNumber(undefined, { message: 'phone must be a valid phone number, e.g. +971501234567 or a 10-digit Indian mobile' })
   phone: string;
 
   @ApiProperty({
@@ -32,7 +75,25 @@ export class VerifyOtpDto {
   otp: string;
 }
 
-export class SignupDto {
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token received from verify-otp, signup or a previous refresh',
+    example: '3f0c8a52-5d1e-4a8e-9a43-2f6f7c1e9b10.q9X0...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+
+  @ApiPropertyOptional({
+    description: 'Device identifier the refresh token was issued to',
+    example: 'a1b2c3d4-device',
+  })
+  @IsString()
+  @IsOptional()
+  deviceId?: string;
+}
+
+export class SignupDto extends LoginDeviceDto {
   @ApiProperty({
     description: 'First name of the user',
     example: 'John',
@@ -59,10 +120,12 @@ export class SignupDto {
 
   @ApiPropertyOptional({
     description: 'Alternative phone number',
-    example: '9876543211',
+    example: '+919876543211',
   })
+  @NormalizePhone()
   @IsString()
   @IsOptional()
+  @IsPhoneNumber(undefined, { message: 'alternativePhone must be a valid phone number' })
   alternativePhone?: string;
 
   @ApiPropertyOptional({
@@ -135,10 +198,12 @@ export class SignupDto {
 
   @ApiPropertyOptional({
     description: 'Company phone number (for recruiters)',
-    example: '022-12345678',
+    example: '+912212345678',
   })
+  @NormalizePhone()
   @IsString()
   @IsOptional()
+  @IsPhoneNumber(undefined, { message: 'companyPhone must be a valid phone number' })
   companyPhone?: string;
 
   @ApiPropertyOptional({
@@ -227,3 +292,129 @@ export class SignupDto {
   bio?: string;
 }
 
+
+export class StartPhoneChangeDto {
+  @ApiProperty({
+    description: 'Phone number to switch to, in international format',
+    example: '+971501234567',
+  })
+  @NormalizePhone()
+  @IsString()
+  @IsNotEmpty()
+  @IsPhoneNumber(undefined, { message: 'newPhone must be a valid phone number, e.g. +971501234567 or a 10-digit Indian mobile' })
+  newPhone: string;
+}
+
+export class ConfirmPhoneChangeDto {
+  @ApiProperty({
+    description: 'change_token returned when the phone change was started',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  changeToken: string;
+
+  @ApiPropertyOptional({
+    description: 'OTP sent to the current phone number (not needed for admin overrides)',
+    example: '123456',
+  })
+  @IsString()
+  @IsOptional()
+  @Length(6, 6, { message: 'OTP must be 6 digits' })
+  oldOtp?: string;
+
+  @ApiProperty({ description: 'OTP sent to the new phone number', example: '654321' })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 6, { message: 'OTP must be 6 digits' })
+  newOtp: string;
+}
+
+export class SendEmailOtpDto {
+  @ApiProperty({ description: 'Verified email address of the account', example: 'john@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
+
+export class VerifyEmailOtpDto extends LoginDeviceDto {
+  @ApiProperty({ description: 'Email address the code was sent to', example: 'john@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiPropertyOptional({ description: '6-digit code from the email (or send token)', example: '123456' })
+  @IsString()
+  @IsOptional()
+  @Length(6, 6, { message: 'OTP must be 6 digits' })
+  otp?: string;
+
+  @ApiPropertyOptional({ description: 'token from the magic link (or send otp)', example: 'q9X0...' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  token?: string;
+}
+
+export class ConfirmEmailDto {
+  @ApiProperty({ description: 'Email address being confirmed', example: 'john@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiPropertyOptional({ description: '6-digit code from the email (or send token)', example: '123456' })
+  @IsString()
+  @IsOptional()
+  @Length(6, 6, { message: 'OTP must be 6 digits' })
+  otp?: string;
+
+  @ApiPropertyOptional({ description: 'token from the confirmation link (or send otp)', example: 'q9X0...' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  token?: string;
+}
+
+export class SwitchProfileDto {
+  @ApiProperty({ description: 'One of the current user\'s profile ids', example: 'uuid' })
+  @IsUUID()
+  profileId: string;
+}
+
+export class StartImpersonationDto {
+  @ApiProperty({ description: 'Why support needs to act as this user; stored in the audit log', example: 'Ticket #4821: applications list is empty' })
+  @IsString()
+  @Length(10, 500)
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Profile to act as (defaults to the user\'s oldest profile)', example: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  profileId?: string;
+}
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'Who uses the key', example: 'Casting dashboard' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'What the key may access', enum: API_KEY_SCOPES, isArray: true, example: ['profiles:read', 'posts:read'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScopeName[];
+
+  @ApiPropertyOptional({ description: 'Requests allowed per minute (defaults to API_KEY_DEFAULT_RATE_LIMIT)', example: 120 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({ description: 'When the key stops working (never by default)', example: '2025-12-31T23:59:59.000Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,31 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Error codes returned to the app so it can explain why OTP requests are blocked
+ */
+export enum OtpErrorCode {
+  SEND_COOLDOWN = 'OTP_SEND_COOLDOWN',
+  DAILY_LIMIT = 'OTP_DAILY_LIMIT_REACHED',
+  ATTEMPTS_EXCEEDED = 'OTP_ATTEMPTS_EXCEEDED',
+  VERIFY_LOCKED = 'OTP_VERIFY_LOCKED',
+  INVALID = 'OTP_INVALID',
+}
+
+/**
+ * 429 response for OTP send/verify limits
+ * `retryAfter` is the number of seconds until the phone may try again.
+ */
+export class OtpThrottleException extends HttpException {
+  constructor(code: OtpErrorCode, message: string, retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        code,
+        message,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { ApiKeysService } from '../services/api-keys.service';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scope.decorator';
+
+/**
+ * Accepts an `X-API-Key` header on routes marked with `@ApiKeyScope()`, and user JWTs everywhere
+ * Use it in place of `JwtAuthGuard` on controllers that integrations may call.
+ */
+@Injectable()
+export class ApiKeyOrJwtGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly jwtAuthGuard: JwtAuthGuard,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const apiKey = request.headers['x-api-key'] as string | undefined;
+    if (!apiKey) {
+      return (await this.jwtAuthGuard.canActivate(context)) as boolean;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<string[]>(API_KEY_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredScopes || requiredScopes.length === 0) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
+    }
+
+    const principal = await this.apiKeysService.authenticate(apiKey, request.ip);
+    const missing = requiredScopes.filter((scope) => !principal.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`API key is missing scope: ${missing.join(', ')}`);
+    }
+
+    request.user = principal;
+    return true;
+  }
+}
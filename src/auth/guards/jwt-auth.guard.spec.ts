@@ -0,0 +1,51 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import axios from 'axios';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+jest.mock('axios');
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+  let request: any;
+
+  const identity = {
+    user: { id: 'user-1', phone: '+919876543210' },
+    profiles: [
+      { id: 'artist-1', user_id: 'user-1', role: 'artist', created_at: '2024-01-01T00:00:00.000Z' },
+      { id: 'recruiter-1', user_id: 'user-1', role: 'recruiter', created_at: '2024-02-01T00:00:00.000Z' },
+    ],
+  };
+
+  // A Supabase-issued token: our strategy rejects it, so the guard falls back to Supabase Auth
+  const claims = Buffer.from(JSON.stringify({ sub: 'user-1', jti: 'jti-1', exp: 9999999999 })).toString('base64url');
+  const context = { switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    (axios.get as any).mockResolvedValue({ data: { id: 'user-1' } });
+    jest.spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate').mockReturnValue(
+      Promise.reject(new UnauthorizedException('Invalid or expired token')),
+    );
+
+    guard = new JwtAuthGuard(
+      { get: jest.fn((key: string) => (key === 'SUPABASE_URL' ? 'https://x.supabase.co' : undefined)) } as any,
+      { resolve: jest.fn(() => Promise.resolve(identity)) } as any,
+      { isRevoked: jest.fn(() => Promise.resolve(false)) } as any,
+    );
+    request = { headers: { authorization: `Bearer header.${claims}.signature` } };
+  });
+
+  it('acts as the profile named by X-Profile-Id on Supabase tokens', async () => {
+    request.headers['x-profile-id'] = 'recruiter-1';
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user).toMatchObject({ id: 'user-1', profileId: 'recruiter-1', role: 'recruiter' });
+  });
+
+  it('rejects an X-Profile-Id the user does not own', async () => {
+    request.headers['x-profile-id'] = 'someone-elses-profile';
+
+    await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+    expect(request.user).toBeUndefined();
+  });
+});
@@ -1,15 +1,18 @@
-import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ExecutionContext, UnauthorizedException, ForbiddenException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Observable } from 'rxjs';
 import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { IdentityCacheService } from '../services/identity-cache.service';
+import { pickActiveProfile } from '../../utils/profile.util';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
   constructor(
     private readonly configService: ConfigService,
-    private readonly supabaseService: SupabaseService,
+    private readonly identityCacheService: IdentityCacheService,
+    private readonly tokenRevocationService: TokenRevocationService,
   ) {
     super();
   }
@@ -42,19 +45,25 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
           });
           const supUser = resp.data;
 
-          // Map Supabase user to our domain user via Supabase tables
-          const admin = this.supabaseService.getAdminClient();
-          const { data: user, error: userError } = await admin
-            .from('users')
-            .select('*, profiles(*)')
-            .eq('id', supUser.id)
-            .single();
+          // Supabase validated the signature; only read the claims needed for revocation
+          const claims = this.decodeClaims(token);
+          if (await this.tokenRevocationService.isRevoked({ sub: supUser.id, jti: claims?.jti, iat: claims?.iat })) {
+            throw new UnauthorizedException('Token has been revoked');
+          }
 
-          if (userError || !user) {
+          // Map Supabase user to our domain user (cached like regular logins)
+          const identity = await this.identityCacheService.resolve(supUser.id);
+          if (!identity) {
             throw new UnauthorizedException('User not found');
           }
+          const { user, profiles } = identity;
 
-          const profile = Array.isArray(user.profiles) ? (user.profiles[0] || null) : user.profiles;
+          // Supabase tokens carry no profile claim; the client names the profile in a header
+          const requestedProfileId = request.headers['x-profile-id'] as string | undefined;
+          const profile = pickActiveProfile(profiles, requestedProfileId);
+          if (!profile && requestedProfileId) {
+            throw new ForbiddenException('X-Profile-Id names a profile this user does not own');
+          }
           if (!profile) {
             throw new UnauthorizedException('User profile not found');
           }
@@ -69,10 +78,14 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
             phone: user.phone,
             firstName: profile.first_name,
             lastName: profile.last_name,
+            permissions: profile.permissions || [],
+            jti: claims?.jti,
+            tokenExp: claims?.exp,
           };
 
           return true;
         } catch (fallbackErr) {
+          if (fallbackErr instanceof ForbiddenException) throw fallbackErr;
           throw err || new UnauthorizedException('Invalid or expired token');
         }
       });
@@ -80,6 +93,14 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     return attempt;
   }
 
+  private decodeClaims(token: string): { jti?: string; iat?: number; exp?: number } | null {
+    try {
+      return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
   handleRequest(err: any, user: any, info: any) {
     // You can throw an exception based on either "info" or "err" arguments
     if (err || !user) {
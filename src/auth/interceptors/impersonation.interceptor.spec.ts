@@ -0,0 +1,63 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { EventEmitter } from 'events';
+import { lastValueFrom, of } from 'rxjs';
+import { ImpersonationInterceptor } from './impersonation.interceptor';
+import { BlockImpersonation } from '../decorators/block-impersonation.decorator';
+
+class TestController {
+  @BlockImpersonation()
+  deleteAccount() {}
+
+  updateProfile() {}
+}
+
+describe('ImpersonationInterceptor', () => {
+  const impersonationService = { record: jest.fn(() => Promise.resolve()) };
+  const interceptor = new ImpersonationInterceptor(new Reflector(), impersonationService as any);
+  const next = { handle: jest.fn(() => of('ok')) };
+  const impersonated = { id: 'user-1', profileId: 'artist-1', impersonatorId: 'super-1' };
+
+  const context = (handler: Function, request: any, response: any = new EventEmitter()) => ({
+    getType: () => 'http',
+    getHandler: () => handler,
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+  }) as any;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('blocks marked routes while impersonating', async () => {
+    const request = { method: 'DELETE', url: '/api/users/me', user: impersonated };
+
+    await expect(interceptor.intercept(context(TestController.prototype.deleteAccount, request), next))
+      .rejects.toThrow(ForbiddenException);
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(impersonationService.record).toHaveBeenCalledWith(impersonated, 'blocked', expect.objectContaining({ path: '/api/users/me' }));
+  });
+
+  it('audits writes once the response is sent', async () => {
+    const request = { method: 'PUT', url: '/api/profiles/artist-1', user: impersonated };
+    const response: any = new EventEmitter();
+
+    const result = await interceptor.intercept(context(TestController.prototype.updateProfile, request, response), next);
+    expect(await lastValueFrom(result)).toBe('ok');
+    expect(impersonationService.record).not.toHaveBeenCalled();
+
+    response.statusCode = 200;
+    response.emit('finish');
+    expect(impersonationService.record).toHaveBeenCalledWith(
+      impersonated,
+      'write',
+      { method: 'PUT', path: '/api/profiles/artist-1', statusCode: 200 },
+    );
+  });
+
+  it('leaves regular requests alone', async () => {
+    const request = { method: 'DELETE', url: '/api/users/me', user: { id: 'user-1' } };
+
+    await interceptor.intercept(context(TestController.prototype.deleteAccount, request), next);
+    expect(next.handle).toHaveBeenCalled();
+    expect(impersonationService.record).not.toHaveBeenCalled();
+  });
+});
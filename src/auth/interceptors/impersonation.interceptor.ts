@@ -0,0 +1,56 @@
+import { CallHandler, ExecutionContext, ForbiddenException, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { ImpersonationService } from '../services/impersonation.service';
+import { BLOCK_IMPERSONATION_KEY } from '../decorators/block-impersonation.decorator';
+
+const WRITE_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Audits writes made with impersonation tokens and rejects `@BlockImpersonation()` routes
+ * Runs after the route's guards, so `request.user` is set by then.
+ */
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ImpersonationInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly impersonationService: ImpersonationService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+    if (!user?.impersonatorId) {
+      return next.handle();
+    }
+
+    const path = request.originalUrl || request.url;
+    const blocked = this.reflector.getAllAndOverride<boolean>(BLOCK_IMPERSONATION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (blocked) {
+      await this.impersonationService.record(user, 'blocked', { method: request.method, path, statusCode: 403 });
+      this.logger.warn(`🎭 Blocked ${request.method} ${path} for impersonator ${user.impersonatorId}`);
+      throw new ForbiddenException('This action is not allowed while impersonating a user');
+    }
+
+    if (WRITE_METHODS.has(request.method)) {
+      // The final status is only known once the response is sent (including error responses)
+      const response = context.switchToHttp().getResponse();
+      response.on('finish', () => {
+        this.impersonationService
+          .record(user, 'write', { method: request.method, path, statusCode: response.statusCode })
+          .catch((error) => this.logger.error(`Impersonation audit failed: ${error?.message || error}`));
+      });
+    }
+
+    return next.handle();
+  }
+}
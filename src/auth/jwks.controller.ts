@@ -0,0 +1,30 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtKeyService } from './services/jwt-key.service';
+
+/**
+ * Served at `/.well-known/jwks.json`, outside the `/api` prefix
+ */
+@ApiTags('Auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  @Get('jwks.json')
+  @ApiOperation({
+    summary: 'JSON Web Key Set',
+    description: 'Public keys that verify access tokens. Match a token\'s `kid` header to a key. Empty while tokens are signed with the shared secret.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Current verification keys',
+    schema: {
+      example: {
+        keys: [{ kty: 'RSA', n: '0vx7agoebGcQ...', e: 'AQAB', kid: '2026-10', alg: 'RS256', use: 'sig' }],
+      },
+    },
+  })
+  getJwks() {
+    return this.jwtKeyService.getJwks();
+  }
+}
@@ -0,0 +1,40 @@
+import { Permission, ROLE_PERMISSIONS } from './permissions';
+
+/**
+ * The acting user as attached to `request.user` by the JWT strategy
+ */
+export interface PolicySubject {
+  id?: string;
+  profileId?: string;
+  role?: string;
+  permissions?: string[];
+}
+
+/**
+ * What a request's profile may do: its role's permissions plus any granted to the profile
+ */
+export class Ability {
+  private readonly granted: Set<string>;
+
+  constructor(readonly subject: PolicySubject) {
+    this.granted = new Set([...(ROLE_PERMISSIONS[subject.role || ''] || []), ...(subject.permissions || [])]);
+  }
+
+  can(permission: Permission): boolean {
+    return this.granted.has(permission);
+  }
+
+  /**
+   * Whether `profileId` is the acting profile
+   */
+  ownsProfile(profileId?: string | null): boolean {
+    return !!profileId && profileId === this.subject.profileId;
+  }
+
+  /**
+   * Whether `userId` is the acting user (any of their profiles)
+   */
+  isUser(userId?: string | null): boolean {
+    return !!userId && userId === this.subject.id;
+  }
+}
@@ -0,0 +1,27 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { Policy } from './policies';
+
+export const CHECK_POLICY_KEY = 'check_policy';
+
+/**
+ * Loads the resource a policy is checked against, e.g. the post named by `:id`
+ * Throw NotFoundException when it does not exist.
+ */
+export interface ResourceLoader<R = any> {
+  load(request: any): Promise<R>;
+}
+
+export interface PolicyRequirement {
+  policy: Policy;
+  /** Provider class in the route's module */
+  loader?: Type<ResourceLoader>;
+  /** Message of the 403 when the policy denies */
+  message?: string;
+}
+
+/**
+ * Require `policy` to allow the request; checked by PoliciesGuard
+ * The loaded resource is available to the handler as `request.policyResource`.
+ */
+export const CheckPolicy = (policy: Policy, options: Omit<PolicyRequirement, 'policy'> = {}) =>
+  SetMetadata(CHECK_POLICY_KEY, { policy, ...options } as PolicyRequirement);
@@ -0,0 +1,73 @@
+/**
+ * Named permissions checked by policies
+ * `:own` permissions apply to resources of the acting profile, `:any` to everyone's.
+ */
+export const Permissions = {
+  POST_UPDATE_OWN: 'post:update:own',
+  POST_UPDATE_ANY: 'post:update:any',
+  POST_DELETE_OWN: 'post:delete:own',
+  POST_DELETE_ANY: 'post:delete:any',
+  APPLICATION_WITHDRAW_OWN: 'application:withdraw:own',
+  /** Review and remove applications to the profile's own projects */
+  APPLICATION_REVIEW: 'application:review',
+  APPLICATION_MANAGE_ANY: 'application:manage:any',
+  PROJECT_MANAGE_OWN: 'project:manage:own',
+  PROJECT_MANAGE_ANY: 'project:manage:any',
+  /** Create schedules for, and add members to, the profile's own projects */
+  SCHEDULE_MANAGE: 'schedule:manage',
+  SCHEDULE_MANAGE_ANY: 'schedule:manage:any',
+  /** Links (Instagram, IMDb, ...) shown on the profile */
+  SOCIAL_LINKS_MANAGE_OWN: 'social_links:manage:own',
+  SOCIAL_LINKS_MANAGE_ANY: 'social_links:manage:any',
+  /** Availability calendar of the artist's own profile */
+  AVAILABILITY_MANAGE_OWN: 'availability:manage:own',
+  AVAILABILITY_MANAGE_ANY: 'availability:manage:any',
+  /** Albums and items of the artist's own portfolio */
+  PORTFOLIO_MANAGE_OWN: 'portfolio:manage:own',
+  PORTFOLIO_MANAGE_ANY: 'portfolio:manage:any',
+  /** Review profiles the acting profile worked with on a project */
+  REVIEW_WRITE: 'review:write',
+  /** Read other users' sensitive identifiers; never granted by a role */
+  PII_READ: 'pii:read',
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+const ARTIST: Permission[] = [
+  Permissions.POST_UPDATE_OWN,
+  Permissions.POST_DELETE_OWN,
+  Permissions.APPLICATION_WITHDRAW_OWN,
+  Permissions.PORTFOLIO_MANAGE_OWN,
+  Permissions.SOCIAL_LINKS_MANAGE_OWN,
+  Permissions.AVAILABILITY_MANAGE_OWN,
+  Permissions.REVIEW_WRITE,
+];
+
+const RECRUITER: Permission[] = [
+  Permissions.POST_UPDATE_OWN,
+  Permissions.POST_DELETE_OWN,
+  Permissions.APPLICATION_REVIEW,
+  Permissions.PROJECT_MANAGE_OWN,
+  Permissions.SCHEDULE_MANAGE,
+  Permissions.SOCIAL_LINKS_MANAGE_OWN,
+  Permissions.REVIEW_WRITE,
+];
+
+// Posts, applications, projects and schedules stay with their owners, as before policies;
+// the `:any` permissions for them are only granted through a profile's `permissions` column
+const ADMIN: Permission[] = [
+  ...RECRUITER,
+  Permissions.PORTFOLIO_MANAGE_ANY,
+  Permissions.SOCIAL_LINKS_MANAGE_ANY,
+  Permissions.AVAILABILITY_MANAGE_ANY,
+];
+
+/**
+ * Permissions each role grants; a profile's `permissions` column adds to these
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  artist: ARTIST,
+  recruiter: RECRUITER,
+  admin: ADMIN,
+  superadmin: ADMIN,
+};
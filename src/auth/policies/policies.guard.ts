@@ -0,0 +1,46 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Ability } from './ability';
+import { CHECK_POLICY_KEY, PolicyRequirement } from './check-policy.decorator';
+
+/**
+ * Enforces `@CheckPolicy` on routes; use after JwtAuthGuard
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  private readonly logger = new Logger(PoliciesGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.getAllAndOverride<PolicyRequirement>(CHECK_POLICY_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requirement) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+    if (!user) {
+      throw new ForbiddenException('User not found');
+    }
+
+    const resource = requirement.loader
+      ? await this.moduleRef.get(requirement.loader, { strict: false }).load(request)
+      : undefined;
+
+    if (!requirement.policy(new Ability(user), resource)) {
+      this.logger.warn(`⚠️  Policy denied ${request.method} ${request.url} for profile ${user.profileId}`);
+      throw new ForbiddenException(requirement.message || 'You do not have permission to perform this action');
+    }
+
+    request.policyResource = resource;
+    return true;
+  }
+}
@@ -0,0 +1,124 @@
+import { ExecutionContext, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Ability } from './ability';
+import { Policies } from './policies';
+import { PoliciesGuard } from './policies.guard';
+import { CheckPolicy, ResourceLoader } from './check-policy.decorator';
+
+describe('Policies', () => {
+  const artist = new Ability({ id: 'user-1', profileId: 'artist-1', role: 'artist' });
+  const recruiter = new Ability({ id: 'user-2', profileId: 'recruiter-1', role: 'recruiter' });
+  const admin = new Ability({ id: 'user-3', profileId: 'admin-1', role: 'admin' });
+
+  it('lets authors update their own posts only', () => {
+    const post = { author_profile_id: 'artist-1' };
+
+    expect(Policies.updatePost(artist, post)).toBe(true);
+    expect(Policies.updatePost(recruiter, post)).toBe(false);
+    expect(Policies.updatePost(admin, post)).toBe(false);
+    expect(Policies.deletePost(admin, post)).toBe(false);
+    expect(Policies.updatePost(new Ability({ profileId: 'admin-2', role: 'superadmin' }), post)).toBe(false);
+  });
+
+  it('lets project owners review applications and applicants withdraw them', () => {
+    const application = { artist_profile_id: 'artist-1', posts: { author_profile_id: 'recruiter-1' } };
+
+    expect(Policies.reviewApplication(recruiter, application)).toBe(true);
+    expect(Policies.reviewApplication(artist, application)).toBe(false);
+    expect(Policies.removeApplication(artist, application)).toBe(true);
+    expect(Policies.removeApplication(new Ability({ profileId: 'artist-2', role: 'artist' }), application)).toBe(false);
+    expect(Policies.reviewApplication(new Ability({ profileId: 'recruiter-2', role: 'recruiter' }), application)).toBe(false);
+  });
+
+  it('limits schedules to the project owner', () => {
+    expect(Policies.manageSchedule(recruiter, { created_by: 'recruiter-1' })).toBe(true);
+    expect(Policies.manageSchedule(recruiter, { created_by: 'recruiter-2' })).toBe(false);
+    expect(Policies.manageSchedule(artist, { created_by: 'artist-1' })).toBe(false);
+    expect(Policies.manageSchedule(admin, { created_by: 'recruiter-2' })).toBe(false);
+  });
+
+  it('lets artists manage their own portfolio and admins moderate any', () => {
+    expect(Policies.managePortfolio(artist, { id: 'artist-1' })).toBe(true);
+    expect(Policies.managePortfolio(artist, { id: 'artist-2' })).toBe(false);
+    expect(Policies.managePortfolio(recruiter, { id: 'recruiter-1' })).toBe(false);
+    expect(Policies.managePortfolio(admin, { id: 'artist-2' })).toBe(true);
+  });
+
+  it('lets any profile manage its own social links and admins moderate any', () => {
+    expect(Policies.manageSocialLinks(recruiter, { id: 'recruiter-1' })).toBe(true);
+    expect(Policies.manageSocialLinks(artist, { id: 'recruiter-1' })).toBe(false);
+    expect(Policies.manageSocialLinks(admin, { id: 'artist-1' })).toBe(true);
+  });
+
+  it('lets only the reviewed profile respond to a review', () => {
+    const review = { reviewer_profile_id: 'recruiter-1', reviewee_profile_id: 'artist-1' };
+
+    expect(Policies.writeReview(artist, undefined)).toBe(true);
+    expect(Policies.respondToReview(artist, review)).toBe(true);
+    expect(Policies.respondToReview(recruiter, review)).toBe(false);
+    expect(Policies.respondToReview(admin, review)).toBe(false);
+  });
+
+  it('adds permissions granted to the profile', () => {
+    const granted = new Ability({ id: 'user-3', role: 'admin', permissions: ['pii:read'] });
+
+    expect(Policies.readSensitiveFields(admin, { user_id: 'user-9' })).toBe(false);
+    expect(Policies.readSensitiveFields(granted, { user_id: 'user-9' })).toBe(true);
+    expect(Policies.readSensitiveFields(artist, { user_id: 'user-1' })).toBe(true);
+  });
+});
+
+describe('PoliciesGuard', () => {
+  @Injectable()
+  class TestPostLoader implements ResourceLoader {
+    load = jest.fn(async (request: any) => {
+      if (request.params.id === 'missing') throw new NotFoundException('Post not found');
+      return { id: request.params.id, author_profile_id: 'artist-1' };
+    });
+  }
+
+  class TestController {
+    @CheckPolicy(Policies.updatePost, { loader: TestPostLoader, message: 'You can only update your own posts' })
+    update() {}
+
+    open() {}
+  }
+
+  let guard: PoliciesGuard;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PoliciesGuard, Reflector, TestPostLoader],
+    }).compile();
+    guard = module.get(PoliciesGuard);
+  });
+
+  const contextFor = (handler: keyof TestController, request: any) => ({
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  }) as unknown as ExecutionContext;
+
+  it('loads the resource and allows the owner', async () => {
+    const request: any = { params: { id: 'post-1' }, user: { profileId: 'artist-1', role: 'artist' } };
+
+    await expect(guard.canActivate(contextFor('update', request))).resolves.toBe(true);
+    expect(request.policyResource).toEqual({ id: 'post-1', author_profile_id: 'artist-1' });
+  });
+
+  it('denies others with the route message', async () => {
+    const request = { params: { id: 'post-1' }, user: { profileId: 'artist-2', role: 'artist' } };
+
+    await expect(guard.canActivate(contextFor('update', request))).rejects.toThrow(
+      new ForbiddenException('You can only update your own posts'),
+    );
+  });
+
+  it('passes loader errors through and ignores routes without a policy', async () => {
+    const user = { profileId: 'artist-1', role: 'artist' };
+
+    await expect(guard.canActivate(contextFor('update', { params: { id: 'missing' }, user }))).rejects.toThrow(NotFoundException);
+    await expect(guard.canActivate(contextFor('open', { params: {} }))).resolves.toBe(true);
+  });
+});
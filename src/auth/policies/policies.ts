@@ -0,0 +1,80 @@
+import { Ability } from './ability';
+import { Permission, Permissions } from './permissions';
+
+export type Policy<R = any> = (ability: Ability, resource: R) => boolean;
+
+interface AuthoredResource {
+  author_profile_id?: string;
+}
+
+interface OwnedResource {
+  created_by?: string;
+}
+
+interface ReviewResource {
+  reviewer_profile_id?: string;
+  reviewee_profile_id?: string;
+}
+
+interface ApplicationResource {
+  artist_profile_id?: string;
+  /** The project (post) applied to */
+  posts?: AuthoredResource;
+}
+
+/**
+ * Allowed with the `:any` permission, or with the `:own` one on the profile's own resource
+ */
+function ownOrAny(ability: Ability, ownerProfileId: string | undefined, own: Permission, any: Permission): boolean {
+  return ability.can(any) || (ability.can(own) && ability.ownsProfile(ownerProfileId));
+}
+
+const reviewApplication: Policy<ApplicationResource> = (ability, application) =>
+  ownOrAny(ability, application?.posts?.author_profile_id, Permissions.APPLICATION_REVIEW, Permissions.APPLICATION_MANAGE_ANY);
+
+/**
+ * Every ownership and permission rule, by action
+ * Resources are the rows loaded by the route's resource loader.
+ */
+export const Policies = {
+  updatePost: ((ability, post) =>
+    ownOrAny(ability, post?.author_profile_id, Permissions.POST_UPDATE_OWN, Permissions.POST_UPDATE_ANY)) as Policy<AuthoredResource>,
+
+  deletePost: ((ability, post) =>
+    ownOrAny(ability, post?.author_profile_id, Permissions.POST_DELETE_OWN, Permissions.POST_DELETE_ANY)) as Policy<AuthoredResource>,
+
+  reviewApplication,
+
+  /** Applicants withdraw their own applications; project owners remove any on their projects */
+  removeApplication: ((ability, application) =>
+    reviewApplication(ability, application)
+    || (ability.can(Permissions.APPLICATION_WITHDRAW_OWN) && ability.ownsProfile(application?.artist_profile_id))) as Policy<ApplicationResource>,
+
+  manageProject: ((ability, project) =>
+    ownOrAny(ability, project?.created_by, Permissions.PROJECT_MANAGE_OWN, Permissions.PROJECT_MANAGE_ANY)) as Policy<OwnedResource>,
+
+  /** `resource` is the project for a new schedule, or the schedule itself */
+  manageSchedule: ((ability, resource) =>
+    ownOrAny(ability, resource?.created_by, Permissions.SCHEDULE_MANAGE, Permissions.SCHEDULE_MANAGE_ANY)) as Policy<OwnedResource>,
+
+  /** `profile` is the profile whose portfolio is changed; only artists have one of their own */
+  managePortfolio: ((ability, profile) =>
+    ownOrAny(ability, profile?.id, Permissions.PORTFOLIO_MANAGE_OWN, Permissions.PORTFOLIO_MANAGE_ANY)) as Policy<{ id?: string }>,
+
+  manageAvailability: ((ability, profile) =>
+    ownOrAny(ability, profile?.id, Permissions.AVAILABILITY_MANAGE_OWN, Permissions.AVAILABILITY_MANAGE_ANY)) as Policy<{ id?: string }>,
+
+  manageSocialLinks: ((ability, profile) =>
+    ownOrAny(ability, profile?.id, Permissions.SOCIAL_LINKS_MANAGE_OWN, Permissions.SOCIAL_LINKS_MANAGE_ANY)) as Policy<{ id?: string }>,
+
+  /** Whether the two profiles actually worked together is checked when the review is created */
+  writeReview: ((ability) => ability.can(Permissions.REVIEW_WRITE)) as Policy,
+
+  /** Only the reviewed profile answers a review */
+  respondToReview: ((ability, review) => ability.ownsProfile(review?.reviewee_profile_id)) as Policy<ReviewResource>,
+
+  /** The owner, or an admin who was explicitly granted `pii:read` */
+  readSensitiveFields: ((ability, profile) =>
+    ability.isUser(profile?.user_id)
+    || (ability.can(Permissions.PII_READ) && ['admin', 'superadmin'].includes(ability.subject.role || ''))) as Policy<{ user_id?: string }>,
+};
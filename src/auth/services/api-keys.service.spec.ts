@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeysService } from './api-keys.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+import { createInMemoryRedisService } from '../../test-utils/in-memory-redis';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let stored: any;
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    insert: jest.fn((row: any) => {
+      stored = { ...row, revoked_at: null };
+      return mockDbChain;
+    }),
+    single: jest.fn(() => Promise.resolve({ data: { id: stored.id, name: stored.name, scopes: stored.scopes }, error: null })),
+    maybeSingle: jest.fn(() => Promise.resolve({ data: stored, error: null })),
+    then: (resolve: any, reject: any) => Promise.resolve({ data: null, error: null }).then(resolve, reject),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = null;
+    const configService = { get: jest.fn(() => undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: RedisService, useValue: createInMemoryRedisService(configService) },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  const createKey = (rateLimitPerMinute?: number) =>
+    service.create('admin-1', { name: 'Casting dashboard', scopes: ['profiles:read'], rateLimitPerMinute });
+
+  it('returns the key once and stores only its hash', async () => {
+    const created = await createKey();
+
+    expect(created.key).toMatch(new RegExp(`^k24_${stored.id}\\.`));
+    const secret = created.key.split('.')[1];
+    expect(JSON.stringify(stored)).not.toContain(secret);
+    expect(stored).toMatchObject({ scopes: ['profiles:read'], rate_limit_per_minute: 60, created_by: 'admin-1' });
+  });
+
+  it('authenticates a valid key with its scopes', async () => {
+    const { key } = await createKey();
+
+    await expect(service.authenticate(key, '10.0.0.5')).resolves.toEqual({
+      apiKeyId: stored.id,
+      name: 'Casting dashboard',
+      scopes: ['profiles:read'],
+      role: 'api_key',
+      permissions: [],
+    });
+  });
+
+  it('rejects malformed, wrong, revoked and expired keys', async () => {
+    const { key } = await createKey();
+
+    await expect(service.authenticate('not-a-key')).rejects.toThrow(UnauthorizedException);
+    await expect(service.authenticate(`${key.split('.')[0]}.wrong-secret`)).rejects.toThrow(UnauthorizedException);
+
+    stored.revoked_at = new Date().toISOString();
+    await expect(service.authenticate(key)).rejects.toThrow(UnauthorizedException);
+
+    stored.revoked_at = null;
+    stored.expires_at = new Date(Date.now() - 1000).toISOString();
+    await expect(service.authenticate(key)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('enforces the per-key rate limit', async () => {
+    const { key } = await createKey(2);
+
+    await service.authenticate(key);
+    await service.authenticate(key);
+    const error = await service.authenticate(key).catch((err) => err);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(429);
+    expect(error.getResponse()).toMatchObject({ retryAfter: expect.any(Number) });
+  });
+});
@@ -0,0 +1,234 @@
+import { BadRequestException, HttpException, HttpStatus, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+import { isExpired } from '../../utils/time.utils';
+import { decodeCursor, encodeCursor } from '../../utils/cursor.util';
+import { CreateApiKeyDto } from '../dto/auth.dto';
+
+const KEY_PREFIX = 'k24_';
+
+/**
+ * What `request.user` holds for a request authenticated with an API key
+ */
+export interface ApiKeyPrincipal {
+  apiKeyId: string;
+  name: string;
+  scopes: string[];
+  role: 'api_key';
+  permissions: string[];
+}
+
+/**
+ * Whether `request.user` is an API key rather than a logged-in user
+ */
+export function isApiKeyPrincipal(user: any): user is ApiKeyPrincipal {
+  return user?.role === 'api_key';
+}
+
+/**
+ * Keys for server-to-server integrations, stored in the `api_keys` table
+ *
+ * Key format: `k24_{id}.{secret}` - only a SHA-256 hash of the secret is persisted, so the
+ * key is shown once at creation. Each key carries scopes, a per-minute request limit
+ * (shared across instances through the key-value store) and when it was last used.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getDefaultRateLimit(): number {
+    return parseInt(this.configService.get<string>('API_KEY_DEFAULT_RATE_LIMIT') || '60', 10);
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private parseKey(key: string): { id: string; secret: string } | null {
+    if (!key?.startsWith(KEY_PREFIX)) return null;
+    const [id, secret] = key.slice(KEY_PREFIX.length).split('.');
+    if (!id || !secret) return null;
+    return { id, secret };
+  }
+
+  /**
+   * Create a key; the returned `key` is the only time the secret is available
+   */
+  async create(createdBy: string, dto: CreateApiKeyDto) {
+    if (dto.expiresAt && isExpired(dto.expiresAt)) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const id = randomUUID();
+    const secret = randomBytes(32).toString('base64url');
+    const rateLimitPerMinute = dto.rateLimitPerMinute || this.getDefaultRateLimit();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        id,
+        name: dto.name,
+        key_hash: this.hashSecret(secret),
+        scopes: dto.scopes,
+        rate_limit_per_minute: rateLimitPerMinute,
+        expires_at: dto.expiresAt || null,
+        created_by: createdBy,
+        created_at: new Date().toISOString(),
+      })
+      .select('id, name, scopes, rate_limit_per_minute, expires_at, created_by, created_at')
+      .single();
+
+    if (error) {
+      this.logger.error('Error creating API key:', error);
+      throw new BadRequestException(`Failed to create API key: ${error.message}`);
+    }
+
+    this.logger.log(`🔑 API key ${id} (${dto.name}) created by ${createdBy} with scopes ${dto.scopes.join(', ')}`);
+    return { ...data, key: `${KEY_PREFIX}${id}.${secret}` };
+  }
+
+  /**
+   * Keys without their hashes, newest first
+   */
+  async list(params: { cursor?: string; limit?: number; includeRevoked?: boolean }) {
+    const supabase = this.supabaseService.getAdminClient();
+    const limit = Math.min(params.limit || 20, 100);
+
+    let queryBuilder = supabase
+      .from('api_keys')
+      .select('id, name, scopes, rate_limit_per_minute, expires_at, created_by, created_at, revoked_at, revoked_by, last_used_at, last_used_ip')
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (!params.includeRevoked) {
+      queryBuilder = queryBuilder.is('revoked_at', null);
+    }
+
+    if (params.cursor) {
+      const decoded = decodeCursor(params.cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+    if (error) {
+      throw new BadRequestException(`Failed to fetch API keys: ${error.message}`);
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].created_at, data[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Revoke a key; it stops working on its next request
+   */
+  async revoke(id: string, revokedBy: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(`Failed to revoke API key: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundException('API key not found or already revoked');
+    }
+
+    this.logger.log(`🔒 API key ${id} revoked by ${revokedBy}`);
+  }
+
+  /**
+   * Resolve a presented key and count the request against its limit
+   * Throws UnauthorizedException for unknown, expired or revoked keys and 429 over the limit.
+   */
+  async authenticate(key: string, ip?: string): Promise<ApiKeyPrincipal> {
+    const parsed = this.parseKey(key);
+    if (!parsed) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: record } = await supabase
+      .from('api_keys')
+      .select('id, name, key_hash, scopes, rate_limit_per_minute, expires_at, revoked_at')
+      .eq('id', parsed.id)
+      .maybeSingle();
+
+    if (!record || !this.hashMatches(parsed.secret, record.key_hash)) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (record.revoked_at || (record.expires_at && isExpired(record.expires_at))) {
+      this.logger.warn(`⚠️  Revoked or expired API key ${record.id} presented`);
+      throw new UnauthorizedException('API key has been revoked or has expired');
+    }
+
+    await this.consumeRateLimit(record.id, record.rate_limit_per_minute || this.getDefaultRateLimit());
+    this.touch(record.id, ip);
+
+    return {
+      apiKeyId: record.id,
+      name: record.name,
+      scopes: record.scopes || [],
+      role: 'api_key',
+      permissions: [],
+    };
+  }
+
+  private async consumeRateLimit(id: string, limit: number): Promise<void> {
+    const key = `apikey:rate:${id}`;
+    const count = await this.redisService.incr(key, 60);
+    if (count > limit) {
+      const retryAfter = await this.redisService.ttl(key);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          error: 'Too Many Requests',
+          message: `API key rate limit of ${limit} requests per minute exceeded`,
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Record last use at most once a minute per key; never blocks the request
+   */
+  private touch(id: string, ip?: string): void {
+    this.redisService
+      .setIfAbsent(`apikey:touched:${id}`, '1', 60)
+      .then(async (first) => {
+        if (!first) return;
+        const { error } = await this.supabaseService
+          .getAdminClient()
+          .from('api_keys')
+          .update({ last_used_at: new Date().toISOString(), last_used_ip: ip || null })
+          .eq('id', id);
+        if (error) throw error;
+      })
+      .catch((err) => this.logger.debug(`Last-used update failed for API key ${id}: ${err?.message || err}`));
+  }
+
+  private hashMatches(secret: string, storedHash: string): boolean {
+    const expected = Buffer.from(storedHash || '', 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthAuditService } from './auth-audit.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { OtpErrorCode, OtpThrottleException } from '../exceptions/otp-throttle.exception';
+
+describe('AuthAuditService', () => {
+  let service: AuthAuditService;
+  let result: { data?: any; error: any; count?: number };
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    delete: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    lt: jest.fn(() => mockDbChain),
+    order: jest.fn(() => mockDbChain),
+    limit: jest.fn(() => mockDbChain),
+    then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    result = { data: [], error: null };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthAuditService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'AUTH_AUDIT_RETENTION_DAYS' ? '30' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<AuthAuditService>(AuthAuditService);
+  });
+
+  it('records the event with where it came from', async () => {
+    await service.record('otp_failed', {
+      outcome: 'failure',
+      phone: '+919876543210',
+      reason: 'OTP_INVALID',
+      context: { ipAddress: '203.0.113.7', userAgent: 'okhttp/4.12.0' },
+    });
+
+    expect(mockDbChain.from).toHaveBeenCalledWith('auth_audit_log');
+    expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'otp_failed',
+      outcome: 'failure',
+      phone: '+919876543210',
+      user_id: null,
+      reason: 'OTP_INVALID',
+      ip_address: '203.0.113.7',
+      user_agent: 'okhttp/4.12.0',
+    }));
+  });
+
+  it('never fails the caller when the insert fails', async () => {
+    result = { error: { message: 'relation does not exist' } };
+    await expect(service.record('login', { outcome: 'success', userId: 'user-1' })).resolves.toBeUndefined();
+
+    mockDbChain.insert.mockImplementationOnce(() => { throw new Error('network down'); });
+    await expect(service.record('login', { outcome: 'success', userId: 'user-1' })).resolves.toBeUndefined();
+  });
+
+  it('uses error codes as reasons', () => {
+    expect(service.reasonFor(new OtpThrottleException(OtpErrorCode.ATTEMPTS_EXCEEDED, 'Too many', 300))).toBe('OTP_ATTEMPTS_EXCEEDED');
+    expect(service.reasonFor(new BadRequestException('User already exists'))).toBe('User already exists');
+  });
+
+  it('filters by normalized phone and rejects invalid ones', async () => {
+    await service.list({ phone: '98765 43210' });
+    expect(mockDbChain.eq).toHaveBeenCalledWith('phone', '+919876543210');
+
+    await expect(service.list({ phone: '123' })).rejects.toThrow(BadRequestException);
+  });
+
+  it('purges entries past the retention period', async () => {
+    result = { error: null, count: 12 };
+
+    const outcome = await service.purgeExpired();
+
+    expect(outcome.deleted).toBe(12);
+    expect(mockDbChain.delete).toHaveBeenCalledWith({ count: 'exact' });
+    const cutoff = new Date(mockDbChain.lt.mock.calls[0][1]).getTime();
+    expect(Math.abs(cutoff - (Date.now() - 30 * 24 * 60 * 60 * 1000))).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,163 @@
+import { BadRequestException, HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { decodeCursor, encodeCursor } from '../../utils/cursor.util';
+import { normalizePhone } from '../../utils/phone.util';
+
+export type AuthAuditEvent =
+  | 'otp_sent'
+  | 'otp_verified'
+  | 'otp_failed'
+  | 'otp_lockout'
+  | 'signup'
+  | 'login'
+  | 'token_refresh'
+  | 'logout'
+  | 'logout_all'
+  | 'role_change'
+  | 'impersonation_start';
+
+export type AuthAuditOutcome = 'success' | 'failure' | 'blocked';
+
+/**
+ * Where a request came from (a `LoginContext` fits)
+ */
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuthAuditEntry {
+  outcome: AuthAuditOutcome;
+  userId?: string | null;
+  phone?: string | null;
+  profileId?: string | null;
+  /** Admin acting on the user (role changes, impersonation, forced logouts) */
+  actorId?: string | null;
+  /** Error code or message for failures */
+  reason?: string | null;
+  metadata?: Record<string, any>;
+  context?: AuditRequestContext;
+}
+
+/**
+ * Persisted log of authentication events in `auth_audit_log`
+ *
+ * Writes are best effort: a failed insert is logged and never fails the login it describes.
+ * Entries older than `AUTH_AUDIT_RETENTION_DAYS` are purged by the `auth-audit-retention` job.
+ */
+@Injectable()
+export class AuthAuditService {
+  private readonly logger = new Logger(AuthAuditService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getRetentionDays(): number {
+    return parseInt(this.configService.get<string>('AUTH_AUDIT_RETENTION_DAYS') || '90', 10);
+  }
+
+  async record(event: AuthAuditEvent, entry: AuthAuditEntry): Promise<void> {
+    try {
+      const supabase = this.supabaseService.getAdminClient();
+      const { error } = await supabase
+        .from('auth_audit_log')
+        .insert({
+          event,
+          outcome: entry.outcome,
+          user_id: entry.userId || null,
+          phone: entry.phone || null,
+          profile_id: entry.profileId || null,
+          actor_id: entry.actorId || null,
+          reason: entry.reason || null,
+          metadata: entry.metadata || null,
+          ip_address: entry.context?.ipAddress || null,
+          user_agent: entry.context?.userAgent?.slice(0, 512) || null,
+          created_at: new Date().toISOString(),
+        });
+
+      if (error) {
+        this.logger.warn(`⚠️  Could not record ${event} audit entry: ${error.message}`);
+      }
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not record ${event} audit entry: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * The error code (or message) of a failed auth call, for the `reason` column
+   */
+  reasonFor(error: any): string {
+    if (error instanceof HttpException) {
+      const response: any = error.getResponse();
+      return response?.code || (typeof response === 'string' ? response : response?.message) || error.message;
+    }
+    return error?.message || String(error);
+  }
+
+  /**
+   * Entries for a user or phone, newest first
+   */
+  async list(params: { userId?: string; phone?: string; event?: string; cursor?: string; limit?: number }) {
+    const supabase = this.supabaseService.getAdminClient();
+    const limit = Math.min(params.limit || 50, 100);
+
+    let queryBuilder = supabase
+      .from('auth_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (params.userId) {
+      queryBuilder = queryBuilder.eq('user_id', params.userId);
+    }
+    if (params.phone) {
+      const phone = normalizePhone(params.phone);
+      if (!phone) {
+        throw new BadRequestException('Invalid phone number');
+      }
+      queryBuilder = queryBuilder.eq('phone', phone);
+    }
+    if (params.event) {
+      queryBuilder = queryBuilder.eq('event', params.event);
+    }
+    if (params.cursor) {
+      const decoded = decodeCursor(params.cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+    if (error) {
+      throw new BadRequestException(`Failed to fetch auth audit log: ${error.message}`);
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].created_at, data[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Delete entries past the retention period
+   */
+  async purgeExpired(): Promise<{ deleted: number; before: string }> {
+    const before = new Date(Date.now() - this.getRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+    const supabase = this.supabaseService.getAdminClient();
+    const { count, error } = await supabase
+      .from('auth_audit_log')
+      .delete({ count: 'exact' })
+      .lt('created_at', before);
+
+    if (error) {
+      throw new Error(`Failed to purge auth audit log: ${error.message}`);
+    }
+
+    this.logger.log(`🧹 Purged ${count || 0} auth audit entries older than ${before}`);
+    return { deleted: count || 0, before };
+  }
+}
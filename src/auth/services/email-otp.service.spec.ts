@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmailOtpService } from './email-otp.service';
+import { OtpService } from './otp.service';
+import { OtpRateLimitService } from './otp-rate-limit.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { SMS_PROVIDER } from '../../sms/sms-provider.interface';
+import { MAIL_TRANSPORT } from '../../mail/mail-transport.interface';
+import { FileSinkMailTransport } from '../../mail/transports/file-sink.transport';
+
+describe('EmailOtpService', () => {
+  let service: EmailOtpService;
+  let mailTransport: FileSinkMailTransport;
+  let results: any[];
+
+  const config: Record<string, string> = {
+    OTP_HMAC_SECRET: 'test-otp-secret',
+    EMAIL_LINK_BASE_URL: 'https://app.example.com/',
+  };
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    is: jest.fn(() => mockDbChain),
+    not: jest.fn(() => mockDbChain),
+    gt: jest.fn(() => mockDbChain),
+    order: jest.fn(() => mockDbChain),
+    limit: jest.fn(() => mockDbChain),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift())),
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(results.shift() || { data: null, error: null }).then(resolve, reject),
+  };
+
+  const mockRateLimitService = {
+    assertCanSend: jest.fn(),
+    recordSend: jest.fn(),
+    assertNotLocked: jest.fn(),
+    recordFailedAttempt: jest.fn(() => Promise.resolve({ attemptsRemaining: 4 })),
+    clearAttempts: jest.fn(),
+  };
+
+  /**
+   * Send a login email and return the stored row plus what the user received
+   */
+  const sendLogin = async () => {
+    results.push(
+      { data: { id: 'user-1', email: 'john@example.com' }, error: null },
+      { data: null, error: null },
+      { data: null, error: null },
+    );
+    await service.sendLoginCode(' John@Example.com ');
+
+    const row = mockDbChain.insert.mock.calls[0][0];
+    const [mail] = mailTransport.getSentMessages('john@example.com');
+    const otp = mail.text.match(/code is (\d{6})/)![1];
+    const token = decodeURIComponent(mail.text.match(/token=([^\s]+)/)![1]);
+    return { row, mail, otp, token };
+  };
+
+  beforeEach(async () => {
+    results = [];
+    jest.clearAllMocks();
+
+    const configService = { get: jest.fn((key: string) => config[key]) };
+    mailTransport = new FileSinkMailTransport(configService as any);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailOtpService,
+        OtpService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: ConfigService, useValue: configService },
+        { provide: OtpRateLimitService, useValue: mockRateLimitService },
+        { provide: SMS_PROVIDER, useValue: { name: 'fake', send: jest.fn() } },
+        { provide: MAIL_TRANSPORT, useValue: mailTransport },
+      ],
+    }).compile();
+
+    service = module.get<EmailOtpService>(EmailOtpService);
+  });
+
+  it('emails a code and magic link to a verified address and stores only hashes', async () => {
+    const { row, mail, otp, token } = await sendLogin();
+
+    expect(row).toMatchObject({ email: 'john@example.com', channel: 'email', purpose: 'login', user_id: 'user-1' });
+    expect(row.otp).toBeUndefined();
+    expect(JSON.stringify(row)).not.toContain(otp);
+    expect(JSON.stringify(row)).not.toContain(token);
+    expect(mail.text).toContain('https://app.example.com/auth/email/login?email=john%40example.com&token=');
+    expect(mockRateLimitService.assertCanSend).toHaveBeenCalledWith('email:john@example.com');
+  });
+
+  it('answers the same way for unknown emails without sending anything', async () => {
+    results.push({ data: null, error: null });
+
+    const result = await service.sendLoginCode('nobody@example.com');
+
+    expect(result.message).toBe('If this email belongs to a verified account, a login code has been sent');
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+    expect(mailTransport.getSentMessages()).toHaveLength(0);
+  });
+
+  it('verifies with either the emailed code or the link token', async () => {
+    const { row, otp, token } = await sendLogin();
+    const pending = { ...row, id: 'otp-1', verified_at: null };
+
+    results.push({ data: pending, error: null }, { data: null, error: null });
+    expect((await service.verify('john@example.com', 'login', { otp })).isValid).toBe(true);
+
+    results.push({ data: pending, error: null }, { data: null, error: null });
+    expect((await service.verify('john@example.com', 'login', { token })).isValid).toBe(true);
+    expect(mockRateLimitService.clearAttempts).toHaveBeenCalledWith('email:john@example.com');
+  });
+
+  it('counts a wrong code or token as a failed attempt', async () => {
+    const { row, otp } = await sendLogin();
+    const wrongOtp = otp === '123456' ? '654321' : '123456';
+
+    results.push({ data: { ...row, id: 'otp-1', verified_at: null }, error: null });
+    const result = await service.verify('john@example.com', 'login', { otp: wrongOtp });
+
+    expect(result).toEqual({ isValid: false, message: 'Invalid or expired code', attemptsRemaining: 4 });
+    expect(mockRateLimitService.recordFailedAttempt).toHaveBeenCalledWith('email:john@example.com');
+    await expect(service.verify('john@example.com', 'login', {})).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses to confirm an address that is no longer on the account', async () => {
+    const { row, otp } = await sendLogin();
+
+    results.push(
+      { data: { ...row, id: 'otp-1', purpose: 'verify_email', verified_at: null }, error: null },
+      { data: null, error: null },
+      { data: { id: 'user-1', email: 'new@example.com' }, error: null },
+    );
+
+    await expect(service.confirmEmail('john@example.com', { otp })).rejects.toThrow(BadRequestException);
+    expect(mockDbChain.update).not.toHaveBeenCalledWith(expect.objectContaining({ email_verified_at: expect.any(String) }));
+  });
+});
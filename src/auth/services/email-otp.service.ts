@@ -0,0 +1,298 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { MAIL_TRANSPORT, MailTransport } from '../../mail/mail-transport.interface';
+import { OtpService } from './otp.service';
+import { OtpRateLimitService } from './otp-rate-limit.service';
+import { OtpErrorCode, OtpThrottleException } from '../exceptions/otp-throttle.exception';
+import { getOTPExpirationIST, getCurrentISTForComparison, getCurrentIST } from '../../utils/time.utils';
+
+export type EmailOtpPurpose = 'login' | 'verify_email';
+
+/**
+ * One-time codes and magic links delivered by email
+ *
+ * Rows live in `otp_verifications` next to the SMS ones (`channel = 'email'`), keyed by
+ * `email` and `purpose`. Each row carries a hashed 6-digit code and a hashed link token;
+ * either one verifies it. Send limits and lockouts are shared with SMS OTPs, keyed by email.
+ */
+@Injectable()
+export class EmailOtpService {
+  private readonly logger = new Logger(EmailOtpService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly otpService: OtpService,
+    private readonly otpRateLimitService: OtpRateLimitService,
+    @Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport,
+  ) { }
+
+  /**
+   * Emails are compared and stored trimmed and lower-cased
+   */
+  normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+
+  private rateLimitKey(email: string): string {
+    return `email:${email}`;
+  }
+
+  private hashLinkToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private linkTokenMatches(record: any, token: string): boolean {
+    if (!record.link_token_hash) return false;
+    const expected = Buffer.from(record.link_token_hash, 'hex');
+    const actual = Buffer.from(this.hashLinkToken(token), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Deep link into the app, which posts the email and token to the matching API endpoint
+   * EMAIL_LINK_BASE_URL is checked at startup whenever email is enabled.
+   */
+  private buildLink(path: string, email: string, token: string): string {
+    const baseUrl = (this.configService.get<string>('EMAIL_LINK_BASE_URL') || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error('EMAIL_LINK_BASE_URL is not set');
+    }
+    return `${baseUrl}${path}?email=${encodeURIComponent(email)}&token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Expire every unverified code for an email and purpose
+   */
+  private async expirePending(email: string, purpose: EmailOtpPurpose): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    await supabase
+      .from('otp_verifications')
+      .update({ expires_at: getCurrentIST() })
+      .eq('email', email)
+      .eq('purpose', purpose)
+      .is('verified_at', null);
+  }
+
+  /**
+   * Store a fresh code and link token, replacing any pending ones
+   */
+  private async store(
+    email: string,
+    purpose: EmailOtpPurpose,
+    userId: string,
+  ): Promise<{ otp: string; linkToken: string }> {
+    const supabase = this.supabaseService.getAdminClient();
+    await this.expirePending(email, purpose);
+
+    const otp = this.otpService.generateOTP();
+    const linkToken = randomBytes(32).toString('base64url');
+    const salt = randomBytes(16).toString('hex');
+
+    const { error } = await supabase
+      .from('otp_verifications')
+      .insert({
+        email,
+        channel: 'email',
+        purpose,
+        user_id: userId,
+        otp_hash: this.otpService.hashOTP(otp, salt),
+        otp_salt: salt,
+        link_token_hash: this.hashLinkToken(linkToken),
+        created_at: getCurrentIST(),
+        expires_at: getOTPExpirationIST(),
+      });
+
+    if (error) {
+      this.logger.error('Error storing email OTP:', error);
+      throw new Error(`Failed to store email OTP: ${error.message}`);
+    }
+
+    return { otp, linkToken };
+  }
+
+  /**
+   * Email a login code and magic link to a verified address
+   * The response is the same whether or not an account matches, so it cannot be used to probe emails.
+   */
+  async sendLoginCode(email: string): Promise<{
+    success: boolean;
+    message: string;
+    email: string;
+    otp?: string;
+  }> {
+    const normalized = this.normalizeEmail(email);
+    await this.otpRateLimitService.assertCanSend(this.rateLimitKey(normalized));
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, email')
+      .eq('email', normalized)
+      .not('email_verified_at', 'is', null)
+      .limit(1)
+      .maybeSingle();
+
+    await this.otpRateLimitService.recordSend(this.rateLimitKey(normalized));
+
+    let otp: string | undefined;
+    if (user) {
+      const issued = await this.store(normalized, 'login', user.id);
+      otp = issued.otp;
+      const link = this.buildLink('/auth/email/login', normalized, issued.linkToken);
+
+      const result = await this.mailTransport.send({
+        to: normalized,
+        subject: 'Your 24Krafts login code',
+        text: `Your 24Krafts login code is ${issued.otp}. It expires in 10 minutes.\n\nOr open this link on your phone to log in:\n${link}\n\nIf you did not try to log in, you can ignore this email.`,
+      });
+      if (!result.success) {
+        this.logger.warn(`❌ Login email failed for ${normalized}: ${result.error}`);
+      }
+    } else {
+      this.logger.log(`ℹ️  No verified account for ${normalized}, login email not sent`);
+    }
+
+    return {
+      success: true,
+      message: 'If this email belongs to a verified account, a login code has been sent',
+      email: normalized,
+      // For development - remove in production
+      otp: process.env.NODE_ENV === 'development' ? otp : undefined,
+    };
+  }
+
+  /**
+   * Email a code and link that confirm the user owns their address
+   */
+  async sendVerification(userId: string, email: string): Promise<{ success: boolean; message: string; email: string }> {
+    const normalized = this.normalizeEmail(email);
+    await this.otpRateLimitService.assertCanSend(this.rateLimitKey(normalized));
+
+    const issued = await this.store(normalized, 'verify_email', userId);
+    await this.otpRateLimitService.recordSend(this.rateLimitKey(normalized));
+    const link = this.buildLink('/auth/email/confirm', normalized, issued.linkToken);
+
+    const result = await this.mailTransport.send({
+      to: normalized,
+      subject: 'Confirm your email for 24Krafts',
+      text: `Your 24Krafts email confirmation code is ${issued.otp}. It expires in 10 minutes.\n\nOr open this link to confirm your email:\n${link}`,
+    });
+
+    if (!result.success) {
+      this.logger.warn(`❌ Verification email failed for ${normalized}: ${result.error}`);
+      return { success: false, message: 'Failed to send verification email', email: normalized };
+    }
+
+    this.logger.log(`📧 Verification email sent to ${normalized}`);
+    return { success: true, message: 'Verification email sent', email: normalized };
+  }
+
+  /**
+   * Check a code or link token against the latest pending row for an email
+   */
+  async verify(
+    email: string,
+    purpose: EmailOtpPurpose,
+    credentials: { otp?: string; token?: string },
+  ): Promise<{
+    isValid: boolean;
+    message: string;
+    otpRecord?: any;
+    attemptsRemaining?: number;
+  }> {
+    if (!credentials.otp && !credentials.token) {
+      throw new BadRequestException('Provide either the emailed code or the link token');
+    }
+
+    const normalized = this.normalizeEmail(email);
+    const key = this.rateLimitKey(normalized);
+    await this.otpRateLimitService.assertNotLocked(key);
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: pendingRecord, error } = await supabase
+      .from('otp_verifications')
+      .select('*')
+      .eq('email', normalized)
+      .eq('purpose', purpose)
+      .is('verified_at', null)
+      .gt('expires_at', getCurrentISTForComparison())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const matches = pendingRecord && (credentials.otp
+      ? this.otpService.otpMatches(pendingRecord, credentials.otp)
+      : this.linkTokenMatches(pendingRecord, credentials.token!));
+
+    if (error || !matches) {
+      this.logger.log(`❌ Invalid or expired email ${purpose} code for ${normalized}`);
+      const { attemptsRemaining, lockedFor } = await this.otpRateLimitService.recordFailedAttempt(key);
+      if (lockedFor) {
+        await this.expirePending(normalized, purpose);
+        throw new OtpThrottleException(
+          OtpErrorCode.ATTEMPTS_EXCEEDED,
+          `Too many incorrect attempts. The code has been invalidated; try again in ${Math.ceil(lockedFor / 60)} minute(s).`,
+          lockedFor,
+        );
+      }
+      return { isValid: false, message: 'Invalid or expired code', attemptsRemaining };
+    }
+
+    const { error: updateError } = await supabase
+      .from('otp_verifications')
+      .update({ verified_at: getCurrentIST() })
+      .eq('id', pendingRecord.id);
+
+    if (updateError) {
+      this.logger.error('Error updating email OTP status:', updateError);
+      throw new Error(`Failed to update email OTP status: ${updateError.message}`);
+    }
+
+    await this.otpRateLimitService.clearAttempts(key);
+    this.logger.log(`✅ Email ${purpose} code verified for ${normalized}`);
+    return { isValid: true, message: 'Code verified successfully', otpRecord: pendingRecord };
+  }
+
+  /**
+   * Mark the user's email as verified after a `verify_email` code or link checks out
+   * The address must still be the one on the account.
+   */
+  async confirmEmail(
+    email: string,
+    credentials: { otp?: string; token?: string },
+  ): Promise<{ isValid: boolean; message: string; attemptsRemaining?: number; verifiedAt?: string }> {
+    const verification = await this.verify(email, 'verify_email', credentials);
+    if (!verification.isValid) {
+      return verification;
+    }
+
+    const normalized = this.normalizeEmail(email);
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, email')
+      .eq('id', verification.otpRecord.user_id)
+      .maybeSingle();
+
+    if (!user || this.normalizeEmail(user.email) !== normalized) {
+      throw new BadRequestException('This email is no longer linked to the account');
+    }
+
+    const verifiedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('users')
+      .update({ email: normalized, email_verified_at: verifiedAt })
+      .eq('id', user.id);
+
+    if (error) {
+      this.logger.error(`Error marking email verified for user ${user.id}:`, error);
+      throw new Error(`Failed to verify email: ${error.message}`);
+    }
+
+    this.logger.log(`✅ Email verified for user ${user.id}`);
+    return { isValid: true, message: 'Email verified', verifiedAt };
+  }
+}
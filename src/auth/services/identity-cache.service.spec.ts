@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { IdentityCacheService } from './identity-cache.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+import { createInMemoryRedisService } from '../../test-utils/in-memory-redis';
+
+describe('IdentityCacheService', () => {
+  let service: IdentityCacheService;
+  let config: Record<string, string>;
+  let results: any[];
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift() || { data: null, error: null })),
+  };
+
+  const userRow = {
+    id: 'user-1',
+    phone: '+919876543210',
+    email: 'john@example.com',
+    profiles: [{ id: 'profile-1', user_id: 'user-1', role: 'artist' }],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    results = [];
+    config = {};
+    const configService = { get: jest.fn((key: string) => config[key]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdentityCacheService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: RedisService, useValue: createInMemoryRedisService(configService) },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<IdentityCacheService>(IdentityCacheService);
+  });
+
+  it('loads the identity once and serves repeats from the cache', async () => {
+    results.push({ data: userRow, error: null });
+
+    const first = await service.resolve('user-1');
+    const second = await service.resolve('user-1');
+
+    expect(first).toEqual({
+      user: { id: 'user-1', phone: '+919876543210', email: 'john@example.com' },
+      profiles: userRow.profiles,
+    });
+    expect(second).toEqual(first);
+    expect(mockDbChain.maybeSingle).toHaveBeenCalledTimes(1);
+    expect(service.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('reloads after invalidation', async () => {
+    results.push({ data: userRow, error: null });
+    await service.resolve('user-1');
+
+    await service.invalidate('user-1');
+    results.push({ data: { ...userRow, email: 'new@example.com' }, error: null });
+
+    expect((await service.resolve('user-1'))?.user.email).toBe('new@example.com');
+    expect(service.getStats()).toMatchObject({ misses: 2, invalidations: 1 });
+  });
+
+  it('invalidates the owner of a profile', async () => {
+    results.push({ data: userRow, error: null });
+    await service.resolve('user-1');
+
+    results.push({ data: { user_id: 'user-1' }, error: null });
+    await service.invalidateByProfile('profile-1');
+    results.push({ data: userRow, error: null });
+    await service.resolve('user-1');
+
+    expect(service.getStats()).toMatchObject({ hits: 0, misses: 2 });
+  });
+
+  it('does not cache unknown users or when disabled', async () => {
+    expect(await service.resolve('missing')).toBeNull();
+
+    config.IDENTITY_CACHE_TTL_SECONDS = '0';
+    results.push({ data: userRow, error: null }, { data: userRow, error: null });
+    await service.resolve('user-1');
+    await service.resolve('user-1');
+
+    expect(mockDbChain.maybeSingle).toHaveBeenCalledTimes(3);
+    expect(service.getStats().hits).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+
+/** Profile columns request handlers rely on (see JwtStrategy.validate) */
+const IDENTITY_PROFILE_COLUMNS = 'id, user_id, role, first_name, last_name, permissions, created_at';
+
+export interface CachedIdentity {
+  user: { id: string; phone: string; email: string };
+  profiles: any[];
+}
+
+export interface IdentityCacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  hitRate: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Short-lived cache of the user and profile rows behind every authenticated request
+ *
+ * Entries live in the key-value store under `identity:{userId}` for `IDENTITY_CACHE_TTL_SECONDS`
+ * (0 disables caching). Anything that changes a user's phone, email, profiles, role or
+ * permissions must call `invalidate` so the next request reloads them.
+ * Hit/miss counters are per instance.
+ */
+@Injectable()
+export class IdentityCacheService {
+  private readonly logger = new Logger(IdentityCacheService.name);
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getTtlSeconds(): number {
+    return parseInt(this.configService.get<string>('IDENTITY_CACHE_TTL_SECONDS') || '60', 10);
+  }
+
+  private key(userId: string): string {
+    return `identity:${userId}`;
+  }
+
+  /**
+   * User row plus all of the user's profiles, or null when the user does not exist
+   */
+  async resolve(userId: string): Promise<CachedIdentity | null> {
+    const ttl = this.getTtlSeconds();
+    if (ttl > 0) {
+      const cached = await this.redisService.get(this.key(userId));
+      if (cached) {
+        this.hits++;
+        return JSON.parse(cached) as CachedIdentity;
+      }
+    }
+    this.misses++;
+
+    const identity = await this.load(userId);
+    // Unknown users are not cached, so a freshly created account is visible at once
+    if (identity && ttl > 0) {
+      await this.redisService.set(this.key(userId), JSON.stringify(identity), ttl);
+    }
+    return identity;
+  }
+
+  async invalidate(userId: string): Promise<void> {
+    this.invalidations++;
+    await this.redisService.del(this.key(userId));
+    this.logger.debug(`🧹 Identity cache cleared for user ${userId}`);
+  }
+
+  /**
+   * Clear the cache entry of the user owning `profileId`
+   */
+  async invalidateByProfile(profileId: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    if (profile?.user_id) {
+      await this.invalidate(profile.user_id);
+    }
+  }
+
+  getStats(): IdentityCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      hitRate: lookups ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      ttlSeconds: this.getTtlSeconds(),
+    };
+  }
+
+  private async load(userId: string): Promise<CachedIdentity | null> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('users')
+      .select(`id, phone, email, profiles(${IDENTITY_PROFILE_COLUMNS})`)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`❌ Failed to load identity for user ${userId}: ${error.message}`);
+      throw new Error('Failed to load identity');
+    }
+    if (!data) {
+      return null;
+    }
+
+    const { profiles, ...user } = data as any;
+    return { user, profiles: profiles || [] };
+  }
+}
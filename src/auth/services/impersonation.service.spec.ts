@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ImpersonationService } from './impersonation.service';
+import { JwtKeyService } from './jwt-key.service';
+import { IdentityCacheService } from './identity-cache.service';
+import { AuthAuditService } from './auth-audit.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let jwtKeyService: JwtKeyService;
+  let insertResult: { error: any };
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => Promise.resolve(insertResult)),
+  };
+
+  const identities: Record<string, any> = {
+    'user-1': {
+      user: { id: 'user-1', phone: '+919876543210', email: 'john@example.com' },
+      profiles: [
+        { id: 'artist-1', user_id: 'user-1', role: 'artist', created_at: '2024-01-01T00:00:00.000Z' },
+        { id: 'recruiter-1', user_id: 'user-1', role: 'recruiter', created_at: '2024-02-01T00:00:00.000Z' },
+      ],
+    },
+    'admin-2': {
+      user: { id: 'admin-2', phone: '+919876543211' },
+      profiles: [{ id: 'admin-profile-2', user_id: 'admin-2', role: 'admin' }],
+    },
+  };
+
+  const superadmin = { id: 'super-1', profileId: 'super-profile-1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    insertResult = { error: null };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        JwtKeyService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test-secret' }) },
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: IdentityCacheService, useValue: { resolve: jest.fn((id: string) => Promise.resolve(identities[id] || null)) } },
+        { provide: AuthAuditService, useValue: { record: jest.fn(() => Promise.resolve()) } },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'JWT_SECRET' ? 'test-secret' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+    jwtKeyService = module.get<JwtKeyService>(JwtKeyService);
+  });
+
+  it('issues a token naming the impersonator and audits the start', async () => {
+    const result = await service.start(superadmin, 'user-1', { reason: 'Ticket #1: missing applications', profileId: 'recruiter-1' });
+
+    const claims: any = jwtKeyService.verify(result.access_token);
+    expect(claims).toMatchObject({ sub: 'user-1', pid: 'recruiter-1', type: 'access', act: { sub: 'super-1', pid: 'super-profile-1' } });
+    expect(claims.sid).toBeUndefined();
+    expect(claims.exp - claims.iat).toBe(900);
+    expect(mockDbChain.from).toHaveBeenCalledWith('impersonation_audit_log');
+    expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      impersonator_id: 'super-1',
+      target_user_id: 'user-1',
+      target_profile_id: 'recruiter-1',
+      token_jti: claims.jti,
+      event: 'start',
+      reason: 'Ticket #1: missing applications',
+    }));
+    expect(result.impersonating).toEqual({ userId: 'user-1', profileId: 'recruiter-1', role: 'recruiter' });
+  });
+
+  it('refuses to impersonate yourself, admins and unknown profiles', async () => {
+    await expect(service.start(superadmin, 'super-1', { reason: 'x'.repeat(10) })).rejects.toThrow(BadRequestException);
+    await expect(service.start(superadmin, 'admin-2', { reason: 'x'.repeat(10) })).rejects.toThrow(ForbiddenException);
+    await expect(service.start(superadmin, 'missing', { reason: 'x'.repeat(10) })).rejects.toThrow(NotFoundException);
+    await expect(service.start(superadmin, 'user-1', { reason: 'x'.repeat(10), profileId: 'admin-profile-2' }))
+      .rejects.toThrow(NotFoundException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+
+  it('does not hand out a token when the audit entry cannot be written', async () => {
+    insertResult = { error: { message: 'relation does not exist' } };
+
+    await expect(service.start(superadmin, 'user-1', { reason: 'x'.repeat(10) })).rejects.toThrow(BadRequestException);
+  });
+
+  it('records writes best effort', async () => {
+    insertResult = { error: { message: 'timeout' } };
+    const user = { id: 'user-1', profileId: 'artist-1', jti: 'jti-1', impersonatorId: 'super-1' };
+
+    await expect(service.record(user, 'write', { method: 'PUT', path: '/api/profiles/artist-1', statusCode: 200 })).resolves.toBeUndefined();
+    expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      impersonator_id: 'super-1',
+      target_user_id: 'user-1',
+      event: 'write',
+      method: 'PUT',
+      status_code: 200,
+    }));
+  });
+});
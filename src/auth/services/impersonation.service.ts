@@ -0,0 +1,184 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { JwtKeyService } from './jwt-key.service';
+import { IdentityCacheService } from './identity-cache.service';
+import { AuditRequestContext, AuthAuditService } from './auth-audit.service';
+import { decodeCursor, encodeCursor } from '../../utils/cursor.util';
+import { pickActiveProfile } from '../../utils/profile.util';
+
+export type ImpersonationEvent = 'start' | 'write' | 'blocked';
+
+interface Impersonator {
+  id: string;
+  profileId?: string;
+}
+
+/**
+ * Support access to a user's account without their OTP
+ *
+ * A superadmin gets a short-lived access token for the target user whose `act` claim names
+ * the superadmin (RFC 8693). There is no session or refresh token; it simply expires.
+ * Starting, every write and every blocked action are recorded in `impersonation_audit_log`.
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly identityCacheService: IdentityCacheService,
+    private readonly authAuditService: AuthAuditService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getTokenTtlSeconds(): number {
+    return parseInt(this.configService.get<string>('IMPERSONATION_TOKEN_TTL_SECONDS') || '900', 10);
+  }
+
+  async start(
+    impersonator: Impersonator,
+    targetUserId: string,
+    options: { reason: string; profileId?: string },
+    context: AuditRequestContext = {},
+  ) {
+    if (targetUserId === impersonator.id) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const identity = await this.identityCacheService.resolve(targetUserId);
+    if (!identity) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (identity.profiles.some((profile) => ['admin', 'superadmin'].includes(profile.role))) {
+      throw new ForbiddenException('Admin accounts cannot be impersonated');
+    }
+
+    const profile = pickActiveProfile(identity.profiles, options.profileId);
+    if (!profile) {
+      throw new NotFoundException('Profile not found for this user');
+    }
+
+    const jti = randomUUID();
+    const ttl = this.getTokenTtlSeconds();
+    const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+
+    // The audit entry must exist before the token is handed out
+    await this.insertLog({
+      impersonator_id: impersonator.id,
+      impersonator_profile_id: impersonator.profileId || null,
+      target_user_id: targetUserId,
+      target_profile_id: profile.id,
+      token_jti: jti,
+      event: 'start',
+      reason: options.reason,
+      expires_at: expiresAt,
+    }, true);
+
+    const accessToken = this.jwtKeyService.sign({
+      sub: identity.user.id,
+      phone: identity.user.phone,
+      email: identity.user.email,
+      type: 'access',
+      jti,
+      pid: profile.id,
+      act: { sub: impersonator.id, pid: impersonator.profileId },
+    }, { expiresIn: ttl });
+
+    await this.authAuditService.record('impersonation_start', {
+      outcome: 'success',
+      userId: targetUserId,
+      phone: identity.user.phone,
+      profileId: profile.id,
+      actorId: impersonator.id,
+      reason: options.reason,
+      metadata: { tokenJti: jti, expiresAt },
+      context,
+    });
+
+    this.logger.warn(`🎭 User ${impersonator.id} is impersonating user ${targetUserId} (profile ${profile.id}) until ${expiresAt}`);
+    return {
+      success: true,
+      access_token: accessToken,
+      expires_in: ttl,
+      expires_at: expiresAt,
+      impersonating: { userId: targetUserId, profileId: profile.id, role: profile.role },
+    };
+  }
+
+  /**
+   * Record a request made with an impersonation token
+   */
+  async record(
+    user: { id: string; profileId?: string; jti?: string; impersonatorId: string; impersonatorProfileId?: string },
+    event: Exclude<ImpersonationEvent, 'start'>,
+    request: { method: string; path: string; statusCode?: number },
+  ): Promise<void> {
+    await this.insertLog({
+      impersonator_id: user.impersonatorId,
+      impersonator_profile_id: user.impersonatorProfileId || null,
+      target_user_id: user.id,
+      target_profile_id: user.profileId || null,
+      token_jti: user.jti || null,
+      event,
+      method: request.method,
+      path: request.path,
+      status_code: request.statusCode ?? null,
+    });
+  }
+
+  /**
+   * Audit log, newest first
+   */
+  async listLog(params: { impersonatorId?: string; targetUserId?: string; cursor?: string; limit?: number }) {
+    const supabase = this.supabaseService.getAdminClient();
+    const limit = Math.min(params.limit || 50, 100);
+
+    let queryBuilder = supabase
+      .from('impersonation_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (params.impersonatorId) {
+      queryBuilder = queryBuilder.eq('impersonator_id', params.impersonatorId);
+    }
+    if (params.targetUserId) {
+      queryBuilder = queryBuilder.eq('target_user_id', params.targetUserId);
+    }
+    if (params.cursor) {
+      const decoded = decodeCursor(params.cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+    if (error) {
+      throw new BadRequestException(`Failed to fetch impersonation log: ${error.message}`);
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].created_at, data[limit - 1].id) : null,
+    };
+  }
+
+  private async insertLog(entry: Record<string, any>, required = false): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('impersonation_audit_log')
+      .insert({ ...entry, created_at: new Date().toISOString() });
+
+    if (error) {
+      this.logger.error(`❌ Failed to write impersonation audit log (${entry.event}): ${error.message}`);
+      if (required) {
+        throw new BadRequestException('Failed to start impersonation');
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JwtKeyService } from './jwt-key.service';
+
+describe('JwtKeyService', () => {
+  let dir: string;
+  let config: Record<string, string>;
+  const jwtService = new JwtService({ secret: 'test-secret' });
+
+  const createService = () =>
+    new JwtKeyService({ get: jest.fn((key: string) => config[key]) } as unknown as ConfigService, jwtService);
+  const header = (token: string) => JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf-8'));
+  const pem = () => generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+    config = { JWT_SECRET: 'test-secret', JWT_KEYS_FILE: join(dir, 'keys.json') };
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('signs with the active key and publishes its public half', () => {
+    const service = createService();
+    const token = service.sign({ sub: 'user-1' }, { expiresIn: 60 });
+
+    expect(header(token)).toMatchObject({ alg: 'RS256', kid: 'local-1' });
+    expect(service.verify(token)).toMatchObject({ sub: 'user-1' });
+
+    const jwks = service.getJwks();
+    expect(jwks.keys).toEqual([expect.objectContaining({ kty: 'RSA', kid: 'local-1', alg: 'RS256', use: 'sig' })]);
+    expect(jwks.keys[0].d).toBeUndefined();
+  });
+
+  it('keeps verifying tokens of a retired key after rotation', () => {
+    const oldToken = createService().sign({ sub: 'user-1' });
+    const keyFile = JSON.parse(readFileSync(config.JWT_KEYS_FILE, 'utf-8'));
+    keyFile.keys.push({ kid: 'local-2', privateKey: pem() });
+    keyFile.activeKid = 'local-2';
+    writeFileSync(config.JWT_KEYS_FILE, JSON.stringify(keyFile));
+
+    const service = createService();
+    expect(header(service.sign({ sub: 'user-1' })).kid).toBe('local-2');
+    expect(service.verify(oldToken)).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('rejects unknown key ids and algorithm swaps', () => {
+    const service = createService();
+    const foreign = jwtService.sign({ sub: 'user-1' }, { secret: pem(), algorithm: 'RS256', keyid: 'other' });
+    const swapped = jwtService.sign({ sub: 'user-1' }, { secret: 'test-secret', algorithm: 'HS256', keyid: 'local-1' });
+
+    expect(() => service.verify(foreign)).toThrow('Unknown signing key');
+    expect(() => service.verify(swapped)).toThrow('does not match');
+  });
+
+  it('accepts legacy HS256 tokens until switched off', () => {
+    const legacy = jwtService.sign({ sub: 'user-1' });
+
+    expect(createService().verify(legacy)).toMatchObject({ sub: 'user-1' });
+
+    config.JWT_ACCEPT_LEGACY_TOKENS = 'false';
+    expect(() => createService().verify(legacy)).toThrow('no key id');
+  });
+
+  it('falls back to JWT_SECRET without a key file', () => {
+    delete config.JWT_KEYS_FILE;
+    const service = createService();
+    const token = service.sign({ sub: 'user-1' });
+
+    expect(header(token)).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(jwtService.verify(token)).toMatchObject({ sub: 'user-1' });
+    expect(service.getJwks()).toEqual({ keys: [] });
+  });
+});
@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+/** Algorithm of tokens signed with `JWT_SECRET` before signing keys were introduced */
+export const LEGACY_JWT_ALGORITHM = 'HS256' as const;
+
+interface KeyFileEntry {
+  kid: string;
+  /** Derived from the key type when omitted */
+  alg?: SigningAlgorithm;
+  /** PEM; retired keys keep only `publicKey` so their tokens still verify */
+  privateKey?: string;
+  publicKey?: string;
+}
+
+interface KeyFile {
+  activeKid: string;
+  keys: KeyFileEntry[];
+}
+
+interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey?: string;
+  publicKey: KeyObject;
+  publicKeyPem: string;
+}
+
+interface KeySet {
+  active?: SigningKey;
+  byKid: Map<string, SigningKey>;
+}
+
+/**
+ * Signing and verification keys for every JWT the API issues
+ *
+ * Keys come from `JWT_KEYS_FILE`:
+ * `{ "activeKid": "2026-10", "keys": [{ "kid": "2026-10", "alg": "RS256", "privateKey": "<PEM>" }, { "kid": "2026-04", "publicKey": "<PEM>" }] }`.
+ * New tokens are signed with the active key and carry its `kid`; every listed key verifies.
+ * To rotate, add a key, make it active, and drop the old one once its tokens have expired.
+ * Without a key file tokens are signed with `JWT_SECRET` (HS256) as before.
+ * Tokens without a `kid` are accepted with `JWT_SECRET` unless `JWT_ACCEPT_LEGACY_TOKENS=false`.
+ */
+@Injectable()
+export class JwtKeyService {
+  private readonly logger = new Logger(JwtKeyService.name);
+  private keySet?: KeySet;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+  ) { }
+
+  sign(payload: object, options: { expiresIn?: string | number } = {}): string {
+    const active = this.getKeySet().active;
+    if (!active) {
+      return this.jwtService.sign(payload, { ...options, secret: this.getLegacySecret(), algorithm: LEGACY_JWT_ALGORITHM });
+    }
+
+    return this.jwtService.sign(payload, {
+      ...options,
+      // `secret` takes precedence over the module-wide secret in JwtService
+      secret: active.privateKey,
+      algorithm: active.alg,
+      keyid: active.kid,
+    });
+  }
+
+  /**
+   * Verify a token with the key named by its `kid`; throws when the token is invalid
+   */
+  verify<T extends object = any>(token: string): T {
+    const { key, alg } = this.getVerificationKey(token);
+    return this.jwtService.verify<T>(token, { secret: key, algorithms: [alg] });
+  }
+
+  /**
+   * Key that verifies `token`, chosen from its header
+   * The header algorithm must match the key, so a public key can never be used as an HMAC secret.
+   */
+  getVerificationKey(token: string): { key: string; alg: SigningAlgorithm | typeof LEGACY_JWT_ALGORITHM } {
+    const header = this.decodeHeader(token);
+    if (!header?.alg) {
+      throw new Error('Malformed token');
+    }
+
+    const keySet = this.getKeySet();
+    if (header.kid) {
+      const signingKey = keySet.byKid.get(header.kid);
+      if (!signingKey) {
+        throw new Error(`Unknown signing key "${header.kid}"`);
+      }
+      if (header.alg !== signingKey.alg) {
+        throw new Error(`Token algorithm ${header.alg} does not match key "${header.kid}"`);
+      }
+      return { key: signingKey.publicKeyPem, alg: signingKey.alg };
+    }
+
+    if (header.alg !== LEGACY_JWT_ALGORITHM || !this.acceptsLegacyTokens(keySet)) {
+      throw new Error('Token has no key id');
+    }
+    return { key: this.getLegacySecret(), alg: LEGACY_JWT_ALGORITHM };
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set, for services that verify our tokens
+   */
+  getJwks(): { keys: Array<Record<string, any>> } {
+    return {
+      keys: [...this.getKeySet().byKid.values()].map((signingKey) => ({
+        ...signingKey.publicKey.export({ format: 'jwk' }),
+        kid: signingKey.kid,
+        alg: signingKey.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private acceptsLegacyTokens(keySet: KeySet): boolean {
+    // Without signing keys every token is a legacy token
+    return !keySet.active || this.configService.get<string>('JWT_ACCEPT_LEGACY_TOKENS') !== 'false';
+  }
+
+  private getLegacySecret(): string {
+    const secret = this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      throw new Error('JWT_SECRET is not defined in environment variables');
+    }
+    return secret;
+  }
+
+  private decodeHeader(token: string): { alg?: string; kid?: string } | null {
+    try {
+      return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private getKeySet(): KeySet {
+    if (!this.keySet) {
+      this.keySet = this.loadKeySet();
+    }
+    return this.keySet;
+  }
+
+  private loadKeySet(): KeySet {
+    const path = this.configService.get<string>('JWT_KEYS_FILE');
+    if (!path) {
+      return { byKid: new Map() };
+    }
+
+    const keyFile = this.readOrCreate(path);
+    const byKid = new Map<string, SigningKey>();
+    for (const entry of keyFile.keys || []) {
+      if (!entry.kid || (!entry.privateKey && !entry.publicKey)) {
+        throw new Error(`Key file ${path} has an entry without kid or key`);
+      }
+      const publicKey = createPublicKey(entry.publicKey || entry.privateKey!);
+      byKid.set(entry.kid, {
+        kid: entry.kid,
+        alg: entry.alg || (publicKey.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256'),
+        privateKey: entry.privateKey,
+        publicKey,
+        publicKeyPem: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+      });
+    }
+
+    const active = byKid.get(keyFile.activeKid);
+    if (!active?.privateKey) {
+      throw new Error(`Key file ${path} has no private key for active kid "${keyFile.activeKid}"`);
+    }
+
+    this.logger.log(`🔑 Signing tokens with key ${active.kid}; ${byKid.size} verification key(s) loaded`);
+    return { active, byKid };
+  }
+
+  private readOrCreate(path: string): KeyFile {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as KeyFile;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT' || process.env.NODE_ENV === 'production') {
+        throw error;
+      }
+
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const keyFile: KeyFile = {
+        activeKid: 'local-1',
+        keys: [{ kid: 'local-1', alg: 'RS256', privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString() }],
+      };
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(keyFile, null, 2), { mode: 0o600 });
+      this.logger.warn(`⚠️  Created development JWT signing key file at ${path}`);
+      return keyFile;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OtpRateLimitService } from './otp-rate-limit.service';
+import { RedisService } from '../../redis/redis.service';
+import { createInMemoryRedisService } from '../../test-utils/in-memory-redis';
+import { OtpErrorCode, OtpThrottleException } from '../exceptions/otp-throttle.exception';
+
+describe('OtpRateLimitService', () => {
+  let service: OtpRateLimitService;
+  const phone = '9876543210';
+
+  const config: Record<string, string> = {
+    OTP_MAX_VERIFY_ATTEMPTS: '3',
+    OTP_DAILY_SEND_LIMIT: '2',
+    OTP_LOCKOUT_BASE_SECONDS: '300',
+  };
+
+  beforeEach(async () => {
+    const configService = { get: jest.fn((key: string) => config[key]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OtpRateLimitService,
+        { provide: RedisService, useValue: createInMemoryRedisService(configService) },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<OtpRateLimitService>(OtpRateLimitService);
+  });
+
+  const codeOf = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(OtpThrottleException);
+      return ((error as OtpThrottleException).getResponse() as any).code;
+    }
+    return undefined;
+  };
+
+  it('enforces the resend cooldown', async () => {
+    await service.assertCanSend(phone);
+    await service.recordSend(phone);
+
+    expect(await codeOf(service.assertCanSend(phone))).toBe(OtpErrorCode.SEND_COOLDOWN);
+  });
+
+  it('enforces the daily send cap', async () => {
+    const redis = (service as any).redisService as RedisService;
+    await service.recordSend(phone);
+    await service.recordSend(phone);
+    await redis.del(`otp:cooldown:${phone}`);
+
+    expect(await codeOf(service.assertCanSend(phone))).toBe(OtpErrorCode.DAILY_LIMIT);
+  });
+
+  it('locks the phone out after too many wrong guesses and doubles repeat lockouts', async () => {
+    expect(await service.recordFailedAttempt(phone)).toEqual({ attemptsRemaining: 2 });
+    expect(await service.recordFailedAttempt(phone)).toEqual({ attemptsRemaining: 1 });
+    expect(await service.recordFailedAttempt(phone)).toEqual({ attemptsRemaining: 0, lockedFor: 300 });
+
+    expect(await codeOf(service.assertNotLocked(phone))).toBe(OtpErrorCode.VERIFY_LOCKED);
+    expect(await codeOf(service.assertCanSend(phone))).toBe(OtpErrorCode.VERIFY_LOCKED);
+
+    const redis = (service as any).redisService as RedisService;
+    await redis.del(`otp:lockout:${phone}`);
+    await service.recordFailedAttempt(phone);
+    await service.recordFailedAttempt(phone);
+    expect(await service.recordFailedAttempt(phone)).toEqual({ attemptsRemaining: 0, lockedFor: 600 });
+  });
+
+  it('resets attempts after a successful verification', async () => {
+    await service.recordFailedAttempt(phone);
+    await service.recordFailedAttempt(phone);
+    await service.clearAttempts(phone);
+
+    expect(await service.recordFailedAttempt(phone)).toEqual({ attemptsRemaining: 2 });
+  });
+});
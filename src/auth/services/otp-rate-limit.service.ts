@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+import { OtpErrorCode, OtpThrottleException } from '../exceptions/otp-throttle.exception';
+
+/**
+ * Per-phone OTP limits, shared across instances through the key-value store
+ *
+ * - Sending: a cooldown between sends and a rolling 24h cap.
+ * - Verifying: N wrong guesses invalidate the OTP and lock the phone out.
+ *   Each further lockout within 24h doubles the lockout window.
+ */
+@Injectable()
+export class OtpRateLimitService {
+  private readonly logger = new Logger(OtpRateLimitService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key) || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
+
+  private get maxVerifyAttempts() {
+    return this.getNumber('OTP_MAX_VERIFY_ATTEMPTS', 5);
+  }
+
+  private get sendCooldownSeconds() {
+    return this.getNumber('OTP_SEND_COOLDOWN_SECONDS', 60);
+  }
+
+  private get dailySendLimit() {
+    return this.getNumber('OTP_DAILY_SEND_LIMIT', 10);
+  }
+
+  private get lockoutBaseSeconds() {
+    return this.getNumber('OTP_LOCKOUT_BASE_SECONDS', 300);
+  }
+
+  private get lockoutMaxSeconds() {
+    return this.getNumber('OTP_LOCKOUT_MAX_SECONDS', 24 * 60 * 60);
+  }
+
+  /**
+   * Throw if the phone is locked out, cooling down, or over its daily cap
+   */
+  async assertCanSend(phone: string): Promise<void> {
+    await this.assertNotLocked(phone);
+
+    const cooldown = await this.redisService.ttl(`otp:cooldown:${phone}`);
+    if (cooldown > 0) {
+      throw new OtpThrottleException(
+        OtpErrorCode.SEND_COOLDOWN,
+        `Please wait ${cooldown} seconds before requesting another OTP`,
+        cooldown,
+      );
+    }
+
+    const sentToday = parseInt((await this.redisService.get(`otp:daily:${phone}`)) || '0', 10);
+    if (sentToday >= this.dailySendLimit) {
+      const retryAfter = await this.redisService.ttl(`otp:daily:${phone}`);
+      this.logger.warn(`🚫 Daily OTP limit reached for ${phone}`);
+      throw new OtpThrottleException(
+        OtpErrorCode.DAILY_LIMIT,
+        'Daily OTP limit reached. Please try again later.',
+        retryAfter,
+      );
+    }
+  }
+
+  /**
+   * Start the cooldown, count the send, and give the new OTP a fresh set of attempts
+   */
+  async recordSend(phone: string): Promise<void> {
+    await this.redisService.set(`otp:cooldown:${phone}`, '1', this.sendCooldownSeconds);
+    await this.redisService.incr(`otp:daily:${phone}`, 24 * 60 * 60);
+    await this.redisService.del(`otp:attempts:${phone}`);
+  }
+
+  /**
+   * Throw if the phone is currently locked out of verification
+   */
+  async assertNotLocked(phone: string): Promise<void> {
+    const lockedFor = await this.redisService.ttl(`otp:lockout:${phone}`);
+    if (lockedFor > 0) {
+      throw new OtpThrottleException(
+        OtpErrorCode.VERIFY_LOCKED,
+        `Too many incorrect attempts. Try again in ${Math.ceil(lockedFor / 60)} minute(s).`,
+        lockedFor,
+      );
+    }
+  }
+
+  /**
+   * Count a wrong guess
+   * Returns the attempts left, or starts a lockout and returns `lockedFor` seconds.
+   */
+  async recordFailedAttempt(phone: string): Promise<{ attemptsRemaining: number; lockedFor?: number }> {
+    // Attempts are counted for the lifetime of one OTP (10 minutes)
+    const attempts = await this.redisService.incr(`otp:attempts:${phone}`, 10 * 60);
+    const attemptsRemaining = Math.max(this.maxVerifyAttempts - attempts, 0);
+    if (attemptsRemaining > 0) {
+      return { attemptsRemaining };
+    }
+
+    const lockouts = await this.redisService.incr(`otp:lockouts:${phone}`, 24 * 60 * 60);
+    const lockedFor = Math.min(this.lockoutBaseSeconds * 2 ** (lockouts - 1), this.lockoutMaxSeconds);
+    await this.redisService.set(`otp:lockout:${phone}`, '1', lockedFor);
+    await this.redisService.del(`otp:attempts:${phone}`);
+
+    this.logger.warn(`🔒 ${phone} locked out of OTP verification for ${lockedFor}s (lockout #${lockouts})`);
+    return { attemptsRemaining: 0, lockedFor };
+  }
+
+  /**
+   * Reset counters after a successful verification
+   */
+  async clearAttempts(phone: string): Promise<void> {
+    await this.redisService.del(`otp:attempts:${phone}`);
+    await this.redisService.del(`otp:lockouts:${phone}`);
+  }
+}
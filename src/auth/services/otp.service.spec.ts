@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { OtpService } from './otp.service';
+import { OtpRateLimitService } from './otp-rate-limit.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { SMS_PROVIDER } from '../../sms/sms-provider.interface';
+
+describe('OtpService', () => {
+  let service: OtpService;
+  let results: any[];
+  let config: Record<string, string>;
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    is: jest.fn(() => mockDbChain),
+    gt: jest.fn(() => mockDbChain),
+    order: jest.fn(() => mockDbChain),
+    limit: jest.fn(() => mockDbChain),
+    single: jest.fn(() => Promise.resolve(results.shift())),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift())),
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(results.shift() || { data: null, error: null }).then(resolve, reject),
+  };
+
+  const mockRateLimitService = {
+    assertNotLocked: jest.fn(),
+    recordFailedAttempt: jest.fn(() => Promise.resolve({ attemptsRemaining: 4 })),
+    clearAttempts: jest.fn(),
+  };
+
+  const hashedRecord = (otp: string) => {
+    const salt = 'a1b2c3';
+    return {
+      id: 'otp-1',
+      phone: '9876543210',
+      otp_salt: salt,
+      otp_hash: createHmac('sha256', config.OTP_HMAC_SECRET).update(`${salt}:${otp}`).digest('hex'),
+      verified_at: null,
+    };
+  };
+
+  beforeEach(async () => {
+    results = [];
+    config = { OTP_HMAC_SECRET: 'test-otp-secret' };
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OtpService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+        { provide: OtpRateLimitService, useValue: mockRateLimitService },
+        { provide: SMS_PROVIDER, useValue: { name: 'fake', send: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<OtpService>(OtpService);
+  });
+
+  it('storeOTP persists a salted hash, never the code', async () => {
+    results.push({ data: null, error: null }, { data: { id: 'otp-1' }, error: null });
+
+    await service.storeOTP('9876543210', '123456');
+
+    const row = mockDbChain.insert.mock.calls[0][0];
+    expect(row.otp).toBeUndefined();
+    expect(row.otp_salt).toHaveLength(32);
+    expect(row.otp_hash).toBe(
+      createHmac('sha256', 'test-otp-secret').update(`${row.otp_salt}:123456`).digest('hex'),
+    );
+  });
+
+  it('verifyOTP accepts the matching code for a hashed record', async () => {
+    results.push({ data: hashedRecord('123456'), error: null }, { data: null, error: null });
+
+    const result = await service.verifyOTP('9876543210', '123456');
+
+    expect(result.isValid).toBe(true);
+    expect(mockDbChain.eq).not.toHaveBeenCalledWith('otp', expect.anything());
+    expect(mockRateLimitService.clearAttempts).toHaveBeenCalledWith('9876543210');
+  });
+
+  it('verifyOTP rejects a wrong code and counts the attempt', async () => {
+    results.push({ data: hashedRecord('123456'), error: null });
+
+    const result = await service.verifyOTP('9876543210', '654321');
+
+    expect(result).toEqual({ isValid: false, message: 'Invalid or expired OTP', attemptsRemaining: 4 });
+    expect(mockRateLimitService.recordFailedAttempt).toHaveBeenCalledWith('9876543210');
+  });
+
+  it('accepts legacy plaintext rows only while the migration flag is on', async () => {
+    const legacyRecord = { id: 'otp-legacy', phone: '9876543210', otp: '123456', verified_at: null };
+
+    results.push({ data: legacyRecord, error: null }, { data: null, error: null });
+    expect((await service.verifyOTP('9876543210', '123456')).isValid).toBe(true);
+
+    config.OTP_LEGACY_PLAINTEXT = 'false';
+    results.push({ data: legacyRecord, error: null });
+    expect((await service.verifyOTP('9876543210', '123456')).isValid).toBe(false);
+  });
+});
@@ -1,6 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { SMS_PROVIDER, SmsProvider } from '../../sms/sms-provider.interface';
+import { OtpRateLimitService } from './otp-rate-limit.service';
+import { OtpErrorCode, OtpThrottleException } from '../exceptions/otp-throttle.exception';
+import { isValidPhone, legacyPhoneCandidates, normalizePhone } from '../../utils/phone.util';
 import { getOTPExpirationIST, getCurrentISTForComparison, getCurrentIST } from '../../utils/time.utils';
 
 @Injectable()
@@ -10,71 +15,77 @@ export class OtpService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly configService: ConfigService,
+    private readonly otpRateLimitService: OtpRateLimitService,
+    @Inject(SMS_PROVIDER) private readonly smsProvider: SmsProvider,
   ) { }
 
   /**
-   * Get SMS configuration from environment variables
-   * All values must be configured in environment - no hardcoded defaults
+   * Generate a 6-digit OTP
    */
-  private getSmsConfig() {
-    const secret = this.configService.get<string>('SMS_SECRET');
-    const sender = this.configService.get<string>('SMS_SENDER');
-    const tempid = this.configService.get<string>('SMS_TEMPID');
-    const route = this.configService.get<string>('SMS_ROUTE');
-    const msgtype = this.configService.get<string>('SMS_MSGTYPE');
-    const baseUrl = this.configService.get<string>('SMS_BASE_URL');
-
-    if (!secret || !sender || !tempid || !baseUrl) {
-      throw new Error(
-        'SMS configuration incomplete. Required env vars: SMS_SECRET, SMS_SENDER, SMS_TEMPID, SMS_BASE_URL',
-      );
-    }
+  generateOTP(): string {
+    return randomInt(100000, 1000000).toString();
+  }
 
-    return {
-      secret,
-      sender,
-      tempid,
-      route: route || 'TA',
-      msgtype: msgtype || '1',
-      baseUrl,
-    };
+  private getHmacSecret(): string {
+    const secret = this.configService.get<string>('OTP_HMAC_SECRET') || this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      throw new Error('OTP_HMAC_SECRET or JWT_SECRET must be configured to hash OTPs');
+    }
+    return secret;
   }
 
   /**
-   * Generate a 6-digit OTP
+   * Whether rows written before OTP hashing (plaintext `otp` column) are still accepted
    */
-  generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  private acceptsLegacyPlaintext(): boolean {
+    return (this.configService.get<string>('OTP_LEGACY_PLAINTEXT') || 'true') === 'true';
   }
 
   /**
-   * Validate Indian phone number format
+   * Salted HMAC of a code as stored in `otp_hash` (shared by the SMS and email channels)
    */
-  validatePhoneNumber(phoneNumber: string): boolean {
-    const cleanNumber = phoneNumber.replace(/[\s\-\+]/g, '');
-    // Accept either 10 digits starting with 6-9, or 12 digits starting with 91
-    const indianMobileRegex = /^([6-9]\d{9}|91[6-9]\d{9})$/;
-    return indianMobileRegex.test(cleanNumber);
+  hashOTP(otp: string, salt: string): string {
+    return createHmac('sha256', this.getHmacSecret()).update(`${salt}:${otp}`).digest('hex');
   }
 
   /**
-   * Format phone number to consistent format (10 digits, no country code)
+   * Constant-time check of a submitted OTP against a stored record
    */
-  formatPhoneNumber(phoneNumber: string): string {
-    // Remove all spaces, dashes, and special characters
-    let cleanNumber = phoneNumber.replace(/[\s\-\+]/g, '');
+  otpMatches(record: any, otp: string): boolean {
+    if (record.otp_hash && record.otp_salt) {
+      const expected = Buffer.from(record.otp_hash, 'hex');
+      const actual = Buffer.from(this.hashOTP(otp, record.otp_salt), 'hex');
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
 
-    // If starts with 91 (country code), remove it
-    if (cleanNumber.startsWith('91') && cleanNumber.length === 12) {
-      cleanNumber = cleanNumber.substring(2);
+    if (record.otp && this.acceptsLegacyPlaintext()) {
+      // Hash both sides so the comparison does not leak the length of the stored value
+      const expected = createHash('sha256').update(String(record.otp)).digest();
+      const actual = createHash('sha256').update(otp).digest();
+      return timingSafeEqual(expected, actual);
     }
 
-    // Return clean 10-digit number
-    return cleanNumber;
+    return false;
+  }
+
+  /**
+   * Validate phone number format (any country; no country code means India)
+   */
+  validatePhoneNumber(phoneNumber: string): boolean {
+    return isValidPhone(phoneNumber);
+  }
+
+  /**
+   * Format phone number to consistent E.164 format (e.g. +919876543210)
+   * Unparseable input is returned trimmed so validation can reject it.
+   */
+  formatPhoneNumber(phoneNumber: string): string {
+    return normalizePhone(phoneNumber) ?? (phoneNumber || '').trim();
   }
 
   /**
    * Store OTP in Supabase database
+   * The code itself is never written; `otp_hash` is HMAC-SHA256(secret, `${otp_salt}:${otp}`).
    */
   async storeOTP(phoneNumber: string, otp: string): Promise<any> {
     try {
@@ -82,22 +93,20 @@ export class OtpService {
       const expiresAt = getOTPExpirationIST();
 
       // Invalidate any existing unverified OTPs for this phone by expiring them immediately
-      await supabase
-        .from('otp_verifications')
-        .update({ expires_at: getCurrentIST() })
-        .eq('phone', phoneNumber)
-        .is('verified_at', null);
+      await this.expirePendingOTPs(phoneNumber);
 
-      // Create new OTP record
+      // Create new OTP record - only a salted HMAC of the code is persisted
+      const salt = randomBytes(16).toString('hex');
       const { data, error } = await supabase
         .from('otp_verifications')
         .insert({
           phone: phoneNumber,
-          otp: otp,
+          otp_hash: this.hashOTP(otp, salt),
+          otp_salt: salt,
           created_at: getCurrentIST(),
           expires_at: expiresAt,
         })
-        .select()
+        .select('id, phone, created_at, expires_at')
         .single();
 
       if (error) {
@@ -113,6 +122,41 @@ export class OtpService {
     }
   }
 
+  /**
+   * Expire every unverified OTP for a phone number
+   */
+  private async expirePendingOTPs(phoneNumber: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    await supabase
+      .from('otp_verifications')
+      .update({ expires_at: getCurrentIST() })
+      .eq('phone', phoneNumber)
+      .is('verified_at', null);
+  }
+
+  /**
+   * Count a wrong OTP for the phone
+   * Once the attempts are used up the pending OTP is invalidated and the phone locked out.
+   */
+  private async handleFailedAttempt(phoneNumber: string): Promise<{
+    isValid: false;
+    message: string;
+    attemptsRemaining: number;
+  }> {
+    const { attemptsRemaining, lockedFor } = await this.otpRateLimitService.recordFailedAttempt(phoneNumber);
+
+    if (lockedFor) {
+      await this.expirePendingOTPs(phoneNumber);
+      throw new OtpThrottleException(
+        OtpErrorCode.ATTEMPTS_EXCEEDED,
+        `Too many incorrect attempts. The OTP has been invalidated; try again in ${Math.ceil(lockedFor / 60)} minute(s).`,
+        lockedFor,
+      );
+    }
+
+    return { isValid: false, message: 'Invalid or expired OTP', attemptsRemaining };
+  }
+
   /**
    * Verify OTP from Supabase database
    */
@@ -120,24 +164,28 @@ export class OtpService {
     isValid: boolean;
     message: string;
     otpRecord?: any;
+    attemptsRemaining?: number;
   }> {
     try {
+      await this.otpRateLimitService.assertNotLocked(phoneNumber);
       const supabase = this.supabaseService.getAdminClient();
 
-      const { data: otpRecord, error } = await supabase
+      // Only the latest pending OTP is live; storeOTP expires the older ones
+      const { data: pendingRecord, error } = await supabase
         .from('otp_verifications')
         .select('*')
         .eq('phone', phoneNumber)
-        .eq('otp', otp)
         .is('verified_at', null)
         .gt('expires_at', getCurrentISTForComparison())
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle();
 
+      const otpRecord = pendingRecord && this.otpMatches(pendingRecord, otp) ? pendingRecord : null;
+
       if (error || !otpRecord) {
         this.logger.log(`❌ Invalid or expired OTP for ${phoneNumber}`);
-        return { isValid: false, message: 'Invalid or expired OTP' };
+        return this.handleFailedAttempt(phoneNumber);
       }
 
       // Mark OTP as verified
@@ -151,6 +199,7 @@ export class OtpService {
         throw new Error(`Failed to update OTP status: ${updateError.message}`);
       }
 
+      await this.otpRateLimitService.clearAttempts(phoneNumber);
       this.logger.log(`✅ OTP verified successfully for ${phoneNumber}`);
       return {
         isValid: true,
@@ -171,23 +220,26 @@ export class OtpService {
     isValid: boolean;
     message: string;
     otpRecord?: any;
+    attemptsRemaining?: number;
   }> {
     try {
+      await this.otpRateLimitService.assertNotLocked(phoneNumber);
       const supabase = this.supabaseService.getAdminClient();
 
-      const { data: otpRecord, error } = await supabase
+      // A verified OTP stays usable until it expires, so check every live record for this phone
+      const { data: liveRecords, error } = await supabase
         .from('otp_verifications')
         .select('*')
         .eq('phone', phoneNumber)
-        .eq('otp', otp)
         .gt('expires_at', getCurrentISTForComparison())
         .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+        .limit(5);
+
+      const otpRecord = (liveRecords || []).find((record: any) => this.otpMatches(record, otp));
 
       if (error || !otpRecord) {
         this.logger.log(`❌ Invalid or expired OTP (confirm) for ${phoneNumber}`);
-        return { isValid: false, message: 'Invalid or expired OTP' };
+        return this.handleFailedAttempt(phoneNumber);
       }
 
       // If not yet verified, mark it verified
@@ -205,6 +257,7 @@ export class OtpService {
       } else {
         this.logger.log(`ℹ️  OTP already verified for ${phoneNumber}`);
       }
+      await this.otpRateLimitService.clearAttempts(phoneNumber);
 
       return {
         isValid: true,
@@ -218,68 +271,30 @@ export class OtpService {
   }
 
   /**
-   * Send OTP via SMS
+   * Send OTP via SMS through the configured provider
    */
   async sendOtpSms(phoneNumber: string, otp: string): Promise<{
     success: boolean;
     message?: string;
     error?: string;
   }> {
-    try {
-      this.logger.log(`📱 Sending OTP SMS to ${phoneNumber}`);
-
-      // Get SMS configuration
-      const smsConfig = this.getSmsConfig();
-
-      // Format the SMS message - exactly matching the working version
-      const message = `Welcome to NighaTech Global Your OTP for authentication is ${otp} don't share with anybody Thank you`;
-
-      // Prepare SMS API parameters
-      const params = new URLSearchParams({
-        secret: smsConfig.secret || '',
-        sender: smsConfig.sender,
-        tempid: smsConfig.tempid,
-        receiver: phoneNumber,
-        route: smsConfig.route,
-        msgtype: smsConfig.msgtype,
-        sms: message,
-      });
-
-      const smsUrl = `${smsConfig.baseUrl}?${params.toString()}`;
-      this.logger.debug(`📱 SMS URL: ${smsUrl}`);
-
-      // Send SMS using fetch
-      const response = await fetch(smsUrl, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'NestJS SMS Service/1.0',
-        },
-      });
-
-      const responseText = await response.text();
-      this.logger.log(`📱 SMS API Response Status: ${response.status}`);
-      this.logger.log(`📱 SMS API Response: ${responseText}`);
-
-      if (response.status === 200) {
-        this.logger.log(`✅ SMS sent successfully to ${phoneNumber}`);
-        return {
-          success: true,
-          message: `SMS sent successfully to ${phoneNumber}`,
-        };
-      } else {
-        this.logger.warn(`❌ SMS failed for ${phoneNumber}`);
-        return {
-          success: false,
-          error: `SMS API returned status ${response.status}: ${responseText}`,
-        };
-      }
-    } catch (error: any) {
-      this.logger.error('📱 SMS Service Error:', error);
-      return {
-        success: false,
-        error: `Failed to send SMS: ${error?.message || 'Unknown error'}`,
-      };
+    this.logger.log(`📱 Sending OTP SMS to ${phoneNumber} via ${this.smsProvider.name}`);
+
+    // Format the SMS message - exactly matching the working version
+    const message = `Welcome to NighaTech Global Your OTP for authentication is ${otp} don't share with anybody Thank you`;
+
+    const result = await this.smsProvider.send(phoneNumber, message);
+    if (result.success) {
+      this.logger.log(`✅ SMS sent successfully to ${phoneNumber} (${result.provider})`);
+    } else {
+      this.logger.warn(`❌ SMS failed for ${phoneNumber}: ${result.error}`);
     }
+
+    return {
+      success: result.success,
+      message: result.message,
+      error: result.error,
+    };
   }
 
   /**
@@ -300,16 +315,20 @@ export class OtpService {
 
       if (!this.validatePhoneNumber(formattedPhone)) {
         throw new Error(
-          'Invalid phone number format. Must be a valid 10-digit Indian mobile number starting with 6-9',
+          'Invalid phone number format. Use international format (e.g. +971501234567); numbers without a country code are treated as Indian',
         );
       }
 
+      // Enforce per-phone cooldown, daily cap and lockouts before doing any work
+      await this.otpRateLimitService.assertCanSend(formattedPhone);
+
       // Check if user exists
       const supabase = this.supabaseService.getAdminClient();
       const { data: existingUser } = await supabase
         .from('users')
         .select('id, phone')
-        .eq('phone', formattedPhone)
+        .in('phone', legacyPhoneCandidates(formattedPhone))
+        .limit(1)
         .maybeSingle();
 
       const userExists = !!existingUser;
@@ -320,6 +339,7 @@ export class OtpService {
 
       // Store OTP in database
       await this.storeOTP(formattedPhone, otp);
+      await this.otpRateLimitService.recordSend(formattedPhone);
 
       // Send OTP via SMS
       const smsResult = await this.sendOtpSms(formattedPhone, otp);
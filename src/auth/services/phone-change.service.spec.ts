@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { PhoneChangeService } from './phone-change.service';
+import { OtpService } from './otp.service';
+import { JwtKeyService } from './jwt-key.service';
+import { AuthService } from '../auth.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+describe('PhoneChangeService', () => {
+  let service: PhoneChangeService;
+  let jwtService: JwtService;
+  let results: any[];
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    in: jest.fn(() => mockDbChain),
+    neq: jest.fn(() => mockDbChain),
+    limit: jest.fn(() => mockDbChain),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift() || { data: null, error: null })),
+    rpc: jest.fn(() => Promise.resolve({ error: null })),
+  };
+
+  const mockOtpService = {
+    formatPhoneNumber: jest.fn((phone: string) => (phone.startsWith('+') ? phone : `+91${phone}`)),
+    validatePhoneNumber: jest.fn(() => true),
+    sendOTP: jest.fn(async () => ({ otp: undefined })),
+    verifyOrConfirmOTP: jest.fn(async () => ({ isValid: true })),
+  };
+  const mockAuthService = { logoutAll: jest.fn() };
+
+  beforeEach(async () => {
+    results = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PhoneChangeService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: OtpService, useValue: mockOtpService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test-secret' }) },
+        JwtKeyService,
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'JWT_SECRET' ? 'test-secret' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<PhoneChangeService>(PhoneChangeService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('sends OTPs to both numbers', async () => {
+    results.push({ data: { id: 'user-123', phone: '+919876543210' } });
+
+    const result = await service.start('user-123', '+971501234567');
+
+    expect(mockOtpService.sendOTP).toHaveBeenCalledWith('+919876543210');
+    expect(mockOtpService.sendOTP).toHaveBeenCalledWith('+971501234567');
+    expect(jwtService.verify(result.change_token)).toMatchObject({ sub: 'user-123', override: false });
+  });
+
+  it('admin override only sends an OTP to the new number', async () => {
+    results.push({ data: { id: 'user-123', phone: '+919876543210' } });
+
+    await service.start('user-123', '+971501234567', { override: true, requestedBy: 'admin-1' });
+
+    expect(mockOtpService.sendOTP).toHaveBeenCalledTimes(1);
+    expect(mockOtpService.sendOTP).toHaveBeenCalledWith('+971501234567');
+  });
+
+  it('rejects a number registered to another account', async () => {
+    results.push({ data: { id: 'user-123', phone: '+919876543210' } }, { data: { id: 'user-456' } });
+
+    await expect(service.start('user-123', '+971501234567')).rejects.toThrow(BadRequestException);
+    expect(mockOtpService.sendOTP).not.toHaveBeenCalled();
+  });
+
+  it('confirms with both OTPs, updates every copy and logs out all sessions', async () => {
+    const token = jwtService.sign({
+      sub: 'user-123',
+      type: 'phone_change',
+      oldPhone: '+919876543210',
+      newPhone: '+971501234567',
+      override: false,
+      requestedBy: 'user-123',
+    });
+
+    await service.confirm(token, { oldOtp: '111111', newOtp: '222222' }, 'user-123');
+
+    expect(mockOtpService.verifyOrConfirmOTP).toHaveBeenCalledWith('+919876543210', '111111');
+    expect(mockOtpService.verifyOrConfirmOTP).toHaveBeenCalledWith('+971501234567', '222222');
+    expect(mockDbChain.rpc).toHaveBeenCalledWith('change_user_phone', {
+      p_user_id: 'user-123',
+      p_old_phones: ['+919876543210', '9876543210', '919876543210'],
+      p_new_phone: '+971501234567',
+    });
+    expect(mockAuthService.logoutAll).toHaveBeenCalledWith('user-123', expect.objectContaining({ reason: 'phone_change' }));
+  });
+
+  it('does not change the number when an OTP is wrong', async () => {
+    mockOtpService.verifyOrConfirmOTP.mockResolvedValueOnce({ isValid: false } as any);
+    const token = jwtService.sign({
+      sub: 'user-123',
+      type: 'phone_change',
+      oldPhone: '+919876543210',
+      newPhone: '+971501234567',
+      override: false,
+    });
+
+    await expect(service.confirm(token, { oldOtp: '000000', newOtp: '222222' }, 'user-123')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(mockDbChain.rpc).not.toHaveBeenCalled();
+  });
+
+  it('only accepts override tokens from admins and for the token subject', async () => {
+    const token = jwtService.sign({
+      sub: 'user-123',
+      type: 'phone_change',
+      oldPhone: '+919876543210',
+      newPhone: '+971501234567',
+      override: true,
+    });
+
+    await expect(service.confirm(token, { newOtp: '222222' }, 'user-123')).rejects.toThrow(ForbiddenException);
+    await expect(service.confirm(token, { newOtp: '222222' }, 'user-456', { asAdmin: true })).rejects.toThrow(
+      ForbiddenException,
+    );
+    await service.confirm(token, { newOtp: '222222' }, 'user-123', { asAdmin: true });
+    expect(mockOtpService.verifyOrConfirmOTP).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,191 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { OtpService } from './otp.service';
+import { JwtKeyService } from './jwt-key.service';
+import { AuthService } from '../auth.service';
+import { OtpErrorCode } from '../exceptions/otp-throttle.exception';
+import { legacyPhoneCandidates } from '../../utils/phone.util';
+
+interface PhoneChangeTokenPayload {
+  sub: string;
+  type: 'phone_change';
+  oldPhone: string;
+  newPhone: string;
+  /** Set when an admin started the change; the old number is not confirmed */
+  override: boolean;
+  requestedBy: string;
+}
+
+/**
+ * Changing the phone number a user logs in with
+ *
+ * Start sends OTPs to the old and the new number and returns a short-lived
+ * `phone_change` token. Confirm checks both OTPs (only the new one for an admin
+ * override), then the `change_user_phone` RPC rewrites `users.phone` and the
+ * copies in `artist_profiles` / `recruiter_profiles` in one transaction.
+ * Every existing session is revoked afterwards.
+ */
+@Injectable()
+export class PhoneChangeService {
+  private readonly logger = new Logger(PhoneChangeService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly otpService: OtpService,
+    private readonly authService: AuthService,
+    private readonly jwtKeyService: JwtKeyService,
+  ) { }
+
+  /**
+   * Send OTPs for a phone change
+   * With `override`, an admin starts the change and only the new number gets an OTP.
+   */
+  async start(userId: string, newPhone: string, options: { override?: boolean; requestedBy?: string } = {}) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, phone')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const formattedNew = this.otpService.formatPhoneNumber(newPhone);
+    if (!this.otpService.validatePhoneNumber(formattedNew)) {
+      throw new BadRequestException('Invalid phone number');
+    }
+
+    const oldPhone = this.otpService.formatPhoneNumber(user.phone);
+    if (formattedNew === oldPhone) {
+      throw new BadRequestException('New phone number is the same as the current one');
+    }
+
+    await this.assertPhoneAvailable(formattedNew, userId);
+
+    const override = !!options.override;
+    if (!override) {
+      await this.otpService.sendOTP(oldPhone);
+    }
+    const newResult = await this.otpService.sendOTP(formattedNew);
+
+    const payload: PhoneChangeTokenPayload = {
+      sub: userId,
+      type: 'phone_change',
+      oldPhone,
+      newPhone: formattedNew,
+      override,
+      requestedBy: options.requestedBy || userId,
+    };
+
+    this.logger.log(`📱 Phone change started for user ${userId}${override ? ` by admin ${options.requestedBy}` : ''}`);
+    return {
+      success: true,
+      message: override
+        ? 'OTP sent to the new phone number'
+        : 'OTPs sent to the current and the new phone number',
+      change_token: this.jwtKeyService.sign(payload, { expiresIn: '15m' }),
+      // For development - remove in production
+      otp: newResult.otp,
+    };
+  }
+
+  /**
+   * Check the OTPs and switch the number
+   * `expectedUserId` is the user the caller is allowed to change (the token subject must match).
+   * Override tokens are only accepted from the admin endpoint (`asAdmin`).
+   */
+  async confirm(
+    changeToken: string,
+    otps: { oldOtp?: string; newOtp: string },
+    expectedUserId: string,
+    options: { asAdmin?: boolean } = {},
+  ) {
+    const payload = this.verifyChangeToken(changeToken);
+    if (payload.sub !== expectedUserId) {
+      throw new ForbiddenException('Phone change token belongs to another user');
+    }
+    if (payload.override && !options.asAdmin) {
+      throw new ForbiddenException('This phone change must be confirmed by an admin');
+    }
+
+    if (!payload.override) {
+      if (!otps.oldOtp) {
+        throw new BadRequestException('OTP for the current phone number is required');
+      }
+      await this.assertOtp(payload.oldPhone, otps.oldOtp, 'current');
+    }
+    await this.assertOtp(payload.newPhone, otps.newOtp, 'new');
+
+    await this.assertPhoneAvailable(payload.newPhone, payload.sub);
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase.rpc('change_user_phone', {
+      p_user_id: payload.sub,
+      p_old_phones: legacyPhoneCandidates(payload.oldPhone),
+      p_new_phone: payload.newPhone,
+    });
+
+    if (error) {
+      this.logger.error(`❌ Phone change failed for user ${payload.sub}:`, error);
+      if (error.code === '23505') {
+        throw new BadRequestException('Phone number is already registered to another account');
+      }
+      throw new BadRequestException('Failed to change phone number');
+    }
+
+    await this.authService.logoutAll(payload.sub, {
+      reason: 'phone_change',
+      actorId: payload.override ? payload.requestedBy : undefined,
+    });
+
+    this.logger.log(`✅ Phone changed for user ${payload.sub}${payload.override ? ` (admin override by ${payload.requestedBy})` : ''}`);
+    return {
+      success: true,
+      message: 'Phone number changed. Please log in again with the new number.',
+      phone: payload.newPhone,
+    };
+  }
+
+  private verifyChangeToken(token: string): PhoneChangeTokenPayload {
+    try {
+      const payload = this.jwtKeyService.verify(token);
+      if (payload?.type === 'phone_change' && payload.sub && payload.newPhone) {
+        return payload;
+      }
+    } catch {
+      // Fall through to the generic error
+    }
+    throw new UnauthorizedException('Invalid or expired phone change token. Please start again.');
+  }
+
+  private async assertOtp(phone: string, otp: string, which: 'current' | 'new') {
+    // verifyOrConfirm lets the user retry confirm if only the other OTP was wrong
+    const verification = await this.otpService.verifyOrConfirmOTP(phone, otp);
+    if (!verification.isValid) {
+      throw new UnauthorizedException({
+        statusCode: 401,
+        error: 'Unauthorized',
+        code: OtpErrorCode.INVALID,
+        message: `Invalid or expired OTP for the ${which} phone number`,
+        attemptsRemaining: verification.attemptsRemaining,
+      });
+    }
+  }
+
+  private async assertPhoneAvailable(phone: string, userId: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: taken } = await supabase
+      .from('users')
+      .select('id')
+      .in('phone', legacyPhoneCandidates(phone))
+      .neq('id', userId)
+      .limit(1)
+      .maybeSingle();
+
+    if (taken) {
+      throw new BadRequestException('Phone number is already registered to another account');
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { RefreshTokenService } from './refresh-token.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let results: any[];
+
+  const hash = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    is: jest.fn(() => mockDbChain),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift())),
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(results.shift() || { data: null, error: null }).then(resolve, reject),
+  };
+
+  const mockSupabaseService = {
+    getAdminClient: jest.fn(() => mockDbChain),
+  };
+
+  const activeRecord = (overrides: any = {}) => ({
+    id: 'token-1',
+    user_id: 'user-123',
+    family_id: 'family-1',
+    device_id: 'device-1',
+    token_hash: hash('secret'),
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    revoked_at: null,
+    revoked_reason: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    results = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: SupabaseService, useValue: mockSupabaseService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  it('issue stores only a hash of the token secret', async () => {
+    const issued = await service.issue('user-123');
+
+    const [id, secret] = issued.token.split('.');
+    expect(id).toBe(issued.id);
+    const inserted = mockDbChain.insert.mock.calls[0][0];
+    expect(inserted.token_hash).toBe(hash(secret));
+    expect(JSON.stringify(inserted)).not.toContain(secret);
+  });
+
+  it('rotate issues a new token in the same family', async () => {
+    results.push({ data: activeRecord() }, { data: [{ id: 'token-1' }] });
+
+    const rotated = await service.rotate('token-1.secret', 'device-1');
+
+    expect(rotated.userId).toBe('user-123');
+    expect(rotated.refreshToken.familyId).toBe('family-1');
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ revoked_reason: 'rotated' }));
+    expect(mockDbChain.update).toHaveBeenCalledWith({ replaced_by: rotated.refreshToken.id });
+  });
+
+  it('rotate revokes the whole family when a rotated token is reused', async () => {
+    results.push({ data: activeRecord({ revoked_at: new Date().toISOString(), revoked_reason: 'rotated' }) });
+
+    await expect(service.rotate('token-1.secret')).rejects.toThrow(UnauthorizedException);
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ revoked_reason: 'reuse_detected' }));
+    expect(mockDbChain.eq).toHaveBeenCalledWith('family_id', 'family-1');
+  });
+
+  it('rotate rejects a token with the wrong secret', async () => {
+    results.push({ data: activeRecord() });
+
+    await expect(service.rotate('token-1.guess')).rejects.toThrow(UnauthorizedException);
+    expect(mockDbChain.update).not.toHaveBeenCalled();
+  });
+
+  it('rotate rejects an expired token', async () => {
+    results.push({ data: activeRecord({ expires_at: new Date(Date.now() - 1000).toISOString() }) });
+
+    await expect(service.rotate('token-1.secret')).rejects.toThrow('Refresh token expired');
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { isExpired } from '../../utils/time.utils';
+
+export interface IssuedRefreshToken {
+  id: string;
+  familyId: string;
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Opaque, rotating refresh tokens stored in the `refresh_tokens` table
+ *
+ * Token format: `{id}.{secret}` - only a SHA-256 hash of the secret is persisted.
+ * Every rotation revokes the presented token and issues a new one in the same family.
+ * Presenting an already-rotated token revokes the whole family (reuse detection).
+ */
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private getTtlDays(): number {
+    return parseInt(this.configService.get<string>('JWT_REFRESH_TOKEN_TTL_DAYS') || '30', 10);
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private parseToken(token: string): { id: string; secret: string } | null {
+    const [id, secret] = (token || '').split('.');
+    if (!id || !secret) return null;
+    return { id, secret };
+  }
+
+  /**
+   * Issue a refresh token for a user
+   * Starts a new family unless `familyId` is given. A new family for a device
+   * replaces whatever that device was previously holding.
+   */
+  async issue(
+    userId: string,
+    options: { deviceId?: string; familyId?: string } = {},
+  ): Promise<IssuedRefreshToken> {
+    const supabase = this.supabaseService.getAdminClient();
+    const deviceId = options.deviceId || null;
+
+    if (!options.familyId && deviceId) {
+      await supabase
+        .from('refresh_tokens')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: 'replaced' })
+        .eq('user_id', userId)
+        .eq('device_id', deviceId)
+        .is('revoked_at', null);
+    }
+
+    const id = randomUUID();
+    const secret = randomBytes(32).toString('base64url');
+    const familyId = options.familyId || randomUUID();
+    const expiresAt = new Date(Date.now() + this.getTtlDays() * 24 * 60 * 60 * 1000).toISOString();
+
+    const { error } = await supabase
+      .from('refresh_tokens')
+      .insert({
+        id,
+        user_id: userId,
+        family_id: familyId,
+        device_id: deviceId,
+        token_hash: this.hashSecret(secret),
+        expires_at: expiresAt,
+        created_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      this.logger.error('Error storing refresh token:', error);
+      throw new Error(`Failed to store refresh token: ${error.message}`);
+    }
+
+    return { id, familyId, token: `${id}.${secret}`, expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family
+   * Throws UnauthorizedException for unknown, expired, revoked or reused tokens.
+   */
+  async rotate(
+    token: string,
+    deviceId?: string,
+  ): Promise<{ userId: string; familyId: string; refreshToken: IssuedRefreshToken }> {
+    const parsed = this.parseToken(token);
+    if (!parsed) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: record } = await supabase
+      .from('refresh_tokens')
+      .select('id, user_id, family_id, device_id, token_hash, expires_at, revoked_at, revoked_reason')
+      .eq('id', parsed.id)
+      .maybeSingle();
+
+    if (!record || !this.hashMatches(parsed.secret, record.token_hash)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (record.revoked_at) {
+      if (record.revoked_reason === 'rotated') {
+        this.logger.warn(`🚨 Refresh token reuse detected for user ${record.user_id}, revoking family ${record.family_id}`);
+        await this.revokeFamily(record.family_id, 'reuse_detected');
+        throw new UnauthorizedException('Refresh token reuse detected. Please log in again.');
+      }
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    if (isExpired(record.expires_at)) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    if (record.device_id && deviceId && record.device_id !== deviceId) {
+      throw new UnauthorizedException('Refresh token was issued to a different device');
+    }
+
+    // Claim the token; if another request rotated it first, treat this one as reuse
+    const { data: claimed } = await supabase
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: 'rotated' })
+      .eq('id', record.id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      this.logger.warn(`🚨 Concurrent refresh token rotation for user ${record.user_id}, revoking family ${record.family_id}`);
+      await this.revokeFamily(record.family_id, 'reuse_detected');
+      throw new UnauthorizedException('Refresh token reuse detected. Please log in again.');
+    }
+
+    const refreshToken = await this.issue(record.user_id, {
+      deviceId: record.device_id || undefined,
+      familyId: record.family_id,
+    });
+
+    await supabase
+      .from('refresh_tokens')
+      .update({ replaced_by: refreshToken.id })
+      .eq('id', record.id);
+
+    return { userId: record.user_id, familyId: record.family_id, refreshToken };
+  }
+
+  /**
+   * Revoke every active token in a family
+   */
+  async revokeFamily(familyId: string, reason: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+
+    if (error) {
+      this.logger.error(`Error revoking refresh token family ${familyId}:`, error);
+      throw new Error(`Failed to revoke refresh tokens: ${error.message}`);
+    }
+  }
+
+  /**
+   * Revoke every active refresh token a user holds, on all devices
+   */
+  async revokeAllForUser(userId: string, reason: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (error) {
+      this.logger.error(`Error revoking refresh tokens for user ${userId}:`, error);
+      throw new Error(`Failed to revoke refresh tokens: ${error.message}`);
+    }
+  }
+
+  private hashMatches(secret: string, storedHash: string): boolean {
+    const expected = Buffer.from(storedHash || '', 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+import { createInMemoryRedisService } from '../../test-utils/in-memory-redis';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let results: any[];
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    in: jest.fn(() => mockDbChain),
+    is: jest.fn(() => mockDbChain),
+    order: jest.fn(() => mockDbChain),
+    maybeSingle: jest.fn(() => Promise.resolve(results.shift())),
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(results.shift() || { data: null, error: null }).then(resolve, reject),
+  };
+
+  const mockRefreshTokenService = { revokeFamily: jest.fn() };
+  const mockTokenRevocationService = { revokeSession: jest.fn() };
+
+  beforeEach(async () => {
+    results = [];
+    jest.clearAllMocks();
+    const configService = { get: jest.fn(() => undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: RedisService, useValue: createInMemoryRedisService(configService) },
+        { provide: ConfigService, useValue: configService },
+        { provide: RefreshTokenService, useValue: mockRefreshTokenService },
+        { provide: TokenRevocationService, useValue: mockTokenRevocationService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  it('flags the session making the request as current', async () => {
+    results.push({ data: [{ id: 'session-1' }, { id: 'session-2' }], error: null });
+
+    const sessions = await service.listForUser('user-123', 'session-2');
+
+    expect(sessions).toEqual([
+      { id: 'session-1', current: false },
+      { id: 'session-2', current: true },
+    ]);
+  });
+
+  it('refuses to revoke a session owned by someone else', async () => {
+    results.push({ data: null, error: null });
+
+    await expect(service.revokeForUser('user-123', 'session-9')).rejects.toThrow(NotFoundException);
+    expect(mockRefreshTokenService.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('terminating a session revokes its tokens and its push token', async () => {
+    results.push({ data: [{ push_token_id: 'push-1' }], error: null });
+
+    await service.terminate('session-1', 'logout');
+
+    expect(mockRefreshTokenService.revokeFamily).toHaveBeenCalledWith('session-1', 'logout');
+    expect(mockTokenRevocationService.revokeSession).toHaveBeenCalledWith('session-1');
+    expect(mockDbChain.from).toHaveBeenCalledWith('expo_push_tokens');
+    expect(mockDbChain.in).toHaveBeenCalledWith('id', ['push-1']);
+  });
+
+  it('a new login on a device ends the earlier session of that device and keeps its push token', async () => {
+    results.push(
+      { data: [{ id: 'session-old', push_token_id: 'push-1' }], error: null },
+      { data: [{ push_token_id: null }], error: null },
+    );
+
+    await service.create('user-123', 'session-new', { deviceId: 'device-1' });
+
+    expect(mockRefreshTokenService.revokeFamily).toHaveBeenCalledWith('session-old', 'replaced');
+    expect(mockTokenRevocationService.revokeSession).toHaveBeenCalledWith('session-old');
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ revoked_reason: 'replaced', push_token_id: null }));
+    expect(mockDbChain.from).not.toHaveBeenCalledWith('expo_push_tokens');
+    expect(mockDbChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'session-new', device_id: 'device-1', push_token_id: 'push-1' }),
+    );
+  });
+
+  it('ending all sessions revokes their push tokens', async () => {
+    results.push({ data: [{ push_token_id: 'push-1' }, { push_token_id: null }, { push_token_id: 'push-2' }], error: null });
+
+    await service.markAllRevoked('user-123', 'logout_all');
+
+    expect(mockDbChain.from).toHaveBeenCalledWith('expo_push_tokens');
+    expect(mockDbChain.in).toHaveBeenCalledWith('id', ['push-1', 'push-2']);
+  });
+
+  it('writes last activity at most once per interval', async () => {
+    await service.touch('session-1');
+    await service.touch('session-1');
+
+    expect(mockDbChain.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,266 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { RedisService } from '../../redis/redis.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { TokenRevocationService } from './token-revocation.service';
+
+/**
+ * Where a login came from, captured at verify-otp / signup time
+ */
+export interface LoginContext {
+  deviceId?: string;
+  deviceName?: string;
+  platform?: string;
+  appVersion?: string;
+  osVersion?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const SESSION_COLUMNS =
+  'id, device_id, device_name, platform, app_version, os_version, ip_address, user_agent, push_token_id, active_profile_id, created_at, last_active_at';
+
+// Write last_active_at at most this often per session
+const TOUCH_INTERVAL_SECONDS = 5 * 60;
+
+/**
+ * Logins a user can see and revoke, stored in `user_sessions`
+ *
+ * A session's id is the refresh token family id of the login, which is also
+ * the `sid` claim of every access token issued for it. `active_profile_id` is the
+ * profile the session acts as; refreshed access tokens carry it as `pid`.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly redisService: RedisService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly tokenRevocationService: TokenRevocationService,
+  ) { }
+
+  /**
+   * Record a new login
+   * A login from a device ends any earlier session on that device, as if it had logged out,
+   * but the device's push token moves to the new session instead of being revoked.
+   */
+  async create(userId: string, sessionId: string, context: LoginContext = {}, activeProfileId?: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const now = new Date().toISOString();
+    let pushTokenId: string | null = null;
+
+    if (context.deviceId) {
+      const { data: replaced } = await supabase
+        .from('user_sessions')
+        .select('id, push_token_id')
+        .eq('user_id', userId)
+        .eq('device_id', context.deviceId)
+        .is('revoked_at', null)
+        .order('last_active_at', { ascending: false });
+
+      for (const session of replaced || []) {
+        pushTokenId = pushTokenId || session.push_token_id || null;
+        await this.terminate(session.id, 'replaced', { keepPushToken: true });
+      }
+    }
+
+    const { error } = await supabase
+      .from('user_sessions')
+      .insert({
+        id: sessionId,
+        user_id: userId,
+        device_id: context.deviceId || null,
+        device_name: context.deviceName || null,
+        platform: context.platform || null,
+        app_version: context.appVersion || null,
+        os_version: context.osVersion || null,
+        ip_address: context.ipAddress || null,
+        user_agent: context.userAgent || null,
+        active_profile_id: activeProfileId || null,
+        push_token_id: pushTokenId,
+        created_at: now,
+        last_active_at: now,
+      });
+
+    // The login itself is already valid; a missing session row only hides it from the list
+    if (error) {
+      this.logger.error(`❌ Failed to record session ${sessionId} for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Active sessions for a user, most recently used first
+   */
+  async listForUser(userId: string, currentSessionId?: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('user_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('last_active_at', { ascending: false });
+
+    if (error) {
+      this.logger.error(`❌ Failed to list sessions for user ${userId}:`, error);
+      throw new Error(`Failed to list sessions: ${error.message}`);
+    }
+
+    return (data || []).map((session: any) => ({
+      ...session,
+      current: !!currentSessionId && session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeForUser(userId: string, sessionId: string, reason = 'revoked_by_user'): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: session } = await supabase
+      .from('user_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.terminate(sessionId, reason);
+  }
+
+  /**
+   * Revoke every session of the user except `keepSessionId`
+   */
+  async revokeOthers(userId: string, keepSessionId?: string): Promise<number> {
+    const sessions = await this.listForUser(userId);
+    const others = sessions.filter((session: any) => session.id !== keepSessionId);
+
+    for (const session of others) {
+      await this.terminate(session.id, 'revoked_by_user');
+    }
+
+    this.logger.log(`🚫 Revoked ${others.length} other session(s) for user ${userId}`);
+    return others.length;
+  }
+
+  /**
+   * End a session: its refresh tokens, its access tokens and its push token
+   * With `keepPushToken` the push token is only detached, for a new session to take over.
+   */
+  async terminate(sessionId: string, reason: string, options: { keepPushToken?: boolean } = {}): Promise<void> {
+    await this.refreshTokenService.revokeFamily(sessionId, reason);
+    await this.tokenRevocationService.revokeSession(sessionId);
+
+    const supabase = this.supabaseService.getAdminClient();
+    const updates: Record<string, any> = { revoked_at: new Date().toISOString(), revoked_reason: reason };
+    if (options.keepPushToken) {
+      updates.push_token_id = null;
+    }
+    const { data: revoked } = await supabase
+      .from('user_sessions')
+      .update(updates)
+      .eq('id', sessionId)
+      .is('revoked_at', null)
+      .select('push_token_id');
+
+    const pushTokenIds = (revoked || []).map((row: any) => row.push_token_id).filter(Boolean);
+    if (pushTokenIds.length > 0) {
+      await supabase.from('expo_push_tokens').update({ revoked: true }).in('id', pushTokenIds);
+    }
+
+    this.logger.log(`🚫 Session ${sessionId} ended (${reason})`);
+  }
+
+  /**
+   * Mark every session of the user ended and revoke their push tokens, e.g. after logout-all
+   * Refresh and access token revocation is handled by the caller.
+   */
+  async markAllRevoked(userId: string, reason: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: revoked, error } = await supabase
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('push_token_id');
+
+    if (error) {
+      this.logger.error(`❌ Failed to end sessions for user ${userId}:`, error);
+      return;
+    }
+
+    const pushTokenIds = (revoked || []).map((row: any) => row.push_token_id).filter(Boolean);
+    if (pushTokenIds.length > 0) {
+      await supabase.from('expo_push_tokens').update({ revoked: true }).in('id', pushTokenIds);
+    }
+  }
+
+  /**
+   * Update last activity, throttled to one write per session every few minutes
+   */
+  async touch(sessionId: string): Promise<void> {
+    const key = `auth:session:touched:${sessionId}`;
+    if (await this.redisService.get(key)) {
+      return;
+    }
+    await this.redisService.set(key, '1', TOUCH_INTERVAL_SECONDS);
+
+    const supabase = this.supabaseService.getAdminClient();
+    await supabase
+      .from('user_sessions')
+      .update({ last_active_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+  }
+
+  /**
+   * Profile a session currently acts as, if it has chosen one
+   */
+  async getActiveProfileId(sessionId: string): Promise<string | undefined> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data } = await supabase
+      .from('user_sessions')
+      .select('active_profile_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+    return data?.active_profile_id || undefined;
+  }
+
+  /**
+   * Switch the profile a session acts as
+   */
+  async setActiveProfile(userId: string, sessionId: string, profileId: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('user_sessions')
+      .update({ active_profile_id: profileId })
+      .eq('id', sessionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      this.logger.error(`Error switching profile for session ${sessionId}:`, error);
+      throw new Error(`Failed to switch profile: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attach a registered push token to the session it was registered from
+   */
+  async linkPushToken(userId: string, sessionId: string, pushTokenId: string): Promise<void> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('user_sessions')
+      .update({ push_token_id: pushTokenId })
+      .eq('id', sessionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      this.logger.warn(`⚠️  Could not link push token to session ${sessionId}: ${error.message}`);
+    }
+  }
+}
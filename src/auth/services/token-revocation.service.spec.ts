@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TokenRevocationService } from './token-revocation.service';
+import { RedisService } from '../../redis/redis.service';
+import { createInMemoryRedisService } from '../../test-utils/in-memory-redis';
+
+describe('TokenRevocationService', () => {
+  let service: TokenRevocationService;
+
+  beforeEach(async () => {
+    const configService = { get: jest.fn(() => undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenRevocationService,
+        { provide: RedisService, useValue: createInMemoryRedisService(configService) },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<TokenRevocationService>(TokenRevocationService);
+  });
+
+  it('rejects a denylisted jti only', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    await service.revokeToken('jti-1', exp);
+
+    expect(await service.isRevoked({ sub: 'user-123', jti: 'jti-1' })).toBe(true);
+    expect(await service.isRevoked({ sub: 'user-123', jti: 'jti-2' })).toBe(false);
+  });
+
+  it('rejects tokens issued before a logout-everywhere cutoff', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 60;
+    await service.revokeAllForUser('user-123');
+
+    expect(await service.isRevoked({ sub: 'user-123', jti: 'jti-1', iat: issuedAt })).toBe(true);
+    expect(await service.isRevoked({ sub: 'user-123', jti: 'jti-2', iat: issuedAt + 3600 })).toBe(false);
+    expect(await service.isRevoked({ sub: 'user-456', jti: 'jti-3', iat: issuedAt })).toBe(false);
+  });
+});
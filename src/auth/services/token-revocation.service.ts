@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+
+export interface RevocationCheck {
+  sub: string;
+  jti?: string;
+  sid?: string;
+  iat?: number;
+}
+
+/**
+ * Server-side revocation for access tokens
+ *
+ * - Single tokens are denylisted by `jti` until they would have expired anyway.
+ * - Revoked sessions are denylisted by `sid` for one access token lifetime.
+ * - "Logout everywhere" stores a per-user cutoff: tokens issued at or before it are rejected.
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly logger = new Logger(TokenRevocationService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  /**
+   * Denylist a single access token until its expiry (unix seconds)
+   */
+  async revokeToken(jti: string, exp?: number): Promise<void> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const ttl = exp && exp > nowSeconds ? exp - nowSeconds : this.getAccessTokenTtlSeconds();
+    await this.redisService.set(`auth:revoked:jti:${jti}`, '1', ttl);
+    this.logger.log(`🚫 Access token ${jti} revoked`);
+  }
+
+  /**
+   * Reject every access token issued for a session (login)
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.redisService.set(`auth:revoked:sid:${sessionId}`, '1', this.getAccessTokenTtlSeconds());
+    this.logger.log(`🚫 Access tokens revoked for session ${sessionId}`);
+  }
+
+  /**
+   * Reject every token issued to the user up to now
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    const cutoff = Math.floor(Date.now() / 1000);
+    // Keep the cutoff as long as any token issued before it could still be presented
+    const ttl = Math.max(this.getAccessTokenTtlSeconds(), 24 * 60 * 60);
+    await this.redisService.set(`auth:revoked:user:${userId}`, String(cutoff), ttl);
+    this.logger.log(`🚫 All access tokens revoked for user ${userId}`);
+  }
+
+  async isRevoked(check: RevocationCheck): Promise<boolean> {
+    if (check.jti && (await this.redisService.get(`auth:revoked:jti:${check.jti}`))) {
+      return true;
+    }
+
+    if (check.sid && (await this.redisService.get(`auth:revoked:sid:${check.sid}`))) {
+      return true;
+    }
+
+    const cutoff = await this.redisService.get(`auth:revoked:user:${check.sub}`);
+    if (cutoff && (!check.iat || check.iat <= parseInt(cutoff, 10))) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private getAccessTokenTtlSeconds(): number {
+    return parseInt(this.configService.get<string>('JWT_ACCESS_TOKEN_TTL_SECONDS') || '900', 10);
+  }
+}
@@ -0,0 +1,55 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtStrategy } from './jwt.strategy';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { SessionsService } from '../services/sessions.service';
+import { IdentityCacheService } from '../services/identity-cache.service';
+import { JwtKeyService } from '../services/jwt-key.service';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const identity = {
+    user: { id: 'user-1', phone: '+919876543210' },
+    profiles: [
+      { id: 'artist-1', user_id: 'user-1', role: 'artist', created_at: '2024-01-01T00:00:00.000Z' },
+      { id: 'recruiter-1', user_id: 'user-1', role: 'recruiter', created_at: '2024-02-01T00:00:00.000Z' },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'JWT_SECRET' ? 'test-secret' : undefined)) } },
+        { provide: TokenRevocationService, useValue: { isRevoked: jest.fn(() => Promise.resolve(false)) } },
+        { provide: SessionsService, useValue: { touch: jest.fn(() => Promise.resolve()) } },
+        { provide: IdentityCacheService, useValue: { resolve: jest.fn(() => Promise.resolve(identity)) } },
+        { provide: JwtKeyService, useValue: { getVerificationKey: jest.fn() } },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('acts as the profile named by the token', async () => {
+    const user = await strategy.validate({ sub: 'user-1', pid: 'recruiter-1', type: 'access' });
+    expect(user).toMatchObject({ id: 'user-1', profileId: 'recruiter-1', role: 'recruiter' });
+  });
+
+  it('uses the oldest profile for tokens without a profile claim', async () => {
+    const user = await strategy.validate({ sub: 'user-1', type: 'access' });
+    expect(user.profileId).toBe('artist-1');
+  });
+
+  it('rejects a token naming a profile the user does not own', async () => {
+    await expect(strategy.validate({ sub: 'user-1', pid: 'someone-elses-profile', type: 'access' })).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects tokens that are not access tokens', async () => {
+    await expect(strategy.validate({ sub: 'user-1', type: 'signup' })).rejects.toThrow(UnauthorizedException);
+  });
+});
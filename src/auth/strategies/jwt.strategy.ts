@@ -1,8 +1,12 @@
-import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ForbiddenException, Logger } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { SessionsService } from '../services/sessions.service';
+import { IdentityCacheService } from '../services/identity-cache.service';
+import { JwtKeyService, LEGACY_JWT_ALGORITHM } from '../services/jwt-key.service';
+import { pickActiveProfile } from '../../utils/profile.util';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -10,17 +14,27 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly supabaseService: SupabaseService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly sessionsService: SessionsService,
+    private readonly identityCacheService: IdentityCacheService,
+    jwtKeyService: JwtKeyService,
   ) {
-    const secret = configService.get<string>('JWT_SECRET');
-    if (!secret) {
+    if (!configService.get<string>('JWT_SECRET')) {
       throw new Error('JWT_SECRET is not defined in environment variables');
     }
 
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: secret,
+      // Pick the key named by the token's `kid` (or JWT_SECRET for legacy tokens)
+      secretOrKeyProvider: (_request: any, rawJwtToken: string, done: (err: any, key?: string) => void) => {
+        try {
+          done(null, jwtKeyService.getVerificationKey(rawJwtToken).key);
+        } catch (error) {
+          done(error);
+        }
+      },
+      algorithms: ['RS256', 'ES256', LEGACY_JWT_ALGORITHM],
     });
   }
 
@@ -32,33 +46,48 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Invalid token payload');
     }
 
+    // Signup tokens and other special-purpose tokens must not authenticate API calls
+    if (payload.type && payload.type !== 'access') {
+      this.logger.warn(`⚠️  Rejected ${payload.type} token used as access token`);
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    if (await this.tokenRevocationService.isRevoked({ sub: payload.sub, jti: payload.jti, sid: payload.sid, iat: payload.iat })) {
+      this.logger.warn(`⚠️  Revoked token presented for user: ${payload.sub}`);
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    // Impersonation tokens die with the impersonator's logins too
+    if (payload.act?.sub && (await this.tokenRevocationService.isRevoked({ sub: payload.act.sub, iat: payload.iat }))) {
+      this.logger.warn(`⚠️  Impersonation token of revoked user ${payload.act.sub} presented`);
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    if (payload.sid) {
+      // Activity tracking must never block the request
+      this.sessionsService.touch(payload.sid).catch((err) =>
+        this.logger.debug(`Session touch failed for ${payload.sid}: ${err?.message || err}`),
+      );
+    }
+
     try {
       // payload.sub contains the user ID from the users table
-      // Fetch user and profile from Supabase
-      this.logger.log(`🔍 Fetching user from database: ${payload.sub}`);
-      const supabase = this.supabaseService.getAdminClient();
-      const { data: user, error: userError } = await supabase
-        .from('users')
-        .select('id, phone, email')
-        .eq('id', payload.sub)
-        .single();
-
-      if (userError || !user) {
-        this.logger.error(`❌ User not found: ${payload.sub}`, userError);
+      // User and profiles come from the identity cache, falling back to Supabase
+      const identity = await this.identityCacheService.resolve(payload.sub);
+      if (!identity) {
+        this.logger.error(`❌ User not found: ${payload.sub}`);
         throw new UnauthorizedException('User not found');
       }
 
-      this.logger.log(`✅ User found: ${user.email}`);
+      const { user, profiles } = identity;
 
-      // Fetch associated profile
-      this.logger.log(`🔍 Fetching profile for user: ${user.id}`);
-      const { data: profiles, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, user_id, role, first_name, last_name')
-        .eq('user_id', user.id);
-
-      const profile = profiles && profiles.length > 0 ? profiles[0] : null;
+      // The active profile named by the token (older tokens without `pid` get the oldest profile)
+      const profile = pickActiveProfile(profiles, payload.pid);
 
+      if (!profile && payload.pid) {
+        this.logger.warn(`⚠️  Token of user ${user.id} names profile ${payload.pid} it does not own`);
+        throw new ForbiddenException('The token names a profile this user does not own');
+      }
       if (!profile) {
         this.logger.error(`❌ Profile not found for user: ${user.id}`);
         throw new UnauthorizedException('User profile not found');
@@ -76,8 +105,15 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         phone: user.phone,
         firstName: profile.first_name,
         lastName: profile.last_name,
+        permissions: profile.permissions || [],
+        jti: payload.jti,
+        sessionId: payload.sid,
+        tokenExp: payload.exp,
+        impersonatorId: payload.act?.sub,
+        impersonatorProfileId: payload.act?.pid,
       };
     } catch (error) {
+      if (error instanceof ForbiddenException) throw error;
       this.logger.error(`❌ JWT validation error:`, error);
       throw new UnauthorizedException('Invalid token');
     }
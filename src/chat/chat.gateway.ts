@@ -12,6 +12,7 @@ import { ChatService } from './chat.service';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { Throttle } from '@nestjs/throttler';
+import { pickActiveProfile } from '../utils/profile.util';
 
 // WS payloads
 interface JoinPayload {
@@ -77,7 +78,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         .eq('id', supUser.id)
         .single();
       if (userError || !user) return null;
-      const profile = Array.isArray(user.profiles) ? (user.profiles[0] || null) : user.profiles;
+      const requestedProfileId = (client.handshake.auth as { profileId?: string })?.profileId || client.handshake.headers['x-profile-id']?.toString();
+      const profile = pickActiveProfile(user.profiles, requestedProfileId);
       if (!profile) return null;
       return { userId: user.id, profileId: profile.id };
     } catch (_) {
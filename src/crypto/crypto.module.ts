@@ -0,0 +1,36 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KEY_PROVIDER, KeyProvider } from './key-provider.interface';
+import { LocalFileKeyProvider } from './providers/local-file-key.provider';
+import { FieldEncryptionService } from './field-encryption.service';
+
+/**
+ * Field encryption with the key provider chosen by `FIELD_ENCRYPTION_KEY_PROVIDER`
+ */
+@Global()
+@Module({
+  providers: [
+    LocalFileKeyProvider,
+    {
+      provide: KEY_PROVIDER,
+      useFactory: (configService: ConfigService, local: LocalFileKeyProvider): KeyProvider => {
+        const available: Record<string, KeyProvider> = {
+          [local.name]: local,
+        };
+
+        const name = (configService.get<string>('FIELD_ENCRYPTION_KEY_PROVIDER') || 'local').trim().toLowerCase();
+        const provider = available[name];
+        if (!provider) {
+          throw new Error(
+            `Unknown FIELD_ENCRYPTION_KEY_PROVIDER "${name}". Expected one of: ${Object.keys(available).join(', ')}`,
+          );
+        }
+        return provider;
+      },
+      inject: [ConfigService, LocalFileKeyProvider],
+    },
+    FieldEncryptionService,
+  ],
+  exports: [FieldEncryptionService],
+})
+export class CryptoModule {}
@@ -0,0 +1,108 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { KEY_PROVIDER, KeyProvider } from './key-provider.interface';
+
+const PREFIX = 'enc:v1:';
+
+/**
+ * Mask all but the last `visible` characters, e.g. `********3456`
+ */
+export function maskValue(value: string | null | undefined, visible = 4): string | null {
+  if (!value) return null;
+  return `${'*'.repeat(8)}${value.slice(-visible)}`;
+}
+
+/**
+ * Envelope encryption for individual column values
+ *
+ * Each value gets its own random data key (AES-256-GCM), which is wrapped by the
+ * key provider. Stored format: `enc:v1:{keyId}:{wrappedKey}:{iv}:{tag}:{ciphertext}` (base64url parts).
+ * Values without the prefix are treated as legacy plaintext and returned as they are.
+ */
+@Injectable()
+export class FieldEncryptionService {
+  private readonly logger = new Logger(FieldEncryptionService.name);
+
+  constructor(@Inject(KEY_PROVIDER) private readonly keyProvider: KeyProvider) { }
+
+  isEncrypted(value: unknown): boolean {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    const dataKey = randomBytes(32);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const { keyId, wrappedKey } = await this.keyProvider.wrapKey(dataKey);
+
+    return PREFIX + [
+      keyId,
+      wrappedKey.toString('base64url'),
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join(':');
+  }
+
+  async decrypt(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [keyId, wrappedKey, iv, tag, ciphertext] = value.substring(PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Malformed encrypted value');
+    }
+
+    const dataKey = await this.keyProvider.unwrapKey(keyId, Buffer.from(wrappedKey, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', dataKey, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf-8');
+  }
+
+  /**
+   * Copy of `record` with the given fields encrypted (empty and already encrypted values are left alone)
+   */
+  async encryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): Promise<T> {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      const value = result[field];
+      if (typeof value === 'string' && value && !this.isEncrypted(value)) {
+        result[field] = await this.encrypt(value);
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * Copy of `record` with the given fields decrypted
+   */
+  async decryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): Promise<T> {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      if (typeof result[field] === 'string') {
+        result[field] = await this.decrypt(result[field]);
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * Copy of `record` with the given fields replaced by their masked plaintext
+   * A value that cannot be decrypted is hidden entirely rather than failing the response.
+   */
+  async maskFields<T extends Record<string, any>>(record: T, fields: readonly string[]): Promise<T> {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      if (typeof result[field] !== 'string') continue;
+      try {
+        result[field] = maskValue(await this.decrypt(result[field]));
+      } catch (error: any) {
+        this.logger.error(`Could not decrypt ${field} for masking: ${error?.message || error}`);
+        result[field] = null;
+      }
+    }
+    return result as T;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Injection token for the configured key provider
+ */
+export const KEY_PROVIDER = 'KEY_PROVIDER';
+
+/**
+ * Holds the key-encryption keys (KEKs) used to wrap per-value data keys
+ * Implementations may keep keys locally or delegate wrapping to a KMS.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  /** Wrap a data key with the active KEK */
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }>;
+  /** Unwrap a data key with the KEK it was wrapped with */
+  unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer>;
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { KeyProvider } from '../key-provider.interface';
+
+interface KeyFile {
+  activeKeyId: string;
+  /** Key id -> base64-encoded 32-byte key */
+  keys: Record<string, string>;
+}
+
+/**
+ * KEKs read from a local JSON file (`FIELD_ENCRYPTION_KEY_FILE`)
+ *
+ * File format: `{ "activeKeyId": "k1", "keys": { "k1": "<base64 32 bytes>" } }`.
+ * Rotate by adding a key and pointing `activeKeyId` at it; old keys keep decrypting.
+ * Outside production a missing file is created with a fresh key for local development.
+ */
+@Injectable()
+export class LocalFileKeyProvider implements KeyProvider {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalFileKeyProvider.name);
+  private keyFile?: Promise<KeyFile>;
+
+  constructor(private readonly configService: ConfigService) { }
+
+  private getPath(): string {
+    return this.configService.get<string>('FIELD_ENCRYPTION_KEY_FILE') || '.keys/field-encryption.json';
+  }
+
+  private load(): Promise<KeyFile> {
+    if (!this.keyFile) {
+      this.keyFile = this.readOrCreate().catch((error) => {
+        this.keyFile = undefined;
+        throw error;
+      });
+    }
+    return this.keyFile;
+  }
+
+  private async readOrCreate(): Promise<KeyFile> {
+    const path = this.getPath();
+    try {
+      const parsed = JSON.parse(await fs.readFile(path, 'utf-8')) as KeyFile;
+      if (!parsed.activeKeyId || !parsed.keys?.[parsed.activeKeyId]) {
+        throw new Error(`Key file ${path} has no active key`);
+      }
+      return parsed;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT' || process.env.NODE_ENV === 'production') {
+        throw error;
+      }
+
+      const keyFile: KeyFile = { activeKeyId: 'local-1', keys: { 'local-1': randomBytes(32).toString('base64') } };
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(path, JSON.stringify(keyFile, null, 2), { mode: 0o600 });
+      this.logger.warn(`⚠️  Created development field encryption key file at ${path}`);
+      return keyFile;
+    }
+  }
+
+  private getKey(keyFile: KeyFile, keyId: string): Buffer {
+    const encoded = keyFile.keys[keyId];
+    if (!encoded) {
+      throw new Error(`Unknown field encryption key "${keyId}"`);
+    }
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Field encryption key "${keyId}" must be 32 bytes`);
+    }
+    return key;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }> {
+    const keyFile = await this.load();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(keyFile, keyFile.activeKeyId), iv);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return { keyId: keyFile.activeKeyId, wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]) };
+  }
+
+  async unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    const keyFile = await this.load();
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(keyFile, keyId), wrappedKey.subarray(0, 12));
+    decipher.setAuthTag(wrappedKey.subarray(12, 28));
+    return Buffer.concat([decipher.update(wrappedKey.subarray(28)), decipher.final()]);
+  }
+}
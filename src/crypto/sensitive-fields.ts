@@ -0,0 +1,4 @@
+/**
+ * Columns of `artist_profiles` / `recruiter_profiles` stored encrypted and shown masked
+ */
+export const SENSITIVE_PROFILE_FIELDS = ['aadhar_number'] as const;
@@ -0,0 +1,35 @@
+/**
+ * Injection token for the configured mail transport
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+/**
+ * Transport name a `MAIL_TRANSPORT` value selects (trimmed, lower-cased, `smtp` when unset)
+ */
+export function resolveMailTransportName(value?: string): string {
+  return (value || 'smtp').trim().toLowerCase();
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailSendResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  /** Name of the transport that handled the message */
+  transport?: string;
+}
+
+/**
+ * A way of delivering an email
+ * Implementations should resolve with `success: false` rather than throw on delivery failures.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailSendResult>;
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport, resolveMailTransportName } from './mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileSinkMailTransport } from './transports/file-sink.transport';
+
+/**
+ * Resolves `MAIL_TRANSPORT` from config (`smtp` or `file`)
+ */
+@Module({
+  providers: [
+    SmtpMailTransport,
+    FileSinkMailTransport,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (
+        configService: ConfigService,
+        smtp: SmtpMailTransport,
+        file: FileSinkMailTransport,
+      ): MailTransport => {
+        const available: Record<string, MailTransport> = {
+          [smtp.name]: smtp,
+          [file.name]: file,
+        };
+
+        const name = resolveMailTransportName(configService.get<string>('MAIL_TRANSPORT'));
+        const transport = available[name];
+        if (!transport) {
+          throw new Error(
+            `Unknown MAIL_TRANSPORT "${name}". Expected one of: ${Object.keys(available).join(', ')}`,
+          );
+        }
+        return transport;
+      },
+      inject: [ConfigService, SmtpMailTransport, FileSinkMailTransport],
+    },
+  ],
+  exports: [MAIL_TRANSPORT, FileSinkMailTransport],
+})
+export class MailModule {}
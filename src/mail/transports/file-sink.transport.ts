@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { MailMessage, MailSendResult, MailTransport } from '../mail-transport.interface';
+
+export interface SunkMailMessage extends MailMessage {
+  sentAt: string;
+}
+
+/**
+ * Offline transport for local development and e2e tests
+ *
+ * Messages are logged and, when `MAIL_FILE_SINK` is set, appended to that file
+ * as one JSON object per line so scripts can read codes and links back.
+ */
+@Injectable()
+export class FileSinkMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileSinkMailTransport.name);
+  private readonly sent: SunkMailMessage[] = [];
+
+  constructor(private readonly configService: ConfigService) { }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const entry: SunkMailMessage = { ...message, sentAt: new Date().toISOString() };
+    this.sent.push(entry);
+    this.logger.log(`📧 [file sink] to ${message.to}: ${message.subject}`);
+
+    const sink = this.configService.get<string>('MAIL_FILE_SINK');
+    if (sink) {
+      try {
+        await fs.mkdir(dirname(sink), { recursive: true });
+        await fs.appendFile(sink, `${JSON.stringify(entry)}\n`);
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Failed to write mail file sink: ${error?.message || 'Unknown error'}`,
+          transport: this.name,
+        };
+      }
+    }
+
+    return { success: true, message: `Mail recorded for ${message.to}`, transport: this.name };
+  }
+
+  /**
+   * Messages sent by this process, most recent last
+   */
+  getSentMessages(to?: string): SunkMailMessage[] {
+    return to ? this.sent.filter((entry) => entry.to === to) : [...this.sent];
+  }
+}
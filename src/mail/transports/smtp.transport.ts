@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailSendResult, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Delivers mail through an SMTP relay (`SMTP_HOST`, `SMTP_PORT`, `SMTP_USER`, `SMTP_PASSWORD`)
+ */
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private transporter?: Transporter;
+
+  constructor(private readonly configService: ConfigService) { }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const host = this.configService.get<string>('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST must be configured to send mail over SMTP');
+      }
+
+      const port = parseInt(this.configService.get<string>('SMTP_PORT') || '587', 10);
+      const user = this.configService.get<string>('SMTP_USER');
+      this.transporter = createTransport({
+        host,
+        port,
+        // Port 465 is implicit TLS; other ports upgrade with STARTTLS
+        secure: (this.configService.get<string>('SMTP_SECURE') || String(port === 465)) === 'true',
+        auth: user ? { user, pass: this.configService.get<string>('SMTP_PASSWORD') } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: this.configService.get<string>('MAIL_FROM') || '24Krafts <no-reply@24krafts.com>',
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+
+      return { success: true, message: `Mail accepted (${info.messageId})`, transport: this.name };
+    } catch (error: any) {
+      this.logger.error(`SMTP delivery to ${message.to} failed: ${error?.message || error}`);
+      return {
+        success: false,
+        error: `SMTP delivery failed: ${error?.message || 'Unknown error'}`,
+        transport: this.name,
+      };
+    }
+  }
+}
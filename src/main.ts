@@ -1,5 +1,5 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import morgan from 'morgan';
@@ -68,7 +68,7 @@ async function bootstrap() {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Profile-Id'],
   });
 
   // Global validation pipe
@@ -83,8 +83,10 @@ async function bootstrap() {
   // HTTP request logging
   app.use(morgan('combined'));
 
-  // Global prefix
-  app.setGlobalPrefix('api');
+  // Global prefix (the JWKS document lives at its well-known location)
+  app.setGlobalPrefix('api', {
+    exclude: [{ path: '.well-known/jwks.json', method: RequestMethod.GET }],
+  });
 
   // Swagger API Documentation
   const config = new DocumentBuilder()
@@ -101,7 +103,35 @@ async function bootstrap() {
 
 #### For Existing Users (Login):
 1. **POST /api/auth/send-otp** - Send OTP to phone number
-2. **POST /api/auth/verify-otp** - Verify OTP (returns \`access_token\` with \`isNewUser: false\`)
+2. **POST /api/auth/verify-otp** - Verify OTP (returns \`access_token\` and \`refresh_token\` with \`isNewUser: false\`)
+
+#### Email Login:
+Signup emails a confirmation code and link; confirm it with **POST /api/auth/email/confirm**.
+Users with a verified email can then log in with **POST /api/auth/email/send-otp** followed by **POST /api/auth/email/verify** (code or magic-link token).
+
+#### Refreshing Tokens:
+Access tokens are short-lived. Call **POST /api/auth/refresh** with the latest \`refresh_token\` to get a new pair.
+Refresh tokens rotate on every use; reusing an old one revokes the whole login.
+
+#### Sessions:
+Each login is a session. Send \`deviceId\`, \`deviceName\` and \`platform\` with verify-otp/signup so users can recognise their devices.
+**GET /api/auth/sessions** lists them; **DELETE /api/auth/sessions/:id** and **POST /api/auth/sessions/revoke-others** log devices out.
+
+#### Verifying Tokens in Other Services:
+Access tokens are signed with rotating keys and name theirs in the \`kid\` header.
+Fetch the public keys from **GET /.well-known/jwks.json** instead of sharing a secret.
+
+#### Profiles:
+A user can have an artist and a recruiter profile. Login responses list them in \`profiles\`; requests act as the profile in the access token.
+**POST /api/auth/switch-profile** returns a new \`access_token\` for another of the user's profiles.
+
+#### Impersonation (support):
+Superadmins can act as a user with **POST /api/admin/users/:id/impersonate**. The short-lived token names the superadmin in its \`act\` claim.
+Writes made with it are audited (**GET /api/admin/impersonations**); account deletion, payments and credential changes return 403.
+
+#### API Keys (server-to-server):
+Integrations send an admin-issued key in the \`X-API-Key\` header instead of a user token. Keys are scoped (e.g. \`profiles:read\`),
+rate limited per key, and only accepted by endpoints that list a scope for them.
 
 ### Authorization
 All protected endpoints require a JWT token in the Authorization header:
@@ -121,11 +151,14 @@ Authorization: Bearer <access_token>
       },
       'JWT-auth',
     )
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header', description: 'Integration API key' }, 'api-key')
     .addTag('Health', 'Health check endpoints')
     .addTag('Auth', 'Authentication endpoints - OTP, Login, Signup')
     .addTag('Users', 'User management')
     .addTag('Profiles', 'User profile management')
     .addTag('Posts', 'Posts and project applications')
+    .addTag('Portfolio', 'Artist portfolio albums, images and showreels')
+    .addTag('Reviews', 'Reviews and ratings between project collaborators')
     .addTag('Projects', 'Project management')
     .addTag('Chat', 'Conversations and messaging')
     .addTag('Schedules', 'Schedule management for projects')
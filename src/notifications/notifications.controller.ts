@@ -20,7 +20,7 @@ export class NotificationsController {
   @ApiOperation({ summary: 'Save push token', description: 'Register device for push notifications' })
   @ApiResponse({ status: 200, description: 'Token saved successfully' })
   async saveToken(@CurrentUser() user: any, @Body() dto: SaveTokenDto) {
-    return this.notificationsService.saveToken(user.userId || user.id, dto);
+    return this.notificationsService.saveToken(user.userId || user.id, dto, user.sessionId);
   }
 
   @Post('revoke-token')
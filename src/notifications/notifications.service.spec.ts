@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { NotificationsService } from './notifications.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { SessionsService } from '../auth/services/sessions.service';
 import axios from 'axios';
 
 jest.mock('axios');
@@ -24,12 +25,17 @@ describe('NotificationsService', () => {
     getAdminClient: jest.fn(() => mockDbChain),
   } as any;
 
+  const mockSessionsService = {
+    linkPushToken: jest.fn(),
+  };
+
   beforeEach(async () => {
     (axios.post as any).mockReset();
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         NotificationsService,
         { provide: SupabaseService, useValue: mockSupabaseService },
+        { provide: SessionsService, useValue: mockSessionsService },
       ],
     }).compile();
 
@@ -49,6 +55,12 @@ describe('NotificationsService', () => {
     expect(result.token).toBe('ExpoPushToken[abc]');
   });
 
+  it('saveToken links the token to the calling session', async () => {
+    mockDbChain.single.mockResolvedValueOnce({ data: { id: 'push-1', token: 'ExpoPushToken[abc]' } });
+    await service.saveToken('user-123', { token: 'ExpoPushToken[abc]', platform: 'ios' }, 'session-1');
+    expect(mockSessionsService.linkPushToken).toHaveBeenCalledWith('user-123', 'session-1', 'push-1');
+  });
+
   it('send batches to Expo and revokes invalid tokens', async () => {
     (axios.post as any).mockResolvedValueOnce({
       data: {
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import axios from 'axios';
 import { SupabaseService } from '../supabase/supabase.service';
+import { SessionsService } from '../auth/services/sessions.service';
 import { SaveTokenDto } from './dto/save-token.dto';
 import { RevokeTokenDto } from './dto/revoke-token.dto';
 import { SendPushDto } from './dto/send.dto';
@@ -17,9 +18,16 @@ interface ExpoPushMessage {
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
-  async saveToken(userId: string, dto: SaveTokenDto) {
+  /**
+   * Register a push token; when called from a session, link the token to it
+   * so revoking the session also stops its notifications
+   */
+  async saveToken(userId: string, dto: SaveTokenDto, sessionId?: string) {
     const admin = this.supabaseService.getServiceRoleClient?.() || this.supabaseService.getAdminClient();
     const now = new Date().toISOString();
     const payload = {
@@ -41,6 +49,9 @@ export class NotificationsService {
       .select('*')
       .single();
     if (error) throw error;
+    if (sessionId && data?.id) {
+      await this.sessionsService.linkPushToken(userId, sessionId, data.id);
+    }
     return data;
   }
 
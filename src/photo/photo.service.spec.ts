@@ -237,6 +237,41 @@ describe('PhotoService', () => {
     });
   });
 
+  describe('uploadPortfolioImageFromBase64', () => {
+    it('should upload to the private bucket under an unguessable path', async () => {
+      mockSupabaseClient.storage.upload = jest.fn().mockResolvedValue({
+        data: {},
+        error: null,
+      });
+      jest.spyOn(sharp.prototype, 'resize').mockReturnThis();
+      jest.spyOn(sharp.prototype, 'jpeg').mockReturnThis();
+      jest
+        .spyOn(sharp.prototype, 'toBuffer')
+        .mockResolvedValue(Buffer.from('processed'));
+
+      const path = await service.uploadPortfolioImageFromBase64('/9j/4AAQSkZJRg==', 'profile-123');
+
+      expect(path).toMatch(/^profile-123\/[0-9a-f-]{36}\.jpg$/);
+      expect(mockSupabaseClient.storage.from).toHaveBeenCalledWith('portfolio-private');
+      expect(mockSupabaseClient.storage.getPublicUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signPortfolioImages', () => {
+    it('should return signed URLs keyed by path', async () => {
+      mockSupabaseClient.storage.createSignedUrls = jest.fn().mockResolvedValue({
+        data: [{ path: 'profile-123/a.jpg', signedUrl: 'https://example.com/sign/a.jpg?token=t', error: null }],
+        error: null,
+      });
+
+      const signed = await service.signPortfolioImages(['profile-123/a.jpg']);
+
+      expect(mockSupabaseClient.storage.from).toHaveBeenCalledWith('portfolio-private');
+      expect(mockSupabaseClient.storage.createSignedUrls).toHaveBeenCalledWith(['profile-123/a.jpg'], 3600);
+      expect(signed.get('profile-123/a.jpg')).toBe('https://example.com/sign/a.jpg?token=t');
+    });
+  });
+
   describe('deleteImage', () => {
     it('should delete image from storage', async () => {
       const path = 'test/image.jpg';
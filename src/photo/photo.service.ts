@@ -1,4 +1,5 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { SupabaseService } from '../supabase/supabase.service';
 import sharp from 'sharp';
 
@@ -11,11 +12,16 @@ import sharp from 'sharp';
  * - Posts: posts/{postId}/{timestamp}_{filename}
  * - Projects: projects/{projectId}/{timestamp}_{filename}
  * - Chat: chats/{chatId}/{timestamp}_{filename}
+ *
+ * Portfolio images go to the private 'portfolio-private' bucket as {profileId}/{uuid}.jpg
+ * and are only served through short-lived signed URLs, since some are not public.
  */
 @Injectable()
 export class PhotoService {
   private readonly logger = new Logger(PhotoService.name);
   private readonly BUCKET = 'photos';
+  private readonly PORTFOLIO_BUCKET = 'portfolio-private';
+  private readonly SIGNED_URL_TTL_SECONDS = 60 * 60;
   private readonly MAX_SIZE_MB = 6;
   private readonly MAX_SIZE_BYTES = this.MAX_SIZE_MB * 1024 * 1024;
 
@@ -33,30 +39,9 @@ export class PhotoService {
     destPath: string,
     contentType: string,
   ): Promise<string> {
-    if (buffer.length > this.MAX_SIZE_BYTES) {
-      throw new BadRequestException(
-        `Image size exceeds ${this.MAX_SIZE_MB}MB limit`,
-      );
-    }
+    await this.storeBuffer(this.BUCKET, buffer, destPath, contentType);
 
     const supabase = this.supabaseService.getAdminClient();
-
-    this.logger.log(
-      `📤 Uploading to bucket: ${this.BUCKET}/${destPath} (${(buffer.length / 1024).toFixed(2)} KB)`,
-    );
-
-    const { data, error } = await supabase.storage
-      .from(this.BUCKET)
-      .upload(destPath, buffer, {
-        contentType,
-        upsert: true,
-      });
-
-    if (error) {
-      this.logger.error(`❌ Upload failed: ${error.message}`, error);
-      throw new BadRequestException(`Failed to upload image: ${error.message}`);
-    }
-
     const { data: publicData } = supabase.storage
       .from(this.BUCKET)
       .getPublicUrl(destPath);
@@ -161,6 +146,62 @@ export class PhotoService {
     }
   }
 
+  private async storeBuffer(bucket: string, buffer: Buffer, destPath: string, contentType: string): Promise<void> {
+    if (buffer.length > this.MAX_SIZE_BYTES) {
+      throw new BadRequestException(
+        `Image size exceeds ${this.MAX_SIZE_MB}MB limit`,
+      );
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+
+    this.logger.log(
+      `📤 Uploading to bucket: ${bucket}/${destPath} (${(buffer.length / 1024).toFixed(2)} KB)`,
+    );
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(destPath, buffer, {
+        contentType,
+        upsert: true,
+      });
+
+    if (error) {
+      this.logger.error(`❌ Upload failed: ${error.message}`, error);
+      throw new BadRequestException(`Failed to upload image: ${error.message}`);
+    }
+  }
+
+  /**
+   * Upload a portfolio image (headshot, still) from base64 to the private portfolio bucket
+   * Kept larger than other images since casting teams look at the detail.
+   * @returns Storage path of the image; see signPortfolioImages
+   */
+  async uploadPortfolioImageFromBase64(
+    base64Data: string,
+    profileId: string,
+  ): Promise<string> {
+    try {
+      const normalized = base64Data
+        .trim()
+        .replace(/^data:image\/[a-z]+;base64,/, '')
+        .replace(/\s+/g, '');
+
+      const buffer = Buffer.from(normalized, 'base64');
+      const processedBuffer = await sharp(buffer)
+        .resize(2048, 2048, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+
+      const destPath = `${profileId}/${randomUUID()}.jpg`;
+      await this.storeBuffer(this.PORTFOLIO_BUCKET, processedBuffer, destPath, 'image/jpeg');
+      return destPath;
+    } catch (error) {
+      this.logger.error('Failed to process base64 portfolio image', error);
+      throw new BadRequestException('Invalid base64 image data');
+    }
+  }
+
   /**
    * Upload project image
    */
@@ -271,13 +312,95 @@ export class PhotoService {
     }
   }
 
+  /**
+   * List image paths stored directly under a folder (e.g. 'profiles/{userId}')
+   */
+  async listImages(folder: string): Promise<string[]> {
+    return this.listObjects(this.BUCKET, folder);
+  }
+
+  /**
+   * Storage paths of every portfolio image of a profile
+   */
+  async listPortfolioImages(profileId: string): Promise<string[]> {
+    return this.listObjects(this.PORTFOLIO_BUCKET, profileId);
+  }
+
+  /**
+   * Signed URLs for portfolio images, keyed by storage path
+   * They expire after an hour, so hiding an item stops new viewers right away and old links soon after.
+   */
+  async signPortfolioImages(paths: string[]): Promise<Map<string, string>> {
+    const signed = new Map<string, string>();
+    if (paths.length === 0) return signed;
+
+    const { data, error } = await this.supabaseService.getAdminClient().storage
+      .from(this.PORTFOLIO_BUCKET)
+      .createSignedUrls(paths, this.SIGNED_URL_TTL_SECONDS);
+
+    if (error) {
+      this.logger.error('Failed to sign portfolio images', error);
+      throw new BadRequestException(`Failed to sign portfolio images: ${error.message}`);
+    }
+
+    for (const entry of data || []) {
+      if (entry.path && entry.signedUrl) signed.set(entry.path, entry.signedUrl);
+    }
+    return signed;
+  }
+
+  /**
+   * Delete a portfolio image from the private bucket
+   */
+  async deletePortfolioImage(path: string): Promise<void> {
+    await this.removeObject(this.PORTFOLIO_BUCKET, path);
+  }
+
+  private async listObjects(bucket: string, folder: string): Promise<string[]> {
+    const supabase = this.supabaseService.getAdminClient();
+    const prefix = folder.replace(/\/+$/, '');
+    const paths: string[] = [];
+    const pageSize = 100;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .list(prefix, { limit: pageSize, offset });
+
+      if (error) {
+        this.logger.error(`Failed to list images in ${prefix}`, error);
+        throw new BadRequestException(`Failed to list images: ${error.message}`);
+      }
+
+      // Folder placeholders have no id
+      paths.push(...(data || []).filter((item) => item.id).map((item) => `${prefix}/${item.name}`));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return paths;
+  }
+
+  /**
+   * Storage path of a public URL from this bucket, or null for any other URL
+   */
+  pathFromPublicUrl(url: string): string | null {
+    const marker = `/storage/v1/object/public/${this.BUCKET}/`;
+    const index = (url || '').indexOf(marker);
+    if (index === -1) return null;
+    return decodeURIComponent(url.substring(index + marker.length).split('?')[0]);
+  }
+
   /**
    * Delete an image from storage
    */
   async deleteImage(path: string): Promise<void> {
+    await this.removeObject(this.BUCKET, path);
+  }
+
+  private async removeObject(bucket: string, path: string): Promise<void> {
     const supabase = this.supabaseService.getAdminClient();
 
-    const { error } = await supabase.storage.from(this.BUCKET).remove([path]);
+    const { error } = await supabase.storage.from(bucket).remove([path]);
 
     if (error) {
       this.logger.error(`Failed to delete image: ${path}`, error);
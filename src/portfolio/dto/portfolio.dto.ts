@@ -0,0 +1,132 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsIn,
+  IsArray,
+  IsUUID,
+  IsUrl,
+  MaxLength,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Who sees an album or item: everyone, recruiters (and admins), or only the owner */
+export const PORTFOLIO_VISIBILITIES = ['public', 'recruiters', 'private'] as const;
+
+export type PortfolioVisibility = (typeof PORTFOLIO_VISIBILITIES)[number];
+
+export const PORTFOLIO_ITEM_TYPES = ['image', 'video'] as const;
+
+export type PortfolioItemType = (typeof PORTFOLIO_ITEM_TYPES)[number];
+
+export class CreateAlbumDto {
+  @ApiProperty({ description: 'Album title', example: 'Showreel 2024' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Album description', example: 'Scenes from recent feature films' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Who can see the album', enum: PORTFOLIO_VISIBILITIES, example: 'public' })
+  @IsOptional()
+  @IsIn(PORTFOLIO_VISIBILITIES)
+  visibility?: PortfolioVisibility;
+}
+
+export class UpdateAlbumDto {
+  @ApiPropertyOptional({ description: 'Album title' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Album description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Who can see the album', enum: PORTFOLIO_VISIBILITIES })
+  @IsOptional()
+  @IsIn(PORTFOLIO_VISIBILITIES)
+  visibility?: PortfolioVisibility;
+
+  @ApiPropertyOptional({ description: 'Image item to use as the cover; null clears it', example: 'uuid', nullable: true })
+  @IsOptional()
+  @IsUUID()
+  coverItemId?: string | null;
+}
+
+export class AddPortfolioItemDto {
+  @ApiProperty({ description: 'Item type', enum: PORTFOLIO_ITEM_TYPES, example: 'image' })
+  @IsIn(PORTFOLIO_ITEM_TYPES)
+  type: PortfolioItemType;
+
+  @ApiPropertyOptional({ description: 'Base64 encoded image (image items)', example: 'data:image/jpeg;base64,...' })
+  @ValidateIf((dto) => dto.type === 'image')
+  @IsString()
+  @IsNotEmpty()
+  image?: string;
+
+  @ApiPropertyOptional({ description: 'Video link on YouTube, Vimeo, Instagram or Google Drive (video items)', example: 'https://youtu.be/dQw4w9WgXcQ' })
+  @ValidateIf((dto) => dto.type === 'video')
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  url?: string;
+
+  @ApiPropertyOptional({ description: 'Caption', example: 'Lead role, "Monsoon" (2024)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  caption?: string;
+
+  @ApiPropertyOptional({ description: 'Tags (up to 20)', type: [String], example: ['drama', 'lead'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(30, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ description: 'Who can see the item', enum: PORTFOLIO_VISIBILITIES, example: 'public' })
+  @IsOptional()
+  @IsIn(PORTFOLIO_VISIBILITIES)
+  visibility?: PortfolioVisibility;
+}
+
+export class UpdatePortfolioItemDto {
+  @ApiPropertyOptional({ description: 'Caption' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  caption?: string;
+
+  @ApiPropertyOptional({ description: 'Tags (replaces the existing ones)', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(30, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ description: 'Who can see the item', enum: PORTFOLIO_VISIBILITIES })
+  @IsOptional()
+  @IsIn(PORTFOLIO_VISIBILITIES)
+  visibility?: PortfolioVisibility;
+}
+
+export class ReorderPortfolioDto {
+  @ApiProperty({ description: 'Every album (or item) id, in the new order', type: [String], example: ['uuid-1', 'uuid-2'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  ids: string[];
+}
@@ -0,0 +1,187 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiSecurity } from '@nestjs/swagger';
+import { PortfolioService } from './portfolio.service';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PortfolioProfileLoader } from './portfolio.loaders';
+import {
+  AddPortfolioItemDto,
+  CreateAlbumDto,
+  ReorderPortfolioDto,
+  UpdateAlbumDto,
+  UpdatePortfolioItemDto,
+} from './dto/portfolio.dto';
+
+const MANAGE_PORTFOLIO = { loader: PortfolioProfileLoader, message: 'You can only manage your own portfolio' };
+
+@ApiTags('Portfolio')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('profiles/:profileId/portfolio')
+@UseGuards(ApiKeyOrJwtGuard, PoliciesGuard)
+export class PortfolioController {
+  private readonly logger = new Logger(PortfolioController.name);
+
+  constructor(private readonly portfolioService: PortfolioService) {}
+
+  @Get()
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({
+    summary: 'Get portfolio',
+    description:
+      'Albums and items of a profile in display order. Owners see everything, recruiters also see recruiter-only items. ' +
+      'Image URLs are signed and expire after an hour.',
+  })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Portfolio returned successfully',
+    schema: {
+      example: {
+        profileId: 'uuid',
+        albums: [
+          {
+            id: 'uuid',
+            title: 'Showreel 2024',
+            visibility: 'public',
+            coverItemId: 'uuid',
+            coverUrl: 'https://...supabase.co/storage/v1/object/sign/portfolio-private/uuid/uuid.jpg?token=...',
+            orderIndex: 0,
+            items: [
+              { id: 'uuid', type: 'image', url: 'https://...', caption: 'On set', tags: ['drama'], visibility: 'public', orderIndex: 0 },
+              { id: 'uuid', type: 'video', url: 'https://youtu.be/dQw4w9WgXcQ', caption: null, tags: [], visibility: 'recruiters', orderIndex: 1 },
+            ],
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async getPortfolio(@Param('profileId') profileId: string, @CurrentUser() user: any) {
+    this.logger.log(`🌐 GET /profiles/${profileId}/portfolio`);
+    return this.portfolioService.getPortfolio(profileId, user);
+  }
+
+  @Post('albums')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Create album', description: 'Add an album to the end of your portfolio' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiResponse({ status: 201, description: 'Album created successfully' })
+  @ApiResponse({ status: 400, description: 'Validation error or album limit reached' })
+  @ApiResponse({ status: 403, description: 'Not your portfolio' })
+  async createAlbum(@Param('profileId') profileId: string, @Body() dto: CreateAlbumDto) {
+    return this.portfolioService.createAlbum(profileId, dto);
+  }
+
+  // Specific routes MUST come before dynamic :albumId routes
+  @Put('albums/order')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Reorder albums', description: 'Send every album id in the new order' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiResponse({ status: 200, description: 'Albums reordered successfully' })
+  @ApiResponse({ status: 400, description: 'ids do not match the albums' })
+  async reorderAlbums(@Param('profileId') profileId: string, @Body() dto: ReorderPortfolioDto) {
+    return this.portfolioService.reorderAlbums(profileId, dto.ids);
+  }
+
+  @Put('albums/:albumId')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Update album', description: 'Change the title, description, visibility or cover image' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'albumId', description: 'Album UUID' })
+  @ApiResponse({ status: 200, description: 'Album updated successfully' })
+  @ApiResponse({ status: 404, description: 'Album not found' })
+  async updateAlbum(
+    @Param('profileId') profileId: string,
+    @Param('albumId') albumId: string,
+    @Body() dto: UpdateAlbumDto,
+  ) {
+    return this.portfolioService.updateAlbum(profileId, albumId, dto);
+  }
+
+  @Delete('albums/:albumId')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Delete album', description: 'Delete an album with all its items' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'albumId', description: 'Album UUID' })
+  @ApiResponse({ status: 200, description: 'Album deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Album not found' })
+  async deleteAlbum(@Param('profileId') profileId: string, @Param('albumId') albumId: string) {
+    return this.portfolioService.deleteAlbum(profileId, albumId);
+  }
+
+  @Post('albums/:albumId/items')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({
+    summary: 'Add item',
+    description: 'Upload an image (base64) or link a video on YouTube, Vimeo, Instagram or Google Drive. The first image becomes the album cover.',
+  })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'albumId', description: 'Album UUID' })
+  @ApiResponse({ status: 201, description: 'Item added successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid image, unsupported video host or item limit reached' })
+  @ApiResponse({ status: 404, description: 'Album not found' })
+  async addItem(
+    @Param('profileId') profileId: string,
+    @Param('albumId') albumId: string,
+    @Body() dto: AddPortfolioItemDto,
+  ) {
+    this.logger.log(`🌐 POST /profiles/${profileId}/portfolio/albums/${albumId}/items - type: ${dto.type}`);
+    return this.portfolioService.addItem(profileId, albumId, dto);
+  }
+
+  @Put('albums/:albumId/items/order')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Reorder items', description: 'Send every item id of the album in the new order' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'albumId', description: 'Album UUID' })
+  @ApiResponse({ status: 200, description: 'Items reordered successfully' })
+  @ApiResponse({ status: 400, description: 'ids do not match the album\'s items' })
+  async reorderItems(
+    @Param('profileId') profileId: string,
+    @Param('albumId') albumId: string,
+    @Body() dto: ReorderPortfolioDto,
+  ) {
+    return this.portfolioService.reorderItems(profileId, albumId, dto.ids);
+  }
+
+  @Put('items/:itemId')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Update item', description: 'Change the caption, tags or visibility of an item' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'itemId', description: 'Item UUID' })
+  @ApiResponse({ status: 200, description: 'Item updated successfully' })
+  @ApiResponse({ status: 404, description: 'Portfolio item not found' })
+  async updateItem(
+    @Param('profileId') profileId: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: UpdatePortfolioItemDto,
+  ) {
+    return this.portfolioService.updateItem(profileId, itemId, dto);
+  }
+
+  @Delete('items/:itemId')
+  @CheckPolicy(Policies.managePortfolio, MANAGE_PORTFOLIO)
+  @ApiOperation({ summary: 'Delete item', description: 'Delete an item and its stored image' })
+  @ApiParam({ name: 'profileId', description: 'Profile UUID' })
+  @ApiParam({ name: 'itemId', description: 'Item UUID' })
+  @ApiResponse({ status: 200, description: 'Item deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Portfolio item not found' })
+  async deleteItem(@Param('profileId') profileId: string, @Param('itemId') itemId: string) {
+    return this.portfolioService.deleteItem(profileId, itemId);
+  }
+}
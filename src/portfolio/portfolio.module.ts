@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PortfolioController } from './portfolio.controller';
+import { PortfolioService } from './portfolio.service';
+import { PortfolioProfileLoader } from './portfolio.loaders';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { PhotoModule } from '../photo/photo.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [SupabaseModule, PhotoModule, AuthModule],
+  controllers: [PortfolioController],
+  providers: [PortfolioService, PortfolioProfileLoader],
+  exports: [PortfolioService],
+})
+export class PortfolioModule {}
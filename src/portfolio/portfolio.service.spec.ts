@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PortfolioService } from './portfolio.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PhotoService } from '../photo/photo.service';
+import { createQueuedDbChain } from '../test-utils/queued-db-chain';
+
+describe('PortfolioService', () => {
+  let service: PortfolioService;
+  let results: any[];
+
+  const mockDbChain = createQueuedDbChain(() => results);
+
+  const photoService = {
+    uploadPortfolioImageFromBase64: jest.fn((_data: string, profileId: string) => Promise.resolve(`${profileId}/abc.jpg`)),
+    signPortfolioImages: jest.fn((paths: string[]) =>
+      Promise.resolve(new Map(paths.map((path) => [path, `https://x.supabase.co/storage/v1/object/sign/portfolio-private/${path}?token=t`])))),
+    deletePortfolioImage: jest.fn(() => Promise.resolve()),
+  };
+
+  const album = { id: 'album-1', profile_id: 'artist-1', visibility: 'public', cover_item_id: null };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    results = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PortfolioService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: PhotoService, useValue: photoService },
+      ],
+    }).compile();
+
+    service = module.get<PortfolioService>(PortfolioService);
+  });
+
+  it('shows recruiters recruiter-only items but not private ones', async () => {
+    results = [
+      { data: { id: 'artist-1' } },
+      { data: [album], error: null },
+      {
+        data: [
+          { id: 'item-1', album_id: 'album-1', type: 'image', url: null, storage_path: 'artist-1/abc.jpg', tags: null },
+          { id: 'item-2', album_id: 'album-1', type: 'video', url: 'https://youtu.be/x', storage_path: null, tags: null },
+        ],
+        error: null,
+      },
+    ];
+
+    const portfolio = await service.getPortfolio('artist-1', { id: 'user-2', profileId: 'recruiter-1', role: 'recruiter' });
+
+    expect(mockDbChain.in).toHaveBeenCalledWith('visibility', ['public', 'recruiters']);
+    const signedUrl = 'https://x.supabase.co/storage/v1/object/sign/portfolio-private/artist-1/abc.jpg?token=t';
+    expect(portfolio.albums[0]).toMatchObject({
+      id: 'album-1',
+      coverUrl: signedUrl,
+      items: [{ id: 'item-1', url: signedUrl, tags: [] }, { id: 'item-2', url: 'https://youtu.be/x' }],
+    });
+  });
+
+  it('only signs images of items the viewer may see', async () => {
+    results = [{ data: { id: 'artist-1' } }, { data: [album], error: null }, { data: [], error: null }];
+
+    await service.getPortfolio('artist-1', { role: 'api_key' });
+
+    expect(photoService.signPortfolioImages).toHaveBeenCalledWith([]);
+  });
+
+  it('shows owners everything and anonymous callers only public items', async () => {
+    results = [{ data: { id: 'artist-1' } }, { data: [], error: null }];
+    await service.getPortfolio('artist-1', { id: 'user-1', profileId: 'artist-1', role: 'artist' });
+    expect(mockDbChain.in).toHaveBeenLastCalledWith('visibility', ['public', 'recruiters', 'private']);
+
+    results = [{ data: { id: 'artist-1' } }, { data: [], error: null }];
+    await service.getPortfolio('artist-1', { role: 'api_key' });
+    expect(mockDbChain.in).toHaveBeenLastCalledWith('visibility', ['public']);
+  });
+
+  it('uploads images through PhotoService, makes the first one the cover and normalises tags', async () => {
+    results = [
+      { data: album },
+      { count: 0 },
+      { data: { id: 'item-1', album_id: 'album-1', type: 'image', storage_path: 'artist-1/abc.jpg', tags: ['drama', 'lead'] }, error: null },
+    ];
+
+    const item = await service.addItem('artist-1', 'album-1', { type: 'image', image: 'iVBORw0KGgo=', tags: [' Drama', 'drama', 'Lead '] });
+
+    expect(photoService.uploadPortfolioImageFromBase64).toHaveBeenCalledWith('iVBORw0KGgo=', 'artist-1');
+    expect(mockDbChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ url: null, storage_path: 'artist-1/abc.jpg', tags: ['drama', 'lead'], visibility: 'public', order_index: 0 }),
+    );
+    expect(item.url).toContain('/object/sign/portfolio-private/artist-1/abc.jpg');
+    expect(mockDbChain.update).toHaveBeenCalledWith({ cover_item_id: 'item-1' });
+    expect(mockDbChain.is).toHaveBeenCalledWith('cover_item_id', null);
+  });
+
+  it('deletes the upload when the item cannot be saved', async () => {
+    results = [{ data: album }, { count: 0 }, { data: null, error: { message: 'boom' } }];
+
+    await expect(service.addItem('artist-1', 'album-1', { type: 'image', image: 'iVBORw0KGgo=' })).rejects.toThrow(BadRequestException);
+
+    expect(photoService.deletePortfolioImage).toHaveBeenCalledWith('artist-1/abc.jpg');
+  });
+
+  it('only accepts videos on known hosts', async () => {
+    results = [{ data: album }, { count: 0 }];
+
+    await expect(
+      service.addItem('artist-1', 'album-1', { type: 'video', url: 'https://example.com/reel.mp4' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects an order that does not list every album once', async () => {
+    results = [{ data: [{ id: 'a' }, { id: 'b' }], error: null }];
+
+    await expect(service.reorderAlbums('artist-1', ['a', 'a'])).rejects.toThrow(BadRequestException);
+    expect(mockDbChain.update).not.toHaveBeenCalled();
+  });
+});
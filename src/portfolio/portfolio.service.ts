@@ -0,0 +1,451 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PhotoService } from '../photo/photo.service';
+import { Ability, PolicySubject } from '../auth/policies/ability';
+import { Permissions } from '../auth/policies/permissions';
+import {
+  AddPortfolioItemDto,
+  CreateAlbumDto,
+  PortfolioVisibility,
+  UpdateAlbumDto,
+  UpdatePortfolioItemDto,
+} from './dto/portfolio.dto';
+
+const MAX_ALBUMS_PER_PROFILE = 20;
+const MAX_ITEMS_PER_ALBUM = 50;
+
+/** Hosts video items may link to (subdomains such as www. and m. included) */
+const VIDEO_HOSTS = ['youtube.com', 'youtu.be', 'vimeo.com', 'instagram.com', 'drive.google.com'];
+
+const ALBUM_COLUMNS = 'id, profile_id, title, description, visibility, cover_item_id, order_index, created_at, updated_at';
+const ITEM_COLUMNS = 'id, album_id, profile_id, type, url, storage_path, caption, tags, visibility, order_index, created_at';
+
+/**
+ * Portfolio galleries and showreels of artist profiles
+ *
+ * A profile has ordered albums (`portfolio_albums`), each holding ordered image and video
+ * items (`portfolio_items`). Images are uploaded to a private bucket through PhotoService
+ * (`storage_path`) and handed out as signed URLs only to viewers who may see them, so changing
+ * an item's visibility takes effect without moving the file; videos are links to a known host
+ * (`url`). Albums and items each have a visibility, and an item is only shown when its album is.
+ */
+@Injectable()
+export class PortfolioService {
+  private readonly logger = new Logger(PortfolioService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly photoService: PhotoService,
+  ) {}
+
+  /**
+   * Visibilities `viewer` may see on `profileId`'s portfolio
+   * Owners and admins see everything, recruiters also see recruiter-only items.
+   */
+  private visibleTo(profileId: string, viewer?: PolicySubject): PortfolioVisibility[] {
+    const ability = new Ability(viewer || {});
+    if (ability.ownsProfile(profileId) || ability.can(Permissions.PORTFOLIO_MANAGE_ANY)) {
+      return ['public', 'recruiters', 'private'];
+    }
+    if (viewer?.role === 'recruiter') {
+      return ['public', 'recruiters'];
+    }
+    return ['public'];
+  }
+
+  /**
+   * The albums and items of a profile that `viewer` may see, in display order
+   */
+  async getPortfolio(profileId: string, viewer?: PolicySubject) {
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    if (!profile) {
+      throw new NotFoundException('Profile not found');
+    }
+
+    const visibilities = this.visibleTo(profileId, viewer);
+
+    const { data: albums, error: albumsError } = await supabase
+      .from('portfolio_albums')
+      .select(ALBUM_COLUMNS)
+      .eq('profile_id', profileId)
+      .in('visibility', visibilities)
+      .order('order_index', { ascending: true });
+
+    if (albumsError) {
+      throw new BadRequestException(`Failed to fetch portfolio: ${albumsError.message}`);
+    }
+
+    if (!albums.length) {
+      return { profileId, albums: [] };
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('portfolio_items')
+      .select(ITEM_COLUMNS)
+      .in('album_id', albums.map((album: any) => album.id))
+      .in('visibility', visibilities)
+      .order('order_index', { ascending: true });
+
+    if (itemsError) {
+      throw new BadRequestException(`Failed to fetch portfolio: ${itemsError.message}`);
+    }
+
+    const visibleItems = await this.withUrls(items);
+
+    return {
+      profileId,
+      albums: albums.map((album: any) => {
+        const albumItems = visibleItems.filter((item) => item.albumId === album.id);
+        // A hidden cover falls back to the first visible image
+        const cover = albumItems.find((item) => item.id === album.cover_item_id)
+          || albumItems.find((item) => item.type === 'image');
+        return {
+          ...this.toAlbum(album),
+          coverUrl: cover?.url || null,
+          items: albumItems,
+        };
+      }),
+    };
+  }
+
+  async createAlbum(profileId: string, dto: CreateAlbumDto) {
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { count } = await supabase
+      .from('portfolio_albums')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', profileId);
+
+    if ((count || 0) >= MAX_ALBUMS_PER_PROFILE) {
+      throw new BadRequestException(`A portfolio can have at most ${MAX_ALBUMS_PER_PROFILE} albums`);
+    }
+
+    const { data: album, error } = await supabase
+      .from('portfolio_albums')
+      .insert({
+        profile_id: profileId,
+        title: dto.title.trim(),
+        description: dto.description ?? null,
+        visibility: dto.visibility || 'public',
+        order_index: count || 0,
+      })
+      .select(ALBUM_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to create album: ${error.message}`);
+    }
+
+    this.logger.log(`🖼️  Created portfolio album ${album.id} for profile ${profileId}`);
+    return this.toAlbum(album);
+  }
+
+  async updateAlbum(profileId: string, albumId: string, dto: UpdateAlbumDto) {
+    await this.findAlbum(profileId, albumId);
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (dto.title !== undefined) updates.title = dto.title.trim();
+    if (dto.description !== undefined) updates.description = dto.description;
+    if (dto.visibility !== undefined) updates.visibility = dto.visibility;
+
+    if (dto.coverItemId !== undefined) {
+      if (dto.coverItemId !== null) {
+        const item = await this.findItem(profileId, dto.coverItemId);
+        if (item.album_id !== albumId || item.type !== 'image') {
+          throw new BadRequestException('The cover must be an image in this album');
+        }
+      }
+      updates.cover_item_id = dto.coverItemId;
+    }
+
+    const { data: album, error } = await this.supabaseService.getAdminClient()
+      .from('portfolio_albums')
+      .update(updates)
+      .eq('id', albumId)
+      .select(ALBUM_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update album: ${error.message}`);
+    }
+    return this.toAlbum(album);
+  }
+
+  /**
+   * Delete an album with its items, then their images (best effort)
+   */
+  async deleteAlbum(profileId: string, albumId: string) {
+    await this.findAlbum(profileId, albumId);
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: items } = await supabase
+      .from('portfolio_items')
+      .select('id, type, storage_path')
+      .eq('album_id', albumId);
+
+    // Items go with the album (on delete cascade)
+    const { error } = await supabase
+      .from('portfolio_albums')
+      .delete()
+      .eq('id', albumId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to delete album: ${error.message}`);
+    }
+
+    await Promise.all((items || []).map((item: any) => this.deleteStoredImage(item)));
+
+    this.logger.log(`🗑️  Deleted portfolio album ${albumId} (${items?.length || 0} items)`);
+    return { success: true };
+  }
+
+  async reorderAlbums(profileId: string, ids: string[]) {
+    const { data: albums, error } = await this.supabaseService.getAdminClient()
+      .from('portfolio_albums')
+      .select('id')
+      .eq('profile_id', profileId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to reorder albums: ${error.message}`);
+    }
+
+    await this.applyOrder('portfolio_albums', albums, ids);
+    return { success: true };
+  }
+
+  async addItem(profileId: string, albumId: string, dto: AddPortfolioItemDto) {
+    await this.findAlbum(profileId, albumId);
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { count } = await supabase
+      .from('portfolio_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('album_id', albumId);
+
+    if ((count || 0) >= MAX_ITEMS_PER_ALBUM) {
+      throw new BadRequestException(`An album can have at most ${MAX_ITEMS_PER_ALBUM} items`);
+    }
+
+    const storagePath = dto.type === 'image'
+      ? await this.photoService.uploadPortfolioImageFromBase64(dto.image!, profileId)
+      : null;
+    const url = dto.type === 'video' ? this.assertVideoUrl(dto.url!) : null;
+
+    const { data: item, error } = await supabase
+      .from('portfolio_items')
+      .insert({
+        album_id: albumId,
+        profile_id: profileId,
+        type: dto.type,
+        url,
+        storage_path: storagePath,
+        caption: dto.caption ?? null,
+        tags: this.normalizeTags(dto.tags),
+        visibility: dto.visibility || 'public',
+        order_index: count || 0,
+      })
+      .select(ITEM_COLUMNS)
+      .single();
+
+    if (error) {
+      // Don't leave an orphaned upload behind
+      await this.deleteStoredImage({ storage_path: storagePath });
+      throw new BadRequestException(`Failed to add portfolio item: ${error.message}`);
+    }
+
+    // The first image becomes the cover until one is picked
+    if (item.type === 'image') {
+      await supabase
+        .from('portfolio_albums')
+        .update({ cover_item_id: item.id })
+        .eq('id', albumId)
+        .is('cover_item_id', null);
+    }
+
+    const [added] = await this.withUrls([item]);
+    return added;
+  }
+
+  async updateItem(profileId: string, itemId: string, dto: UpdatePortfolioItemDto) {
+    await this.findItem(profileId, itemId);
+
+    const updates: Record<string, any> = {};
+    if (dto.caption !== undefined) updates.caption = dto.caption;
+    if (dto.tags !== undefined) updates.tags = this.normalizeTags(dto.tags);
+    if (dto.visibility !== undefined) updates.visibility = dto.visibility;
+
+    const { data: item, error } = await this.supabaseService.getAdminClient()
+      .from('portfolio_items')
+      .update(updates)
+      .eq('id', itemId)
+      .select(ITEM_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update portfolio item: ${error.message}`);
+    }
+
+    const [updated] = await this.withUrls([item]);
+    return updated;
+  }
+
+  async deleteItem(profileId: string, itemId: string) {
+    const item = await this.findItem(profileId, itemId);
+    const supabase = this.supabaseService.getAdminClient();
+
+    await supabase
+      .from('portfolio_albums')
+      .update({ cover_item_id: null })
+      .eq('id', item.album_id)
+      .eq('cover_item_id', itemId);
+
+    const { error } = await supabase
+      .from('portfolio_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to delete portfolio item: ${error.message}`);
+    }
+
+    await this.deleteStoredImage(item);
+    return { success: true };
+  }
+
+  async reorderItems(profileId: string, albumId: string, ids: string[]) {
+    await this.findAlbum(profileId, albumId);
+
+    const { data: items, error } = await this.supabaseService.getAdminClient()
+      .from('portfolio_items')
+      .select('id')
+      .eq('album_id', albumId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to reorder items: ${error.message}`);
+    }
+
+    await this.applyOrder('portfolio_items', items, ids);
+    return { success: true };
+  }
+
+  /**
+   * Set `order_index` from the position in `ids`, which must list every existing row once
+   */
+  private async applyOrder(table: string, existing: { id: string }[], ids: string[]) {
+    const existingIds = new Set(existing.map((row) => row.id));
+    if (new Set(ids).size !== ids.length || ids.length !== existingIds.size || !ids.every((id) => existingIds.has(id))) {
+      throw new BadRequestException('ids must list every album or item exactly once');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const results = await Promise.all(
+      ids.map((id, index) => supabase.from(table).update({ order_index: index }).eq('id', id)),
+    );
+
+    const failed = results.find((result) => result.error)?.error;
+    if (failed) {
+      throw new BadRequestException(`Failed to save the new order: ${failed.message}`);
+    }
+  }
+
+  private async findAlbum(profileId: string, albumId: string) {
+    const { data: album } = await this.supabaseService.getAdminClient()
+      .from('portfolio_albums')
+      .select(ALBUM_COLUMNS)
+      .eq('id', albumId)
+      .eq('profile_id', profileId)
+      .maybeSingle();
+
+    if (!album) {
+      throw new NotFoundException('Album not found');
+    }
+    return album;
+  }
+
+  private async findItem(profileId: string, itemId: string) {
+    const { data: item } = await this.supabaseService.getAdminClient()
+      .from('portfolio_items')
+      .select(ITEM_COLUMNS)
+      .eq('id', itemId)
+      .eq('profile_id', profileId)
+      .maybeSingle();
+
+    if (!item) {
+      throw new NotFoundException('Portfolio item not found');
+    }
+    return item;
+  }
+
+  private assertVideoUrl(url: string): string {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      throw new BadRequestException('Invalid video URL');
+    }
+
+    if (!VIDEO_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))) {
+      throw new BadRequestException(`Videos must be on one of: ${VIDEO_HOSTS.join(', ')}`);
+    }
+    return url;
+  }
+
+  private normalizeTags(tags?: string[]): string[] {
+    return [...new Set((tags || []).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+
+  private async deleteStoredImage(item: { storage_path?: string | null }) {
+    if (!item.storage_path) return;
+
+    try {
+      await this.photoService.deletePortfolioImage(item.storage_path);
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not delete portfolio image ${item.storage_path}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Items as returned to clients, images with freshly signed URLs
+   */
+  private async withUrls(items: any[]) {
+    const signed = await this.photoService.signPortfolioImages(
+      items.map((item) => item.storage_path).filter(Boolean),
+    );
+    return items.map((item) => this.toItem(item, item.storage_path ? signed.get(item.storage_path) : item.url));
+  }
+
+  private toAlbum(album: any) {
+    return {
+      id: album.id,
+      profileId: album.profile_id,
+      title: album.title,
+      description: album.description,
+      visibility: album.visibility,
+      coverItemId: album.cover_item_id,
+      orderIndex: album.order_index,
+      createdAt: album.created_at,
+      updatedAt: album.updated_at,
+    };
+  }
+
+  private toItem(item: any, url?: string | null) {
+    return {
+      id: item.id,
+      albumId: item.album_id,
+      type: item.type,
+      url: url ?? null,
+      caption: item.caption,
+      tags: item.tags || [],
+      visibility: item.visibility,
+      orderIndex: item.order_index,
+      createdAt: item.created_at,
+    };
+  }
+}
@@ -12,23 +12,30 @@ import {
   UploadedFile,
   Logger,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiSecurity } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { PostsService } from './posts.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
 import { CurrentUser, CurrentProfile } from '../auth/decorators/current-user.decorator';
 import { CreatePostDto, UpdatePostDto, CreateCommentDto, ApplyToProjectDto, UpdateApplicationStatusDto } from './dto/post.dto';
+import { ApplicationLoader, PostLoader } from './posts.loaders';
 
 @ApiTags('Posts')
 @ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
 @Controller('posts')
-@UseGuards(JwtAuthGuard)
+@UseGuards(ApiKeyOrJwtGuard, PoliciesGuard)
 export class PostsController {
   private readonly logger = new Logger(PostsController.name);
   
   constructor(private readonly postsService: PostsService) {}
 
   @Get()
+  @ApiKeyScope('posts:read')
   @ApiOperation({ summary: 'List posts', description: 'Get paginated list of posts/projects with optional filtering' })
   @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page', example: 20 })
@@ -76,6 +83,7 @@ export class PostsController {
   }
 
   @Get(':id')
+  @ApiKeyScope('posts:read')
   @ApiOperation({ summary: 'Get post by ID', description: 'Get detailed post/project information' })
   @ApiParam({ name: 'id', description: 'Post UUID' })
   @ApiResponse({ status: 200, description: 'Post details returned successfully' })
@@ -108,28 +116,28 @@ export class PostsController {
   }
 
   @Put(':id')
+  @CheckPolicy(Policies.updatePost, { loader: PostLoader, message: 'You can only update your own posts' })
   @ApiOperation({ summary: 'Update post', description: 'Update your own post' })
   @ApiParam({ name: 'id', description: 'Post UUID' })
   @ApiResponse({ status: 200, description: 'Post updated successfully' })
   @ApiResponse({ status: 403, description: 'Forbidden - Cannot update other user\'s post' })
+  @ApiResponse({ status: 404, description: 'Post not found' })
   async updatePost(
     @Param('id') id: string,
     @Body() updatePostDto: UpdatePostDto,
-    @CurrentProfile() profile: any,
   ) {
-    return this.postsService.updatePost(id, profile?.profileId, updatePostDto);
+    return this.postsService.updatePost(id, updatePostDto);
   }
 
   @Delete(':id')
+  @CheckPolicy(Policies.deletePost, { loader: PostLoader, message: 'You can only delete your own posts' })
   @ApiOperation({ summary: 'Delete post', description: 'Delete your own post' })
   @ApiParam({ name: 'id', description: 'Post UUID' })
   @ApiResponse({ status: 200, description: 'Post deleted successfully' })
   @ApiResponse({ status: 403, description: 'Forbidden - Cannot delete other user\'s post' })
-  async deletePost(
-    @Param('id') id: string,
-    @CurrentProfile() profile: any,
-  ) {
-    return this.postsService.deletePost(id, profile?.profileId);
+  @ApiResponse({ status: 404, description: 'Post not found' })
+  async deletePost(@Param('id') id: string) {
+    return this.postsService.deletePost(id);
   }
 
   @Post(':id/like')
@@ -219,29 +227,34 @@ export class PostsController {
   }
 
   @Put('applications/:applicationId/status')
-  @ApiOperation({ summary: 'Update application status', description: 'Accept or reject an application (recruiter only)' })
+  @CheckPolicy(Policies.reviewApplication, {
+    loader: ApplicationLoader,
+    message: 'You can only manage applications for your own projects',
+  })
+  @ApiOperation({ summary: 'Update application status', description: 'Accept or reject an application to your own project' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
   @ApiResponse({ status: 200, description: 'Application status updated successfully' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Recruiters only' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not your project' })
+  @ApiResponse({ status: 404, description: 'Application not found' })
   async updateApplicationStatus(
     @Param('applicationId') applicationId: string,
     @Body() updateDto: UpdateApplicationStatusDto,
-    @CurrentProfile() profile: any,
   ) {
-    return this.postsService.updateApplicationStatus(applicationId, profile?.profileId, updateDto);
+    return this.postsService.updateApplicationStatus(applicationId, updateDto);
   }
 
   @Delete('applications/:applicationId')
-  @ApiOperation({ summary: 'Remove application', description: 'Withdraw your application or remove as recruiter' })
+  @CheckPolicy(Policies.removeApplication, {
+    loader: ApplicationLoader,
+    message: 'You do not have permission to remove this application',
+  })
+  @ApiOperation({ summary: 'Remove application', description: 'Withdraw your application or remove one from your project' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
   @ApiResponse({ status: 200, description: 'Application removed successfully' })
-  async removeApplication(
-    @Param('applicationId') applicationId: string,
-    @CurrentProfile() profile: any,
-  ) {
-    // Check if user is recruiter
-    const isRecruiter = profile?.role === 'recruiter';
-    return this.postsService.removeApplication(applicationId, profile?.profileId, isRecruiter);
+  @ApiResponse({ status: 403, description: 'Forbidden - Not your application or project' })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  async removeApplication(@Param('applicationId') applicationId: string) {
+    return this.postsService.removeApplication(applicationId);
   }
 }
 
@@ -0,0 +1,45 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ResourceLoader } from '../auth/policies/check-policy.decorator';
+
+/**
+ * The post named by `:id`, for post policies
+ */
+@Injectable()
+export class PostLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: post } = await this.supabaseService.getAdminClient()
+      .from('posts')
+      .select('id, author_profile_id')
+      .eq('id', request.params.id)
+      .maybeSingle();
+
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+    return post;
+  }
+}
+
+/**
+ * The application named by `:applicationId` with its project's author
+ */
+@Injectable()
+export class ApplicationLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: application } = await this.supabaseService.getAdminClient()
+      .from('project_applications')
+      .select('id, artist_profile_id, posts!project_id(author_profile_id)')
+      .eq('id', request.params.applicationId)
+      .maybeSingle();
+
+    if (!application) {
+      throw new NotFoundException('Application not found');
+    }
+    return application;
+  }
+}
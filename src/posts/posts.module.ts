@@ -1,13 +1,15 @@
 import { Module } from '@nestjs/common';
 import { PostsController } from './posts.controller';
 import { PostsService } from './posts.service';
+import { ApplicationLoader, PostLoader } from './posts.loaders';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PhotoModule } from '../photo/photo.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [SupabaseModule, PhotoModule],
+  imports: [SupabaseModule, PhotoModule, AuthModule],
   controllers: [PostsController],
-  providers: [PostsService],
+  providers: [PostsService, PostLoader, ApplicationLoader],
   exports: [PostsService],
 })
 export class PostsModule {}
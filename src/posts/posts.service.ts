@@ -215,24 +215,12 @@ export class PostsService {
     return data;
   }
 
-  async updatePost(
-    postId: string,
-    profileId: string,
-    updatePostDto: UpdatePostDto,
-  ) {
+  /**
+   * Ownership is checked by the `updatePost` policy before this runs
+   */
+  async updatePost(postId: string, updatePostDto: UpdatePostDto) {
     const supabase = this.supabaseService.getAdminClient();
 
-    // Verify ownership
-    const { data: post } = await supabase
-      .from('posts')
-      .select('author_profile_id')
-      .eq('id', postId)
-      .single();
-
-    if (!post || post.author_profile_id !== profileId) {
-      throw new ForbiddenException('You can only update your own posts');
-    }
-
     const { data, error } = await supabase
       .from('posts')
       .update(updatePostDto)
@@ -248,20 +236,12 @@ export class PostsService {
     return data;
   }
 
-  async deletePost(postId: string, profileId: string) {
+  /**
+   * Ownership is checked by the `deletePost` policy before this runs
+   */
+  async deletePost(postId: string) {
     const supabase = this.supabaseService.getAdminClient();
 
-    // Verify ownership
-    const { data: post } = await supabase
-      .from('posts')
-      .select('author_profile_id')
-      .eq('id', postId)
-      .single();
-
-    if (!post || post.author_profile_id !== profileId) {
-      throw new ForbiddenException('You can only delete your own posts');
-    }
-
     const { error } = await supabase
       .from('posts')
       .delete()
@@ -469,32 +449,12 @@ export class PostsService {
     };
   }
 
-  async updateApplicationStatus(
-    applicationId: string,
-    recruiterProfileId: string,
-    updateDto: UpdateApplicationStatusDto,
-  ) {
+  /**
+   * Project ownership is checked by the `reviewApplication` policy before this runs
+   */
+  async updateApplicationStatus(applicationId: string, updateDto: UpdateApplicationStatusDto) {
     const supabase = this.supabaseService.getAdminClient();
 
-    // Get the application with project details
-    const { data: application } = await supabase
-      .from('project_applications')
-      .select(`
-        *,
-        posts!project_id(author_profile_id)
-      `)
-      .eq('id', applicationId)
-      .single();
-
-    if (!application) {
-      throw new NotFoundException('Application not found');
-    }
-
-    // Verify that the recruiter owns the project
-    if (application.posts.author_profile_id !== recruiterProfileId) {
-      throw new ForbiddenException('You can only manage applications for your own projects');
-    }
-
     // Update status
     const { data, error } = await supabase
       .from('project_applications')
@@ -511,36 +471,13 @@ export class PostsService {
     return data;
   }
 
-  async removeApplication(
-    applicationId: string,
-    profileId: string,
-    isRecruiter: boolean,
-  ) {
+  /**
+   * Checked by the `removeApplication` policy before this runs:
+   * artists remove their own applications, recruiters any on their projects
+   */
+  async removeApplication(applicationId: string) {
     const supabase = this.supabaseService.getAdminClient();
 
-    const { data: application } = await supabase
-      .from('project_applications')
-      .select(`
-        *,
-        posts!project_id(author_profile_id)
-      `)
-      .eq('id', applicationId)
-      .single();
-
-    if (!application) {
-      throw new NotFoundException('Application not found');
-    }
-
-    // Artists can only remove their own applications
-    // Recruiters can remove any application from their projects
-    const canRemove = isRecruiter
-      ? application.posts.author_profile_id === profileId
-      : application.artist_profile_id === profileId;
-
-    if (!canRemove) {
-      throw new ForbiddenException('You do not have permission to remove this application');
-    }
-
     const { error } = await supabase
       .from('project_applications')
       .delete()
@@ -0,0 +1,67 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AvailabilityService } from './availability.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { createQueuedDbChain } from '../test-utils/queued-db-chain';
+
+describe('AvailabilityService', () => {
+  let service: AvailabilityService;
+  let results: any[];
+
+  const mockDbChain = createQueuedDbChain(() => results, { data: [], error: null });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    results = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AvailabilityService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+      ],
+    }).compile();
+
+    service = module.get<AvailabilityService>(AvailabilityService);
+  });
+
+  it('validates date ranges', () => {
+    expect(service.parseRange('2024-12-01', '2024-12-05')).toEqual({ from: '2024-12-01', to: '2024-12-05' });
+    expect(() => service.parseRange('2024-12-05', '2024-12-01')).toThrow(BadRequestException);
+    expect(() => service.parseRange('2024-12-01')).toThrow(BadRequestException);
+    expect(() => service.parseRange('2024-01-01', '2025-06-01')).toThrow(BadRequestException);
+  });
+
+  it('merges published blocks with accepted schedules as bookings', async () => {
+    results = [
+      { data: [{ id: 'block-1', status: 'tentative', start_date: '2024-12-08', end_date: '2024-12-09', note: null }], error: null },
+      { data: [{ profile_id: 'artist-1', schedule_id: 'schedule-1', schedules: { date: '2024-12-03', title: 'Table read' } }], error: null },
+    ];
+
+    const calendar = await service.getCalendar('artist-1', { from: '2024-12-01', to: '2024-12-31' });
+
+    expect(mockDbChain.eq).toHaveBeenCalledWith('status', 'accepted');
+    expect(calendar.blocks).toEqual([
+      expect.objectContaining({ status: 'booked', startDate: '2024-12-03', source: 'schedule', scheduleId: 'schedule-1' }),
+      expect.objectContaining({ id: 'block-1', status: 'tentative', source: 'manual' }),
+    ]);
+  });
+
+  it('leaves excluding busy artists to the database', () => {
+    service.availableProfiles({ from: '2024-12-01', to: '2024-12-05' }, true);
+
+    expect(mockDbChain.rpc).toHaveBeenCalledWith('available_profiles', {
+      p_from: '2024-12-01',
+      p_to: '2024-12-05',
+      p_include_tentative: true,
+    });
+    expect(mockDbChain.from).not.toHaveBeenCalled();
+  });
+
+  it('rejects blocks overlapping an existing one', async () => {
+    results = [{ data: [{ id: 'block-1' }], error: null }];
+
+    await expect(service.createBlock('artist-1', { status: 'booked', startDate: '2024-12-01', endDate: '2024-12-03' }))
+      .rejects.toThrow(BadRequestException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AvailabilityStatus, CreateAvailabilityBlockDto, UpdateAvailabilityBlockDto } from './dto/profile.dto';
+
+/** Longest range a calendar or availability search may cover */
+const MAX_RANGE_DAYS = 366;
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Availability calendars of artist profiles
+ *
+ * Artists publish date blocks (`availability_blocks`, inclusive `start_date`..`end_date`) marked
+ * available, tentative or booked. Accepted schedule invitations (`schedule_members.status = 'accepted'`)
+ * count as booked on the schedule's date without being stored as blocks, so they always match the schedule.
+ */
+@Injectable()
+export class AvailabilityService {
+  private readonly logger = new Logger(AvailabilityService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Validate a `from`..`to` date range (YYYY-MM-DD, inclusive)
+   */
+  parseRange(from?: string, to?: string): DateRange {
+    const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+    if (!isDate(from) || !isDate(to)) {
+      throw new BadRequestException('from and to must be dates (YYYY-MM-DD)');
+    }
+    this.assertRange(from!, to!);
+    return { from: from!, to: to! };
+  }
+
+  private assertRange(from: string, to: string) {
+    const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+    if (days < 0) {
+      throw new BadRequestException('The range must not end before it starts');
+    }
+    if (days >= MAX_RANGE_DAYS) {
+      throw new BadRequestException(`The range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  /**
+   * Published blocks and schedule bookings of a profile overlapping `range`, by start date
+   */
+  async getCalendar(profileId: string, range: DateRange) {
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: blocks, error } = await supabase
+      .from('availability_blocks')
+      .select('id, status, start_date, end_date, note')
+      .eq('profile_id', profileId)
+      .lte('start_date', range.to)
+      .gte('end_date', range.from)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch availability: ${error.message}`);
+    }
+
+    const bookings = await this.scheduleBookings(range, profileId);
+
+    const entries = [
+      ...blocks.map((block: any) => ({
+        id: block.id,
+        status: block.status as AvailabilityStatus,
+        startDate: block.start_date,
+        endDate: block.end_date,
+        note: block.note,
+        source: 'manual' as const,
+      })),
+      ...bookings.map((booking: any) => ({
+        id: null,
+        status: 'booked' as const,
+        startDate: booking.schedules.date,
+        endDate: booking.schedules.date,
+        note: booking.schedules.title,
+        source: 'schedule' as const,
+        scheduleId: booking.schedule_id,
+      })),
+    ];
+
+    return {
+      profileId,
+      ...range,
+      blocks: entries.sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    };
+  }
+
+  async createBlock(profileId: string, dto: CreateAvailabilityBlockDto) {
+    this.assertRange(dto.startDate, dto.endDate);
+    await this.assertNoOverlap(profileId, dto.startDate, dto.endDate);
+
+    const { data: block, error } = await this.supabaseService.getAdminClient()
+      .from('availability_blocks')
+      .insert({
+        profile_id: profileId,
+        status: dto.status,
+        start_date: dto.startDate,
+        end_date: dto.endDate,
+        note: dto.note ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to create availability block: ${error.message}`);
+    }
+
+    this.logger.log(`📅 Profile ${profileId} marked ${dto.startDate}..${dto.endDate} as ${dto.status}`);
+    return block;
+  }
+
+  async updateBlock(profileId: string, blockId: string, dto: UpdateAvailabilityBlockDto) {
+    const existing = await this.findBlock(profileId, blockId);
+
+    const startDate = dto.startDate ?? existing.start_date;
+    const endDate = dto.endDate ?? existing.end_date;
+    if (dto.startDate !== undefined || dto.endDate !== undefined) {
+      this.assertRange(startDate, endDate);
+      await this.assertNoOverlap(profileId, startDate, endDate, blockId);
+    }
+
+    const updates: Record<string, any> = {
+      start_date: startDate,
+      end_date: endDate,
+      updated_at: new Date().toISOString(),
+    };
+    if (dto.status !== undefined) updates.status = dto.status;
+    if (dto.note !== undefined) updates.note = dto.note;
+
+    const { data: block, error } = await this.supabaseService.getAdminClient()
+      .from('availability_blocks')
+      .update(updates)
+      .eq('id', blockId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update availability block: ${error.message}`);
+    }
+    return block;
+  }
+
+  async deleteBlock(profileId: string, blockId: string) {
+    await this.findBlock(profileId, blockId);
+
+    const { error } = await this.supabaseService.getAdminClient()
+      .from('availability_blocks')
+      .delete()
+      .eq('id', blockId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to delete availability block: ${error.message}`);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Profiles free on every day of `range`, as a query the caller selects, filters and pages
+   *
+   * `available_profiles(p_from, p_to, p_include_tentative)` returns `setof profiles` where
+   * NOT EXISTS a booked (or, unless `p_include_tentative`, tentative) `availability_blocks` row
+   * overlapping the range, and NOT EXISTS an accepted `schedule_members` row whose schedule is
+   * dated within it. The anti-join stays in the database, so no busy list is fetched or inlined.
+   */
+  availableProfiles(range: DateRange, includeTentative = false) {
+    return this.supabaseService.getAdminClient().rpc('available_profiles', {
+      p_from: range.from,
+      p_to: range.to,
+      p_include_tentative: includeTentative,
+    });
+  }
+
+  /**
+   * Accepted schedule invitations of a profile dated within `range`
+   */
+  private async scheduleBookings(range: DateRange, profileId: string) {
+    const { data, error } = await this.supabaseService.getAdminClient()
+      .from('schedule_members')
+      .select('profile_id, schedule_id, schedules!inner(date, title)')
+      .eq('status', 'accepted')
+      .eq('profile_id', profileId)
+      .gte('schedules.date', range.from)
+      .lte('schedules.date', range.to);
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch schedule bookings: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private async assertNoOverlap(profileId: string, startDate: string, endDate: string, exceptId?: string) {
+    let queryBuilder = this.supabaseService.getAdminClient()
+      .from('availability_blocks')
+      .select('id')
+      .eq('profile_id', profileId)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .limit(1);
+
+    if (exceptId) {
+      queryBuilder = queryBuilder.neq('id', exceptId);
+    }
+
+    const { data } = await queryBuilder;
+    if (data?.length) {
+      throw new BadRequestException('The dates overlap another block; edit or delete it instead');
+    }
+  }
+
+  private async findBlock(profileId: string, blockId: string) {
+    const { data: block } = await this.supabaseService.getAdminClient()
+      .from('availability_blocks')
+      .select('*')
+      .eq('id', blockId)
+      .eq('profile_id', profileId)
+      .maybeSingle();
+
+    if (!block) {
+      throw new NotFoundException('Availability block not found');
+    }
+    return block;
+  }
+}
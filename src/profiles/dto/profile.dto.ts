@@ -1,5 +1,7 @@
-import { IsString, IsOptional, IsUUID } from 'class-validator';
+import { IsString, IsOptional, IsUUID, IsPhoneNumber, IsIn, IsArray, IsNotEmpty, MaxLength, ArrayNotEmpty, Matches } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NormalizePhone } from '../../utils/phone.util';
+import { SOCIAL_PLATFORMS, SocialPlatform } from '../../utils/social-link.util';
 
 export class UpdateProfileDto {
   @IsOptional()
@@ -15,11 +17,15 @@ export class UpdateProfileDto {
   email?: string;
 
   @IsOptional()
+  @NormalizePhone()
   @IsString()
+  @IsPhoneNumber(undefined, { message: 'phone must be a valid phone number' })
   phone?: string;
 
   @IsOptional()
+  @NormalizePhone()
   @IsString()
+  @IsPhoneNumber(undefined, { message: 'alt_phone must be a valid phone number' })
   alt_phone?: string;
 
   @IsOptional()
@@ -60,9 +66,11 @@ export class BecomeRecruiterDto {
   @IsString()
   companyName: string;
 
-  @ApiPropertyOptional({ description: 'Company phone number', example: '022-12345678' })
+  @ApiPropertyOptional({ description: 'Company phone number', example: '+912212345678' })
   @IsOptional()
+  @NormalizePhone()
   @IsString()
+  @IsPhoneNumber(undefined, { message: 'companyPhone must be a valid phone number' })
   companyPhone?: string;
 
   @ApiPropertyOptional({ description: 'Company email', example: 'contact@abcproductions.com' })
@@ -87,9 +95,123 @@ export class UpgradePremiumDto {
   paymentId?: string;
 }
 
+export class UpdateProfileRoleDto {
+  @ApiProperty({ description: 'New role', enum: ['artist', 'recruiter', 'admin', 'superadmin'], example: 'admin' })
+  @IsIn(['artist', 'recruiter', 'admin', 'superadmin'])
+  role: string;
+
+  @ApiPropertyOptional({ description: 'Extra permissions; replaces the current list', example: ['pii:read'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+}
+
+export class AddSocialLinkDto {
+  @ApiProperty({ description: 'Platform', enum: SOCIAL_PLATFORMS, example: 'instagram' })
+  @IsIn(SOCIAL_PLATFORMS)
+  platform: SocialPlatform;
+
+  @ApiProperty({
+    description: 'Profile URL, or just the handle for Instagram, YouTube, IMDb (nm id) and LinkedIn',
+    example: 'https://instagram.com/johndoe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  url: string;
+}
+
+export class ReorderSocialLinksDto {
+  @ApiProperty({ description: 'Every link id of the profile, in the new order', type: [String], example: ['uuid-1', 'uuid-2'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  ids: string[];
+}
+
+/** `booked` blocks are also derived from accepted schedule invitations */
+export const AVAILABILITY_STATUSES = ['available', 'tentative', 'booked'] as const;
+
+export type AvailabilityStatus = (typeof AVAILABILITY_STATUSES)[number];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CreateAvailabilityBlockDto {
+  @ApiProperty({ description: 'Availability', enum: AVAILABILITY_STATUSES, example: 'booked' })
+  @IsIn(AVAILABILITY_STATUSES)
+  status: AvailabilityStatus;
+
+  @ApiProperty({ description: 'First day of the block', format: 'date', example: '2024-12-01' })
+  @Matches(DATE_ONLY, { message: 'startDate must be a date (YYYY-MM-DD)' })
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day of the block (inclusive)', format: 'date', example: '2024-12-05' })
+  @Matches(DATE_ONLY, { message: 'endDate must be a date (YYYY-MM-DD)' })
+  endDate: string;
+
+  @ApiPropertyOptional({ description: 'Note shown on the calendar', example: 'Shooting in Goa' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
+
+export class UpdateAvailabilityBlockDto {
+  @ApiPropertyOptional({ description: 'Availability', enum: AVAILABILITY_STATUSES })
+  @IsOptional()
+  @IsIn(AVAILABILITY_STATUSES)
+  status?: AvailabilityStatus;
+
+  @ApiPropertyOptional({ description: 'First day of the block', format: 'date' })
+  @IsOptional()
+  @Matches(DATE_ONLY, { message: 'startDate must be a date (YYYY-MM-DD)' })
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Last day of the block (inclusive)', format: 'date' })
+  @IsOptional()
+  @Matches(DATE_ONLY, { message: 'endDate must be a date (YYYY-MM-DD)' })
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Note shown on the calendar' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
+
 export interface ListProfilesQuery {
   cursor?: string;
   limit?: number;
   role?: string;
 }
 
+export interface AvailableArtistsQuery {
+  /** Artists free on every day from `from` to `to` (inclusive, YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+  /** Count tentative blocks as free */
+  includeTentative?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export const PROFILE_SEARCH_SORTS = ['relevance', 'recently_active', 'newest'] as const;
+
+export type ProfileSearchSort = (typeof PROFILE_SEARCH_SORTS)[number];
+
+export interface SearchProfilesQuery {
+  /** Full-text query over name and bio */
+  q?: string;
+  role?: string;
+  department?: string;
+  city?: string;
+  state?: string;
+  gender?: string;
+  premium?: boolean;
+  verified?: boolean;
+  sort?: ProfileSearchSort;
+  cursor?: string;
+  limit?: number;
+}
+
@@ -3,6 +3,7 @@ import {
   Get,
   Put,
   Post,
+  Delete,
   Param,
   Body,
   UseGuards,
@@ -10,28 +11,54 @@ import {
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiSecurity } from '@nestjs/swagger';
 import { ProfilesService } from './profiles.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { SocialLinksService } from './social-links.service';
+import { AvailabilityService } from './availability.service';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
+import { isApiKeyPrincipal } from '../auth/services/api-keys.service';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { UpdateProfileDto, BecomeRecruiterDto, UpgradePremiumDto } from './dto/profile.dto';
+import { BlockImpersonation } from '../auth/decorators/block-impersonation.decorator';
+import {
+  UpdateProfileDto,
+  BecomeRecruiterDto,
+  UpgradePremiumDto,
+  PROFILE_SEARCH_SORTS,
+  ProfileSearchSort,
+  AddSocialLinkDto,
+  ReorderSocialLinksDto,
+  CreateAvailabilityBlockDto,
+  UpdateAvailabilityBlockDto,
+} from './dto/profile.dto';
+import { ProfileLoader } from './profiles.loaders';
 
 @ApiTags('Profiles')
 @ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
 @Controller('profiles')
-@UseGuards(JwtAuthGuard)
+@UseGuards(ApiKeyOrJwtGuard, PoliciesGuard)
 export class ProfilesController {
   private readonly logger = new Logger(ProfilesController.name);
   
-  constructor(private readonly profilesService: ProfilesService) {}
+  constructor(
+    private readonly profilesService: ProfilesService,
+    private readonly socialLinksService: SocialLinksService,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
 
   @Get()
+  @ApiKeyScope('profiles:read')
   @ApiOperation({ summary: 'List all profiles', description: 'Get paginated list of user profiles with optional filtering by role' })
   @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
-  @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page', example: 20 })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page (max 50)', example: 20 })
   @ApiQuery({ name: 'role', required: false, enum: ['artist', 'recruiter'], description: 'Filter by user role' })
-  @ApiResponse({ status: 200, description: 'List of profiles returned successfully' })
+  @ApiResponse({ status: 200, description: 'List of profiles returned successfully; API keys get them without the owner\'s phone and email' })
   async listProfiles(
+    @CurrentUser() currentUser: any,
     @Query('cursor') cursor?: string,
     @Query('limit') limit?: string,
     @Query('role') role?: string,
@@ -41,17 +68,145 @@ export class ProfilesController {
       cursor,
       limit: limit ? parseInt(limit, 10) : 20,
       role,
+    }, { includeContact: !isApiKeyPrincipal(currentUser) });
+  }
+
+  // Must come before the dynamic :id route
+  @Get('available')
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({
+    summary: 'Find available artists',
+    description: 'Artists free on every day of the range: no booked (or tentative) block and no accepted schedule within it. '
+      + 'Returns the same public fields as talent search; contact details are never included.',
+  })
+  @ApiQuery({ name: 'from', required: true, description: 'First day (YYYY-MM-DD)', example: '2024-12-01' })
+  @ApiQuery({ name: 'to', required: true, description: 'Last day, inclusive (YYYY-MM-DD)', example: '2024-12-05' })
+  @ApiQuery({ name: 'includeTentative', required: false, type: Boolean, description: 'Count tentative blocks as free' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page (max 50)', example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Available artists returned successfully',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', userId: 'uuid', role: 'artist', firstName: 'Ravi', lastName: 'Kumar', profilePic: 'https://...',
+          department: 'Cinematography', city: 'Hyderabad', state: 'Telangana', gender: 'male', bio: '...',
+          isPremium: false, isVerified: true, lastActiveAt: null, createdAt: '2023-06-01T00:00:00.000Z',
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Missing or invalid date range' })
+  async findAvailableArtists(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('includeTentative') includeTentative?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.logger.log(`🌐 GET /profiles/available - ${from}..${to}`);
+    return this.profilesService.findAvailableArtists({
+      from,
+      to,
+      includeTentative: includeTentative === 'true',
+      cursor,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Get('search')
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({
+    summary: 'Search talent',
+    description: 'Filter profiles by department, location, gender, premium and verified status, with full-text search over name and bio. '
+      + 'Sorts by relevance when `q` is given, otherwise by newest. Contact details are never included.',
+  })
+  @ApiQuery({ name: 'q', required: false, description: 'Search text matched against name and bio', example: 'telugu cinematographer' })
+  @ApiQuery({ name: 'role', required: false, enum: ['artist', 'recruiter'], description: 'Filter by role' })
+  @ApiQuery({ name: 'department', required: false, description: 'Filter by department', example: 'Cinematography' })
+  @ApiQuery({ name: 'city', required: false, description: 'Filter by city', example: 'Hyderabad' })
+  @ApiQuery({ name: 'state', required: false, description: 'Filter by state', example: 'Telangana' })
+  @ApiQuery({ name: 'gender', required: false, description: 'Filter by gender' })
+  @ApiQuery({ name: 'premium', required: false, type: Boolean, description: 'Only premium (true) or non-premium (false) profiles' })
+  @ApiQuery({ name: 'verified', required: false, type: Boolean, description: 'Only verified (true) or unverified (false) profiles' })
+  @ApiQuery({ name: 'sort', required: false, enum: PROFILE_SEARCH_SORTS, description: 'Result order (relevance needs q)' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page (max 50)', example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching profiles',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', userId: 'uuid', role: 'artist', firstName: 'Ravi', lastName: 'Kumar', profilePic: 'https://...',
+          department: 'Cinematography', city: 'Hyderabad', state: 'Telangana', gender: 'male',
+          bio: 'Telugu feature films and ads', isPremium: true, isVerified: true,
+          lastActiveAt: '2024-01-02T10:00:00.000Z', createdAt: '2023-06-01T00:00:00.000Z', rank: 0.42,
+        }],
+        nextCursor: 'MC40MnwxMjM0',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid sort, or relevance sort without q' })
+  async searchProfiles(
+    @Query('q') q?: string,
+    @Query('role') role?: string,
+    @Query('department') department?: string,
+    @Query('city') city?: string,
+    @Query('state') state?: string,
+    @Query('gender') gender?: string,
+    @Query('premium') premium?: string,
+    @Query('verified') verified?: string,
+    @Query('sort') sort?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.logger.log(`🌐 GET /profiles/search - q: ${q || 'none'}, sort: ${sort || 'default'}`);
+    return this.profilesService.searchProfiles({
+      q,
+      role,
+      department,
+      city,
+      state,
+      gender,
+      premium: premium === undefined ? undefined : premium === 'true',
+      verified: verified === undefined ? undefined : verified === 'true',
+      sort: sort as ProfileSearchSort | undefined,
+      cursor,
+      limit: limit ? parseInt(limit, 10) : 20,
     });
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get profile by ID', description: 'Get detailed profile information by profile ID' })
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({ summary: 'Get profile by ID', description: 'Get detailed profile information by profile ID, with ordered `profile_social_links` and the `ratings` summary. Aadhaar numbers are masked to the last 4 digits.' })
   @ApiParam({ name: 'id', description: 'Profile UUID' })
   @ApiResponse({ status: 200, description: 'Profile details returned successfully' })
   @ApiResponse({ status: 404, description: 'Profile not found' })
-  async getProfile(@Param('id') id: string) {
+  async getProfile(@Param('id') id: string, @CurrentUser() currentUser: any) {
     this.logger.log(`🌐 GET /profiles/${id}`);
-    return this.profilesService.getProfileById(id);
+    return this.profilesService.getProfileById(id, { includeContact: !isApiKeyPrincipal(currentUser) });
+  }
+
+  @Get(':id/sensitive')
+  @BlockImpersonation()
+  @ApiOperation({
+    summary: 'Get sensitive identifiers',
+    description: 'Full Aadhaar number of a profile. Other profile responses only show the last 4 digits. Owner, or admins with the pii:read permission; every read is logged.',
+  })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sensitive identifiers returned',
+    schema: { example: { profileId: 'uuid', aadharNumber: '123456789012' } },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the owner and no pii:read permission' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async getSensitiveFields(@Param('id') id: string, @CurrentUser() currentUser: any) {
+    this.logger.log(`🌐 GET /profiles/${id}/sensitive`);
+    return this.profilesService.getSensitiveFields(id, currentUser);
   }
 
   @Put(':id')
@@ -79,9 +234,12 @@ export class ProfilesController {
   }
 
   @Post(':id/become-recruiter')
-  @ApiOperation({ summary: 'Become a recruiter', description: 'Upgrade from artist to recruiter role. Requires company details.' })
+  @ApiOperation({
+    summary: 'Become a recruiter',
+    description: 'Adds a recruiter profile alongside the current one. Requires company details. Switch to it with POST /auth/switch-profile.',
+  })
   @ApiParam({ name: 'id', description: 'Profile UUID' })
-  @ApiResponse({ status: 200, description: 'Successfully upgraded to recruiter' })
+  @ApiResponse({ status: 200, description: 'Recruiter profile created' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Cannot upgrade other user\'s profile' })
   async becomeRecruiter(
     @Param('id') id: string,
@@ -96,6 +254,7 @@ export class ProfilesController {
   }
 
   @Post(':id/upgrade-premium')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Upgrade to premium', description: 'Upgrade account to premium subscription' })
   @ApiParam({ name: 'id', description: 'Profile UUID' })
   @ApiResponse({ status: 200, description: 'Successfully upgraded to premium' })
@@ -111,5 +270,123 @@ export class ProfilesController {
     }
     return this.profilesService.upgradePremium(id, upgradePremiumDto);
   }
+
+  @Get(':id/social-links')
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({ summary: 'Get social links', description: 'Links shown on a profile, in display order' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Social links returned successfully',
+    schema: {
+      example: [
+        { id: 'uuid', platform: 'instagram', url: 'https://www.instagram.com/johndoe/', handle: 'johndoe', is_custom: false, order_index: 0 },
+      ],
+    },
+  })
+  async getSocialLinks(@Param('id') id: string) {
+    return this.socialLinksService.listLinks(id);
+  }
+
+  @Post(':id/social-links')
+  @CheckPolicy(Policies.manageSocialLinks, { loader: ProfileLoader, message: 'You can only manage links on your own profile' })
+  @ApiOperation({
+    summary: 'Add social link',
+    description: 'Add a link at the end. Instagram, YouTube, IMDb and LinkedIn accept a URL or handle and are stored in canonical form; one link per platform apart from custom links.',
+  })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({ status: 201, description: 'Social link added successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid link for the platform, duplicate, or link limit reached' })
+  @ApiResponse({ status: 403, description: 'Not your profile' })
+  async addSocialLink(@Param('id') id: string, @Body() dto: AddSocialLinkDto) {
+    this.logger.log(`🌐 POST /profiles/${id}/social-links - platform: ${dto.platform}`);
+    return this.socialLinksService.addLink(id, dto);
+  }
+
+  @Put(':id/social-links/order')
+  @CheckPolicy(Policies.manageSocialLinks, { loader: ProfileLoader, message: 'You can only manage links on your own profile' })
+  @ApiOperation({ summary: 'Reorder social links', description: 'Send every link id in the new order' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({ status: 200, description: 'Links reordered; returns them in the new order' })
+  @ApiResponse({ status: 400, description: 'ids do not match the profile\'s links' })
+  async reorderSocialLinks(@Param('id') id: string, @Body() dto: ReorderSocialLinksDto) {
+    return this.socialLinksService.reorderLinks(id, dto.ids);
+  }
+
+  @Delete(':id/social-links/:linkId')
+  @CheckPolicy(Policies.manageSocialLinks, { loader: ProfileLoader, message: 'You can only manage links on your own profile' })
+  @ApiOperation({ summary: 'Remove social link' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiParam({ name: 'linkId', description: 'Social link UUID' })
+  @ApiResponse({ status: 200, description: 'Social link removed successfully' })
+  @ApiResponse({ status: 404, description: 'Social link not found' })
+  async removeSocialLink(@Param('id') id: string, @Param('linkId') linkId: string) {
+    return this.socialLinksService.removeLink(id, linkId);
+  }
+
+  @Get(':id/availability')
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({
+    summary: 'Get availability calendar',
+    description: 'Published blocks overlapping the range, plus days booked through accepted schedules (source "schedule").',
+  })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiQuery({ name: 'from', required: true, description: 'First day (YYYY-MM-DD)', example: '2024-12-01' })
+  @ApiQuery({ name: 'to', required: true, description: 'Last day, inclusive (YYYY-MM-DD)', example: '2024-12-31' })
+  @ApiResponse({
+    status: 200,
+    description: 'Calendar returned successfully',
+    schema: {
+      example: {
+        profileId: 'uuid',
+        from: '2024-12-01',
+        to: '2024-12-31',
+        blocks: [
+          { id: 'uuid', status: 'tentative', startDate: '2024-12-02', endDate: '2024-12-04', note: 'Hold for ad shoot', source: 'manual' },
+          { id: null, status: 'booked', startDate: '2024-12-10', endDate: '2024-12-10', note: 'Script Reading Session', source: 'schedule', scheduleId: 'uuid' },
+        ],
+      },
+    },
+  })
+  async getAvailability(@Param('id') id: string, @Query('from') from?: string, @Query('to') to?: string) {
+    return this.availabilityService.getCalendar(id, this.availabilityService.parseRange(from, to));
+  }
+
+  @Post(':id/availability')
+  @CheckPolicy(Policies.manageAvailability, { loader: ProfileLoader, message: 'You can only manage your own availability' })
+  @ApiOperation({ summary: 'Add availability block', description: 'Mark a date range as available, tentative or booked' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiResponse({ status: 201, description: 'Block created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid range or overlaps another block' })
+  @ApiResponse({ status: 403, description: 'Not your profile' })
+  async createAvailabilityBlock(@Param('id') id: string, @Body() dto: CreateAvailabilityBlockDto) {
+    return this.availabilityService.createBlock(id, dto);
+  }
+
+  @Put(':id/availability/:blockId')
+  @CheckPolicy(Policies.manageAvailability, { loader: ProfileLoader, message: 'You can only manage your own availability' })
+  @ApiOperation({ summary: 'Update availability block' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiParam({ name: 'blockId', description: 'Block UUID' })
+  @ApiResponse({ status: 200, description: 'Block updated successfully' })
+  @ApiResponse({ status: 404, description: 'Availability block not found' })
+  async updateAvailabilityBlock(
+    @Param('id') id: string,
+    @Param('blockId') blockId: string,
+    @Body() dto: UpdateAvailabilityBlockDto,
+  ) {
+    return this.availabilityService.updateBlock(id, blockId, dto);
+  }
+
+  @Delete(':id/availability/:blockId')
+  @CheckPolicy(Policies.manageAvailability, { loader: ProfileLoader, message: 'You can only manage your own availability' })
+  @ApiOperation({ summary: 'Delete availability block' })
+  @ApiParam({ name: 'id', description: 'Profile UUID' })
+  @ApiParam({ name: 'blockId', description: 'Block UUID' })
+  @ApiResponse({ status: 200, description: 'Block deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Availability block not found' })
+  async deleteAvailabilityBlock(@Param('id') id: string, @Param('blockId') blockId: string) {
+    return this.availabilityService.deleteBlock(id, blockId);
+  }
 }
 
@@ -0,0 +1,24 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ResourceLoader } from '../auth/policies/check-policy.decorator';
+
+/**
+ * The profile named by `:id`, for profile policies
+ */
+@Injectable()
+export class ProfileLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: profile } = await this.supabaseService.getAdminClient()
+      .from('profiles')
+      .select('id, user_id, role')
+      .eq('id', request.params.id)
+      .maybeSingle();
+
+    if (!profile) {
+      throw new NotFoundException('Profile not found');
+    }
+    return profile;
+  }
+}
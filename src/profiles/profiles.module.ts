@@ -1,14 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ProfilesController } from './profiles.controller';
 import { ProfilesService } from './profiles.service';
+import { SocialLinksService } from './social-links.service';
+import { AvailabilityService } from './availability.service';
+import { ProfileLoader } from './profiles.loaders';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PhotoModule } from '../photo/photo.module';
+import { AuthModule } from '../auth/auth.module';
+import { ReviewsModule } from '../reviews/reviews.module';
 
 @Module({
-  imports: [SupabaseModule, PhotoModule],
+  imports: [SupabaseModule, PhotoModule, AuthModule, ReviewsModule],
   controllers: [ProfilesController],
-  providers: [ProfilesService],
-  exports: [ProfilesService],
+  providers: [ProfilesService, SocialLinksService, AvailabilityService, ProfileLoader],
+  exports: [ProfilesService, SocialLinksService, AvailabilityService],
 })
 export class ProfilesModule {}
 
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ProfilesService } from './profiles.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { FieldEncryptionService } from '../crypto/field-encryption.service';
+import { IdentityCacheService } from '../auth/services/identity-cache.service';
+import { AuthAuditService } from '../auth/services/auth-audit.service';
+import { AvailabilityService } from './availability.service';
+import { ReviewsService } from '../reviews/reviews.service';
+import { decodeCursor, encodeCursor } from '../utils/cursor.util';
+
+describe('ProfilesService search', () => {
+  let service: ProfilesService;
+  let rpcResult: { data: any; error: any };
+
+  const supabase = { rpc: jest.fn(() => Promise.resolve(rpcResult)) };
+
+  const row = (id: string, sortKey: string) => ({
+    id,
+    user_id: `user-${id}`,
+    role: 'artist',
+    first_name: 'Ravi',
+    last_name: 'Kumar',
+    department: 'Cinematography',
+    city: 'Hyderabad',
+    aadhar_number: 'enc:v1:secret',
+    phone: '+919876543210',
+    is_premium: true,
+    rank: 0.4,
+    sort_key: sortKey,
+    created_at: '2024-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rpcResult = { data: [], error: null };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfilesService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => supabase) } },
+        { provide: FieldEncryptionService, useValue: {} },
+        { provide: IdentityCacheService, useValue: {} },
+        { provide: AuthAuditService, useValue: {} },
+        { provide: AvailabilityService, useValue: {} },
+        { provide: ReviewsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ProfilesService>(ProfilesService);
+  });
+
+  it('passes filters to search_profiles and ranks by relevance when there is a query', async () => {
+    await service.searchProfiles({ q: '  telugu cinematographer ', city: 'Hyderabad', premium: false, limit: 10 });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_profiles', expect.objectContaining({
+      p_query: 'telugu cinematographer',
+      p_city: 'Hyderabad',
+      p_department: null,
+      p_premium: false,
+      p_verified: null,
+      p_sort: 'relevance',
+      p_cursor_key: null,
+      p_limit: 11,
+    }));
+  });
+
+  it('pages with a cursor built from the sort key', async () => {
+    rpcResult = { data: [row('p1', '0.9'), row('p2', '0.4'), row('p3', '0.1')], error: null };
+
+    const page = await service.searchProfiles({ q: 'ravi', limit: 2 });
+
+    expect(page.data.map((profile: any) => profile.id)).toEqual(['p1', 'p2']);
+    expect(decodeCursor(page.nextCursor!)).toEqual({ timestamp: '0.4', id: 'p2' });
+
+    await service.searchProfiles({ q: 'ravi', limit: 2, cursor: page.nextCursor! });
+    expect(supabase.rpc).toHaveBeenLastCalledWith('search_profiles', expect.objectContaining({ p_cursor_key: '0.4', p_cursor_id: 'p2' }));
+  });
+
+  it('returns public fields only', async () => {
+    rpcResult = { data: [row('p1', '2024-01-01T00:00:00.000Z')], error: null };
+
+    const page = await service.searchProfiles({ sort: 'newest', cursor: encodeCursor('2024-02-01T00:00:00.000Z', 'p0') });
+
+    expect(page.data[0]).toMatchObject({ id: 'p1', firstName: 'Ravi', city: 'Hyderabad', isPremium: true, isVerified: false });
+    expect(page.data[0]).not.toHaveProperty('rank');
+    expect(JSON.stringify(page.data[0])).not.toMatch(/enc:v1|\+91/);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('rejects relevance without a query and unknown sorts', async () => {
+    await expect(service.searchProfiles({ sort: 'relevance' })).rejects.toThrow(BadRequestException);
+    await expect(service.searchProfiles({ sort: 'popular' as any })).rejects.toThrow(BadRequestException);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProfilesService availability listing', () => {
+  let service: ProfilesService;
+
+  // More busy artists than PostgREST returns in one response
+  const busyRows = Array.from({ length: 1500 }, (_, index) => ({ profile_id: `busy-${index}` }));
+  const freeRows = [
+    {
+      id: 'free-1',
+      user_id: 'user-1',
+      role: 'artist',
+      first_name: 'Ravi',
+      profile_photo_url: 'https://x/legacy.jpg',
+      phone: '+919876543210',
+      premium_until: '2999-01-01T00:00:00.000Z',
+      verified_at: null,
+      created_at: '2024-03-01T00:00:00.000Z',
+      artist_profiles: [{ department: 'Cinematography', city: 'Hyderabad', aadhar_number: 'enc:v1:secret', email: 'ravi@example.com' }],
+    },
+    { id: 'free-2', created_at: '2024-02-01T00:00:00.000Z' },
+    { id: 'free-3', created_at: '2024-01-01T00:00:00.000Z' },
+  ];
+
+  const chain = (rows: any[]) => {
+    const builder: any = {};
+    ['select', 'order', 'limit', 'eq', 'lt', 'not', 'in', 'lte', 'gte'].forEach((method) => {
+      builder[method] = jest.fn(() => builder);
+    });
+    builder.then = (resolve: any, reject: any) => Promise.resolve({ data: rows, error: null }).then(resolve, reject);
+    return builder;
+  };
+
+  const available = chain(freeRows);
+  const supabase = {
+    rpc: jest.fn(() => available),
+    from: jest.fn((table: string) => chain(['availability_blocks', 'schedule_members'].includes(table) ? busyRows : freeRows)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfilesService,
+        AvailabilityService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => supabase) } },
+        { provide: FieldEncryptionService, useValue: {} },
+        { provide: IdentityCacheService, useValue: {} },
+        { provide: AuthAuditService, useValue: {} },
+        { provide: ReviewsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ProfilesService>(ProfilesService);
+  });
+
+  it('pages through free artists without fetching the busy ones', async () => {
+    const result = await service.findAvailableArtists({
+      from: '2024-12-01',
+      to: '2024-12-05',
+      limit: 2,
+      cursor: encodeCursor('2024-06-01T00:00:00.000Z', 'prev'),
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('available_profiles', {
+      p_from: '2024-12-01',
+      p_to: '2024-12-05',
+      p_include_tentative: false,
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(available.not).not.toHaveBeenCalled();
+    expect(available.eq).toHaveBeenCalledWith('role', 'artist');
+    expect(available.lt).toHaveBeenCalledWith('created_at', '2024-06-01T00:00:00.000Z');
+    expect(available.limit).toHaveBeenCalledWith(3);
+    expect(result.data.map((profile: any) => profile.id)).toEqual(['free-1', 'free-2']);
+    expect(decodeCursor(result.nextCursor!)).toMatchObject({ timestamp: '2024-02-01T00:00:00.000Z', id: 'free-2' });
+  });
+
+  it('returns the public search fields of available artists, at most 50 per page', async () => {
+    const result = await service.findAvailableArtists({ from: '2024-12-01', to: '2024-12-05', limit: 5000 });
+
+    expect(available.select).toHaveBeenCalledWith(expect.not.stringContaining('users'));
+    expect(available.limit).toHaveBeenCalledWith(51);
+    expect(result.data[0]).toEqual({
+      id: 'free-1',
+      userId: 'user-1',
+      role: 'artist',
+      firstName: 'Ravi',
+      lastName: undefined,
+      profilePic: 'https://x/legacy.jpg',
+      department: 'Cinematography',
+      city: 'Hyderabad',
+      state: undefined,
+      gender: undefined,
+      bio: undefined,
+      isPremium: true,
+      isVerified: false,
+      lastActiveAt: null,
+      createdAt: '2024-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('caps the page size and joins contact details only when asked to', async () => {
+    await service.listProfiles({ limit: 5000 });
+    const query = (supabase.from as jest.Mock).mock.results[0].value;
+    expect(query.select).toHaveBeenCalledWith('*');
+    expect(query.limit).toHaveBeenCalledWith(51);
+
+    await service.listProfiles({}, { includeContact: true });
+    expect((supabase.from as jest.Mock).mock.results[1].value.select).toHaveBeenCalledWith('*, users!inner(phone, email)');
+  });
+});
@@ -1,21 +1,67 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
-import { UpdateProfileDto, ListProfilesQuery, BecomeRecruiterDto, UpgradePremiumDto } from './dto/profile.dto';
+import { FieldEncryptionService } from '../crypto/field-encryption.service';
+import { IdentityCacheService } from '../auth/services/identity-cache.service';
+import { AuditRequestContext, AuthAuditService } from '../auth/services/auth-audit.service';
+import { AvailabilityService } from './availability.service';
+import { ReviewsService } from '../reviews/reviews.service';
+import { SENSITIVE_PROFILE_FIELDS } from '../crypto/sensitive-fields';
+import { Ability } from '../auth/policies/ability';
+import { Policies } from '../auth/policies/policies';
+import {
+  UpdateProfileDto,
+  ListProfilesQuery,
+  AvailableArtistsQuery,
+  SearchProfilesQuery,
+  PROFILE_SEARCH_SORTS,
+  BecomeRecruiterDto,
+  UpgradePremiumDto,
+  UpdateProfileRoleDto,
+} from './dto/profile.dto';
 import { encodeCursor, decodeCursor, PaginatedResponse } from '../utils/cursor.util';
 
+const ROLE_PROFILE_TABLES = ['artist_profiles', 'recruiter_profiles'] as const;
+const SENSITIVE_MIGRATION_BATCH_SIZE = 500;
+const MAX_PAGE_SIZE = 50;
+
+/** Public profile columns for listings open to any caller, matching the fields `search_profiles` returns */
+const PUBLIC_ARTIST_COLUMNS =
+  'id, user_id, role, first_name, last_name, profile_photo_url, premium_until, verified_at, created_at, '
+  + 'artist_profiles(profile_pic, department, city, state, gender, bio)';
+
+export interface SensitiveFieldMigrationResult {
+  table: string;
+  scanned: number;
+  encrypted: number;
+  failed: string[];
+}
+
 @Injectable()
 export class ProfilesService {
   private readonly logger = new Logger(ProfilesService.name);
 
-  constructor(private readonly supabaseService: SupabaseService) {}
-
-  async listProfiles(query: ListProfilesQuery): Promise<PaginatedResponse<any>> {
-    const { cursor, limit = 20, role } = query;
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly fieldEncryptionService: FieldEncryptionService,
+    private readonly identityCacheService: IdentityCacheService,
+    private readonly authAuditService: AuthAuditService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly reviewsService: ReviewsService,
+  ) {}
+
+  /**
+   * Profiles, newest first
+   * The owner's phone and email are joined in only with `includeContact` (never for API keys).
+   */
+  async listProfiles(query: ListProfilesQuery, options: { includeContact?: boolean } = {}): Promise<PaginatedResponse<any>> {
+    const { cursor, role } = query;
+    const limit = Math.min(Math.max(query.limit || 20, 1), MAX_PAGE_SIZE);
     const supabase = this.supabaseService.getAdminClient();
+    const columns: string = options.includeContact ? '*, users!inner(phone, email)' : '*';
 
     let queryBuilder = supabase
       .from('profiles')
-      .select('*, users!inner(phone, email)')
+      .select(columns)
       .order('created_at', { ascending: false })
       .limit(limit + 1);
 
@@ -32,7 +78,8 @@ export class ProfilesService {
       }
     }
 
-    const { data, error } = await queryBuilder;
+    // The column list is chosen at runtime, so the row type cannot be inferred from it
+    const { data, error }: { data: any; error: any } = await queryBuilder;
 
     if (error) {
       throw new BadRequestException(`Failed to fetch profiles: ${error.message}`);
@@ -50,16 +97,150 @@ export class ProfilesService {
     };
   }
 
-  async getProfileById(id: string) {
+  /**
+   * Artists free on every day of a date range, newest first
+   * Busy artists are excluded in the database, so pages stay full however many there are.
+   * Returns the same public fields as talent search; contact details are never included.
+   */
+  async findAvailableArtists(query: AvailableArtistsQuery): Promise<PaginatedResponse<any>> {
+    const range = this.availabilityService.parseRange(query.from, query.to);
+    const limit = Math.min(Math.max(query.limit || 20, 1), MAX_PAGE_SIZE);
+
+    let queryBuilder = this.availabilityService
+      .availableProfiles(range, query.includeTentative)
+      .select(PUBLIC_ARTIST_COLUMNS)
+      .eq('role', 'artist')
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    const decoded = query.cursor ? decodeCursor(query.cursor) : null;
+    if (decoded) {
+      queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+    }
+
+    const { data, error }: { data: any; error: any } = await queryBuilder;
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch available artists: ${error.message}`);
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      data: page.map((row: any) => {
+        const roleProfile = (Array.isArray(row.artist_profiles) ? row.artist_profiles[0] : row.artist_profiles) || {};
+        return this.toPublicProfile({
+          ...roleProfile,
+          ...row,
+          profile_pic: roleProfile.profile_pic || row.profile_photo_url,
+          is_premium: !!row.premium_until && Date.parse(row.premium_until) > Date.now(),
+          is_verified: !!row.verified_at,
+        });
+      }),
+      nextCursor: hasMore ? encodeCursor(rows[limit - 1].created_at, rows[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Talent search over profiles
+   *
+   * `search_profiles` does the filtering and ranking in the database:
+   * - `p_query` is matched against a tsvector of first/last name (weight A) and bio (weight B),
+   *   ranked with `ts_rank_cd`; rows without a match are excluded when a query is given.
+   * - department, city, state and gender match case-insensitively against the artist or recruiter
+   *   profile; `p_premium` checks `premium_until > now()`, `p_verified` checks `profiles.verified_at`.
+   * - `p_sort` is `relevance`, `recently_active` (latest `user_sessions.last_active_at`) or `newest`.
+   *   Each row carries a text `sort_key` so pages continue after (`p_cursor_key`, `p_cursor_id`).
+   * Only public fields are returned; contact details and identifiers stay out of search results.
+   */
+  async searchProfiles(query: SearchProfilesQuery): Promise<PaginatedResponse<any>> {
+    const q = query.q?.trim() || null;
+    const sort = query.sort || (q ? 'relevance' : 'newest');
+    if (!PROFILE_SEARCH_SORTS.includes(sort)) {
+      throw new BadRequestException(`sort must be one of: ${PROFILE_SEARCH_SORTS.join(', ')}`);
+    }
+    if (sort === 'relevance' && !q) {
+      throw new BadRequestException('Sorting by relevance needs a search query (q)');
+    }
+
+    const limit = Math.min(Math.max(query.limit || 20, 1), MAX_PAGE_SIZE);
+    const decoded = query.cursor ? decodeCursor(query.cursor) : null;
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase.rpc('search_profiles', {
+      p_query: q,
+      p_role: query.role || null,
+      p_department: query.department || null,
+      p_city: query.city || null,
+      p_state: query.state || null,
+      p_gender: query.gender || null,
+      p_premium: query.premium ?? null,
+      p_verified: query.verified ?? null,
+      p_sort: sort,
+      p_cursor_key: decoded?.timestamp ?? null,
+      p_cursor_id: decoded?.id ?? null,
+      p_limit: limit + 1,
+    });
+
+    if (error) {
+      this.logger.error(`❌ Profile search failed: ${error.message}`);
+      throw new BadRequestException(`Failed to search profiles: ${error.message}`);
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      data: page.map((row: any) => ({
+        ...this.toPublicProfile(row),
+        ...(sort === 'relevance' ? { rank: row.rank } : {}),
+      })),
+      nextCursor: hasMore ? encodeCursor(rows[limit - 1].sort_key, rows[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Fields of a profile anyone may see, from a flat row shaped like a `search_profiles` result
+   */
+  private toPublicProfile(row: any) {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      role: row.role,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      profilePic: row.profile_pic,
+      department: row.department,
+      city: row.city,
+      state: row.state,
+      gender: row.gender,
+      bio: row.bio,
+      isPremium: !!row.is_premium,
+      isVerified: !!row.is_verified,
+      lastActiveAt: row.last_active_at ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * A profile with its role profile, links and ratings
+   * Without `includeContact` (API keys) the owner's login phone and email are left out.
+   */
+  async getProfileById(id: string, options: { includeContact?: boolean } = {}) {
     this.logger.log(`🔍 getProfileById called with ID: ${id}`);
     const supabase = this.supabaseService.getAdminClient();
 
+    const contactColumns: string = options.includeContact ? 'users!inner(phone, email),' : '';
+
     this.logger.log(`🔄 Querying profile with joins...`);
-    const { data, error } = await supabase
+    const { data, error }: { data: any; error: any } = await supabase
       .from('profiles')
       .select(`
         *,
-        users!inner(phone, email),
+        ${contactColumns}
         profile_social_links(*),
         artist_profiles(*),
         recruiter_profiles(*),
@@ -79,7 +260,128 @@ export class ProfilesService {
     }
 
     this.logger.log(`✅ Successfully fetched profile: ${data.first_name} ${data.last_name}, role: ${data.role}`);
-    return data;
+    const masked = await this.maskSensitiveFields(data);
+    // Embedded rows come back unordered; clients render links in the owner's order
+    masked.profile_social_links = [...(data.profile_social_links || [])]
+      .sort((a: any, b: any) => (a.order_index ?? 0) - (b.order_index ?? 0));
+    masked.ratings = await this.reviewsService.getRatingSummary(id);
+    return masked;
+  }
+
+  /**
+   * Replace sensitive identifiers in the nested role profiles with their masked form
+   */
+  private async maskSensitiveFields(profile: any) {
+    const masked = { ...profile };
+    for (const table of ROLE_PROFILE_TABLES) {
+      const nested = masked[table];
+      if (Array.isArray(nested)) {
+        masked[table] = await Promise.all(
+          nested.map((row) => this.fieldEncryptionService.maskFields(row, SENSITIVE_PROFILE_FIELDS)),
+        );
+      } else if (nested) {
+        masked[table] = await this.fieldEncryptionService.maskFields(nested, SENSITIVE_PROFILE_FIELDS);
+      }
+    }
+    return masked;
+  }
+
+  /**
+   * Full sensitive identifiers of a profile
+   * Only the owner, or an admin holding the `pii:read` permission, may read them; every read is logged.
+   */
+  async getSensitiveFields(id: string, currentUser: any) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('id, user_id, role, artist_profiles(aadhar_number), recruiter_profiles(aadhar_number)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !profile) {
+      throw new NotFoundException('Profile not found');
+    }
+
+    const ability = new Ability(currentUser || {});
+    if (!Policies.readSensitiveFields(ability, profile)) {
+      this.logger.warn(`⚠️  User ${currentUser?.id} denied sensitive fields of profile ${id}`);
+      throw new ForbiddenException('Not allowed to view these details');
+    }
+
+    const table = profile.role === 'recruiter' ? 'recruiter_profiles' : 'artist_profiles';
+    const nested = Array.isArray(profile[table]) ? profile[table][0] : profile[table];
+    const decrypted: Record<string, any> = nested
+      ? await this.fieldEncryptionService.decryptFields(nested, SENSITIVE_PROFILE_FIELDS)
+      : {};
+
+    this.logger.log(`🔓 User ${currentUser.id} (${ability.isUser(profile.user_id) ? 'owner' : currentUser.role}) read sensitive fields of profile ${id}`);
+    return {
+      profileId: profile.id,
+      aadharNumber: decrypted.aadhar_number ?? null,
+    };
+  }
+
+  /**
+   * Encrypt sensitive identifiers still stored as plaintext
+   * Safe to re-run; encrypted values are skipped.
+   */
+  async encryptLegacySensitiveFields(): Promise<SensitiveFieldMigrationResult[]> {
+    const results: SensitiveFieldMigrationResult[] = [];
+    for (const table of ROLE_PROFILE_TABLES) {
+      results.push(await this.encryptLegacyTable(table));
+    }
+
+    const encrypted = results.reduce((sum, result) => sum + result.encrypted, 0);
+    this.logger.log(`🔐 Legacy sensitive field encryption finished: ${encrypted} row(s) encrypted`);
+    return results;
+  }
+
+  private async encryptLegacyTable(table: string): Promise<SensitiveFieldMigrationResult> {
+    const supabase = this.supabaseService.getAdminClient();
+    const result: SensitiveFieldMigrationResult = { table, scanned: 0, encrypted: 0, failed: [] };
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from(table)
+        .select('profile_id, aadhar_number')
+        .not('aadhar_number', 'is', null)
+        .not('aadhar_number', 'like', 'enc:%')
+        .order('profile_id', { ascending: true })
+        .limit(SENSITIVE_MIGRATION_BATCH_SIZE);
+
+      if (lastId) {
+        query = query.gt('profile_id', lastId);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) {
+        this.logger.error(`❌ Failed to read ${table}: ${error.message}`);
+        throw new Error(`Failed to read ${table}: ${error.message}`);
+      }
+      if (!rows || rows.length === 0) break;
+
+      for (const row of rows as any[]) {
+        result.scanned++;
+        const encrypted = await this.fieldEncryptionService.encryptFields(row, SENSITIVE_PROFILE_FIELDS);
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ aadhar_number: encrypted.aadhar_number })
+          .eq('profile_id', row.profile_id);
+
+        if (updateError) {
+          this.logger.warn(`⚠️  Could not encrypt ${table} row ${row.profile_id}: ${updateError.message}`);
+          result.failed.push(row.profile_id);
+          continue;
+        }
+        result.encrypted++;
+      }
+
+      lastId = (rows[rows.length - 1] as any).profile_id;
+      if (rows.length < SENSITIVE_MIGRATION_BATCH_SIZE) break;
+    }
+
+    return result;
   }
 
   async updateProfile(id: string, updateData: UpdateProfileDto) {
@@ -139,6 +441,8 @@ export class ProfilesService {
           throw new BadRequestException(`Failed to update profile: ${profileError.message}`);
         }
         this.logger.log(`✅ Profiles table updated successfully`);
+        // Names are part of the cached identity
+        await this.identityCacheService.invalidateByProfile(id);
       }
 
       // Update role-specific table if there are fields to update
@@ -180,6 +484,10 @@ export class ProfilesService {
     }
   }
 
+  /**
+   * Add a recruiter profile next to the user's existing profile
+   * The artist profile stays as it is; the app switches between them with POST /auth/switch-profile.
+   */
   async becomeRecruiter(profileId: string, becomeRecruiterDto: BecomeRecruiterDto) {
     const supabase = this.supabaseService.getAdminClient();
 
@@ -187,7 +495,7 @@ export class ProfilesService {
       // Get profile to verify it exists and get user_id
       const { data: profile, error: fetchError } = await supabase
         .from('profiles')
-        .select('user_id, role')
+        .select('user_id, role, first_name, last_name, profile_photo_url')
         .eq('id', profileId)
         .single();
 
@@ -195,38 +503,50 @@ export class ProfilesService {
         throw new NotFoundException('Profile not found');
       }
 
-      // Check if already a recruiter
-      if (profile.role === 'recruiter') {
+      // Check if the user already has a recruiter profile
+      const { data: existingRecruiter } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('user_id', profile.user_id)
+        .eq('role', 'recruiter')
+        .limit(1)
+        .maybeSingle();
+
+      if (profile.role === 'recruiter' || existingRecruiter) {
         throw new BadRequestException('User is already a recruiter');
       }
 
-      // Update profile role to recruiter
-      const { error: profileError } = await supabase
+      // Create the recruiter's base profile for the same user
+      const { data: newProfile, error: profileError } = await supabase
         .from('profiles')
-        .update({ role: 'recruiter' })
-        .eq('id', profileId);
+        .insert({
+          user_id: profile.user_id,
+          role: 'recruiter',
+          first_name: profile.first_name,
+          last_name: profile.last_name,
+          profile_photo_url: profile.profile_photo_url,
+        })
+        .select()
+        .single();
 
-      if (profileError) {
-        this.logger.error('Failed to update profile role:', profileError);
-        throw new BadRequestException('Failed to update role');
+      if (profileError || !newProfile) {
+        this.logger.error('Failed to create recruiter base profile:', profileError);
+        throw new BadRequestException('Failed to create recruiter profile');
       }
 
-      // Create recruiter profile first
+      // Create recruiter profile
       const { data: recruiterProfile, error: recruiterProfileError } = await supabase
         .from('recruiter_profiles')
         .insert({
-          profile_id: profileId,
+          profile_id: newProfile.id,
         })
         .select()
         .single();
 
       if (recruiterProfileError || !recruiterProfile) {
         this.logger.error('Failed to create recruiter profile:', recruiterProfileError);
-        // Rollback profile update
-        await supabase
-          .from('profiles')
-          .update({ role: 'artist' })
-          .eq('id', profileId);
+        // Rollback the new base profile
+        await supabase.from('profiles').delete().eq('id', newProfile.id);
         throw new BadRequestException('Failed to create recruiter profile');
       }
 
@@ -245,19 +565,19 @@ export class ProfilesService {
 
       if (companyError) {
         this.logger.error('Failed to create company:', companyError);
-        // Rollback profile update
-        await supabase
-          .from('profiles')
-          .update({ role: 'artist' })
-          .eq('id', profileId);
+        // Rollback the new recruiter profile
+        await supabase.from('recruiter_profiles').delete().eq('id', recruiterProfile.id);
+        await supabase.from('profiles').delete().eq('id', newProfile.id);
         throw new BadRequestException('Failed to create company');
       }
 
-      this.logger.log(`Profile ${profileId} successfully became recruiter`);
+      await this.identityCacheService.invalidate(profile.user_id);
+      this.logger.log(`User ${profile.user_id} added recruiter profile ${newProfile.id}`);
 
       return {
         success: true,
-        message: 'Successfully became a recruiter',
+        message: 'Recruiter profile created. Switch to it with POST /auth/switch-profile.',
+        profile: newProfile,
         company,
       };
     } catch (error) {
@@ -266,6 +586,54 @@ export class ProfilesService {
     }
   }
 
+  /**
+   * Change a profile's role and optionally its permissions (admin only)
+   * Takes effect on the user's next request.
+   */
+  async updateRole(profileId: string, dto: UpdateProfileRoleDto, actorId?: string, context: AuditRequestContext = {}) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data: previous } = await supabase
+      .from('profiles')
+      .select('role, permissions')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    const update: Record<string, any> = { role: dto.role };
+    if (dto.permissions) {
+      update.permissions = dto.permissions;
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .update(update)
+      .eq('id', profileId)
+      .select('id, user_id, role, permissions')
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`❌ Role update failed for profile ${profileId}: ${error.message}`);
+      throw new BadRequestException('Failed to update role');
+    }
+    if (!profile) {
+      throw new NotFoundException('Profile not found');
+    }
+
+    await this.identityCacheService.invalidate(profile.user_id);
+    await this.authAuditService.record('role_change', {
+      outcome: 'success',
+      userId: profile.user_id,
+      profileId: profile.id,
+      actorId,
+      metadata: {
+        from: { role: previous?.role, permissions: previous?.permissions || [] },
+        to: { role: profile.role, permissions: profile.permissions || [] },
+      },
+      context,
+    });
+    this.logger.log(`🛡️  Profile ${profileId} is now ${profile.role}`);
+    return { success: true, profile };
+  }
+
   async upgradePremium(profileId: string, upgradePremiumDto: UpgradePremiumDto) {
     const supabase = this.supabaseService.getAdminClient();
 
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SocialLinksService } from './social-links.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { createQueuedDbChain } from '../test-utils/queued-db-chain';
+
+describe('SocialLinksService', () => {
+  let service: SocialLinksService;
+  let results: any[];
+
+  const mockDbChain = createQueuedDbChain(() => results);
+
+  const instagram = { id: 'link-1', platform: 'instagram', url: 'https://www.instagram.com/john/', order_index: 0 };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    results = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SocialLinksService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+      ],
+    }).compile();
+
+    service = module.get<SocialLinksService>(SocialLinksService);
+  });
+
+  it('stores links in canonical form at the end of the list', async () => {
+    results = [{ data: [instagram], error: null }, { data: { id: 'link-2' }, error: null }];
+
+    await service.addLink('artist-1', { platform: 'imdb', url: 'https://m.imdb.com/name/nm0000123/?ref_=fn' });
+
+    expect(mockDbChain.insert).toHaveBeenCalledWith({
+      profile_id: 'artist-1',
+      platform: 'imdb',
+      url: 'https://www.imdb.com/name/nm0000123/',
+      handle: 'nm0000123',
+      is_custom: false,
+      order_index: 1,
+    });
+  });
+
+  it('rejects invalid and duplicate platform links', async () => {
+    await expect(service.addLink('artist-1', { platform: 'linkedin', url: 'https://example.com/in/john' }))
+      .rejects.toThrow(new BadRequestException('Not a valid linkedin link'));
+
+    results = [{ data: [instagram], error: null }];
+    await expect(service.addLink('artist-1', { platform: 'instagram', url: '@someone_else' })).rejects.toThrow(BadRequestException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+
+  it('requires every link when reordering', async () => {
+    results = [{ data: [instagram, { ...instagram, id: 'link-2' }], error: null }];
+
+    await expect(service.reorderLinks('artist-1', ['link-2'])).rejects.toThrow(BadRequestException);
+    expect(mockDbChain.update).not.toHaveBeenCalled();
+  });
+
+  it('only removes links of the given profile', async () => {
+    results = [{ data: [], error: null }];
+
+    await expect(service.removeLink('artist-1', 'link-9')).rejects.toThrow(NotFoundException);
+    expect(mockDbChain.eq).toHaveBeenCalledWith('profile_id', 'artist-1');
+  });
+});
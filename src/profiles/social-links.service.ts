@@ -0,0 +1,113 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { canonicalizeSocialLink } from '../utils/social-link.util';
+import { AddSocialLinkDto } from './dto/profile.dto';
+
+const MAX_SOCIAL_LINKS = 15;
+
+/**
+ * Links shown on a profile (`profile_social_links`), in the owner's order
+ * Signup seeds them; these methods back the `/profiles/:id/social-links` endpoints.
+ */
+@Injectable()
+export class SocialLinksService {
+  private readonly logger = new Logger(SocialLinksService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async listLinks(profileId: string) {
+    const { data, error } = await this.supabaseService.getAdminClient()
+      .from('profile_social_links')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('order_index', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch social links: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Add a link at the end, stored in its platform's canonical form
+   * One link per platform, except custom links (which only need distinct URLs).
+   */
+  async addLink(profileId: string, dto: AddSocialLinkDto) {
+    const canonical = canonicalizeSocialLink(dto.platform, dto.url);
+    if (!canonical) {
+      throw new BadRequestException(`Not a valid ${dto.platform} link`);
+    }
+
+    const existing = await this.listLinks(profileId);
+    if (existing.length >= MAX_SOCIAL_LINKS) {
+      throw new BadRequestException(`A profile can have at most ${MAX_SOCIAL_LINKS} links`);
+    }
+
+    const isCustom = dto.platform === 'custom';
+    if (!isCustom && existing.some((link: any) => link.platform === dto.platform)) {
+      throw new BadRequestException(`The profile already has a ${dto.platform} link; remove it first`);
+    }
+    if (existing.some((link: any) => link.url === canonical.url)) {
+      throw new BadRequestException('The profile already has this link');
+    }
+
+    const { data: link, error } = await this.supabaseService.getAdminClient()
+      .from('profile_social_links')
+      .insert({
+        profile_id: profileId,
+        platform: dto.platform,
+        url: canonical.url,
+        handle: canonical.handle,
+        is_custom: isCustom,
+        order_index: existing.length ? Math.max(...existing.map((row: any) => row.order_index ?? 0)) + 1 : 0,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to add social link: ${error.message}`);
+    }
+
+    this.logger.log(`🔗 Added ${dto.platform} link to profile ${profileId}`);
+    return link;
+  }
+
+  /**
+   * Set the order from `ids`, which must list every link of the profile once
+   */
+  async reorderLinks(profileId: string, ids: string[]) {
+    const existing = await this.listLinks(profileId);
+    const existingIds = new Set(existing.map((link: any) => link.id));
+    if (new Set(ids).size !== ids.length || ids.length !== existingIds.size || !ids.every((id) => existingIds.has(id))) {
+      throw new BadRequestException('ids must list every link of the profile exactly once');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const results = await Promise.all(
+      ids.map((id, index) => supabase.from('profile_social_links').update({ order_index: index }).eq('id', id)),
+    );
+
+    const failed = results.find((result) => result.error)?.error;
+    if (failed) {
+      throw new BadRequestException(`Failed to save the new order: ${failed.message}`);
+    }
+    return this.listLinks(profileId);
+  }
+
+  async removeLink(profileId: string, linkId: string) {
+    const { data, error } = await this.supabaseService.getAdminClient()
+      .from('profile_social_links')
+      .delete()
+      .eq('id', linkId)
+      .eq('profile_id', profileId)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(`Failed to remove social link: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new NotFoundException('Social link not found');
+    }
+    return { success: true };
+  }
+}
@@ -7,22 +7,29 @@ import {
   Query,
   UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiSecurity } from '@nestjs/swagger';
 import { ProjectsService } from './projects.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentProfile } from '../auth/decorators/current-user.decorator';
 import { CreateProjectDto, AddProjectMemberDto } from './dto/project.dto';
+import { ProjectLoader } from './projects.loaders';
 
 @ApiTags('Projects')
 @ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
 @Controller('projects')
-@UseGuards(JwtAuthGuard)
+@UseGuards(ApiKeyOrJwtGuard)
 export class ProjectsController {
   constructor(private readonly projectsService: ProjectsService) {}
 
   @Get()
+  @ApiKeyScope('projects:read')
   @ApiOperation({ summary: 'List projects', description: 'Get paginated list of projects' })
   @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page', example: 20 })
@@ -41,6 +48,7 @@ export class ProjectsController {
   }
 
   @Get(':id')
+  @ApiKeyScope('projects:read')
   @ApiOperation({ summary: 'Get project by ID', description: 'Get detailed project information' })
   @ApiParam({ name: 'id', description: 'Project UUID' })
   @ApiResponse({ status: 200, description: 'Project details returned successfully' })
@@ -63,12 +71,13 @@ export class ProjectsController {
   }
 
   @Post(':id/members')
-  @Roles('recruiter', 'admin')
-  @UseGuards(RolesGuard)
-  @ApiOperation({ summary: 'Add project member', description: 'Add a member to a project. Recruiters and admins only.' })
+  @UseGuards(PoliciesGuard)
+  @CheckPolicy(Policies.manageProject, { loader: ProjectLoader, message: 'You can only manage your own projects' })
+  @ApiOperation({ summary: 'Add project member', description: 'Add a member to one of your projects. Recruiters and admins only.' })
   @ApiParam({ name: 'id', description: 'Project UUID' })
   @ApiResponse({ status: 201, description: 'Member added successfully' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Recruiters and admins only' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not your project' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
   async addMember(
     @Param('id') projectId: string,
     @Body() addMemberDto: AddProjectMemberDto,
@@ -0,0 +1,24 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ResourceLoader } from '../auth/policies/check-policy.decorator';
+
+/**
+ * The project named by `:id`
+ */
+@Injectable()
+export class ProjectLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: project } = await this.supabaseService.getAdminClient()
+      .from('projects')
+      .select('id, created_by')
+      .eq('id', request.params.id)
+      .maybeSingle();
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+}
@@ -0,0 +1,54 @@
+import { RedisService } from './redis.service';
+
+describe('RedisService in-memory fallback', () => {
+  const createService = (maxEntries?: number) =>
+    new RedisService({
+      get: jest.fn((key: string) => (key === 'REDIS_MEMORY_MAX_ENTRIES' ? maxEntries : undefined)),
+    } as any);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sweeps expired keys that are never read again', async () => {
+    const service = createService();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await service.set('short', '1', 10);
+    await service.set('long', '2', 3600);
+    await service.set('forever', '3');
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60 * 1000);
+
+    expect(service.sweepExpired()).toBe(1);
+    expect(await service.get('short')).toBeNull();
+    expect(await service.get('long')).toBe('2');
+    expect(await service.get('forever')).toBe('3');
+  });
+
+  it('evicts the least recently written keys beyond the cap', async () => {
+    const service = createService(2);
+    await service.set('a', '1');
+    await service.set('b', '2');
+    await service.set('a', '1b');
+    await service.set('c', '3');
+
+    expect(await service.get('b')).toBeNull();
+    expect(await service.get('a')).toBe('1b');
+    expect(await service.get('c')).toBe('3');
+  });
+
+  it('drops expired keys before evicting live ones', async () => {
+    const service = createService(2);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await service.set('live', '1');
+    await service.setIfAbsent('lock', 'owner', 5);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 1000);
+    await service.incr('counter', 60);
+
+    expect(await service.get('live')).toBe('1');
+    expect(await service.get('counter')).toBe('1');
+  });
+});
@@ -0,0 +1,240 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+
+/** How often expired entries are swept from the in-memory fallback */
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MEMORY_MAX_ENTRIES = 10000;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Small key-value store shared across instances through Redis
+ *
+ * Falls back to a process-local in-memory map when Redis is unavailable,
+ * so single-instance deployments and local development keep working.
+ * The fallback is swept for expired keys every minute and capped at
+ * REDIS_MEMORY_MAX_ENTRIES, evicting the least recently written keys first.
+ */
+@Injectable()
+export class RedisService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+  private client?: RedisClientType;
+  private readonly memory = new Map<string, MemoryEntry>();
+  private readonly memoryMaxEntries: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private readonly configService: ConfigService) {
+    this.memoryMaxEntries =
+      Number(this.configService.get<string>('REDIS_MEMORY_MAX_ENTRIES')) || DEFAULT_MEMORY_MAX_ENTRIES;
+  }
+
+  async onModuleInit() {
+    this.sweepTimer = setInterval(() => this.sweepExpired(), MEMORY_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    const redisUrl = this.configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
+    let connected = false;
+    try {
+      const client: RedisClientType = createClient({
+        url: redisUrl,
+        socket: {
+          // Give up quickly on the first connection; keep retrying once we have been connected
+          reconnectStrategy: (retries: number) =>
+            connected ? Math.min(retries * 100, 3000) : retries > 2 ? new Error('Redis unavailable') : 200,
+        },
+      });
+      client.on('error', (err) => this.logger.debug(`Redis error: ${err?.message || err}`));
+      await client.connect();
+      connected = true;
+      this.client = client;
+      this.logger.log(`✅ Connected key-value store to Redis at ${redisUrl}`);
+    } catch (err: any) {
+      this.logger.warn(`⚠️  Redis unavailable, using in-memory key-value store: ${err?.message || err}`);
+      this.client = undefined;
+    }
+  }
+
+  async onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    if (this.client?.isOpen) {
+      await this.client.quit().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whether values are shared through Redis (false means in-memory only)
+   */
+  isDistributed(): boolean {
+    return !!this.client?.isReady;
+  }
+
+  async get(key: string): Promise<string | null> {
+    if (this.isDistributed()) {
+      try {
+        return await this.client!.get(key);
+      } catch (err: any) {
+        this.logger.warn(`Redis GET failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    return this.memoryGet(key);
+  }
+
+  /**
+   * Set a value, optionally expiring after `ttlSeconds`
+   */
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    if (this.isDistributed()) {
+      try {
+        if (ttlSeconds && ttlSeconds > 0) {
+          await this.client!.set(key, value, { EX: Math.ceil(ttlSeconds) });
+        } else {
+          await this.client!.set(key, value);
+        }
+        return;
+      } catch (err: any) {
+        this.logger.warn(`Redis SET failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    this.memorySet(key, {
+      value,
+      expiresAt: ttlSeconds && ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : undefined,
+    });
+  }
+
+  async del(key: string): Promise<void> {
+    if (this.isDistributed()) {
+      try {
+        await this.client!.del(key);
+        return;
+      } catch (err: any) {
+        this.logger.warn(`Redis DEL failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    this.memory.delete(key);
+  }
+
+  /**
+   * Set a value only if the key does not exist yet (SET NX)
+   * Returns whether this call created the key; used as a lock across instances.
+   */
+  async setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean> {
+    if (this.isDistributed()) {
+      try {
+        const reply = await this.client!.set(key, value, { NX: true, EX: Math.ceil(ttlSeconds) });
+        return reply === 'OK';
+      } catch (err: any) {
+        this.logger.warn(`Redis SET NX failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    if (this.memoryGet(key) !== null) return false;
+    this.memorySet(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return true;
+  }
+
+  /**
+   * Delete a key only while it still holds `value`, so a lock is released by its owner only
+   */
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    if (this.isDistributed()) {
+      try {
+        const deleted = await this.client!.eval(
+          "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end",
+          { keys: [key], arguments: [value] },
+        );
+        return deleted === 1;
+      } catch (err: any) {
+        this.logger.warn(`Redis compare-and-delete failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    if (this.memoryGet(key) !== value) return false;
+    this.memory.delete(key);
+    return true;
+  }
+
+  /**
+   * Increment a counter, starting its `ttlSeconds` expiry window when it is first created
+   */
+  async incr(key: string, ttlSeconds: number): Promise<number> {
+    if (this.isDistributed()) {
+      try {
+        const value = await this.client!.incr(key);
+        if (value === 1) {
+          await this.client!.expire(key, Math.ceil(ttlSeconds));
+        }
+        return value;
+      } catch (err: any) {
+        this.logger.warn(`Redis INCR failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    const current = this.memoryGet(key);
+    const value = (current ? parseInt(current, 10) : 0) + 1;
+    const expiresAt = current ? this.memory.get(key)?.expiresAt : Date.now() + ttlSeconds * 1000;
+    this.memorySet(key, { value: String(value), expiresAt });
+    return value;
+  }
+
+  /**
+   * Seconds until a key expires; 0 when it is missing or has no expiry
+   */
+  async ttl(key: string): Promise<number> {
+    if (this.isDistributed()) {
+      try {
+        const seconds = await this.client!.ttl(key);
+        return seconds > 0 ? seconds : 0;
+      } catch (err: any) {
+        this.logger.warn(`Redis TTL failed for ${key}, using memory: ${err?.message || err}`);
+      }
+    }
+    if (this.memoryGet(key) === null) return 0;
+    const expiresAt = this.memory.get(key)?.expiresAt;
+    return expiresAt ? Math.ceil((expiresAt - Date.now()) / 1000) : 0;
+  }
+
+  private memoryGet(key: string): string | null {
+    const entry = this.memory.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Write to the in-memory fallback, evicting the least recently written keys beyond the cap
+   */
+  private memorySet(key: string, entry: MemoryEntry): void {
+    // Re-insert so the Map's iteration order tracks write recency
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    if (this.memory.size <= this.memoryMaxEntries) return;
+
+    this.sweepExpired();
+    for (const oldest of this.memory.keys()) {
+      if (this.memory.size <= this.memoryMaxEntries) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop expired entries from the in-memory fallback
+   */
+  sweepExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.memory) {
+      if (entry.expiresAt && entry.expiresAt <= now) {
+        this.memory.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
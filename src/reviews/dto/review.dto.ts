@@ -0,0 +1,90 @@
+import { IsString, IsOptional, IsNotEmpty, IsUUID, IsInt, IsIn, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Rated 1-5 in every review */
+export const REVIEW_DIMENSIONS = ['professionalism', 'punctuality', 'skill'] as const;
+
+export type ReviewDimension = (typeof REVIEW_DIMENSIONS)[number];
+
+export const REVIEW_REPORT_REASONS = ['harassment', 'hate_speech', 'spam', 'false_information', 'other'] as const;
+
+export type ReviewReportReason = (typeof REVIEW_REPORT_REASONS)[number];
+
+export class CreateReviewDto {
+  @ApiProperty({ description: 'Project both profiles worked on', example: 'uuid' })
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty({ description: 'Profile being reviewed', example: 'uuid' })
+  @IsUUID()
+  revieweeProfileId: string;
+
+  @ApiProperty({ description: 'Professionalism, 1-5 stars', example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  professionalism: number;
+
+  @ApiProperty({ description: 'Punctuality, 1-5 stars', example: 4 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  punctuality: number;
+
+  @ApiProperty({ description: 'Skill, 1-5 stars', example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  skill: number;
+
+  @ApiPropertyOptional({ description: 'Written review', example: 'Came prepared and nailed every take.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class RespondToReviewDto {
+  @ApiProperty({ description: 'Public response of the reviewed profile', example: 'Thank you, it was a pleasure working with the team!' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  response: string;
+}
+
+export class ReportReviewDto {
+  @ApiProperty({ description: 'Why the review should be moderated', enum: REVIEW_REPORT_REASONS, example: 'harassment' })
+  @IsIn(REVIEW_REPORT_REASONS)
+  reason: ReviewReportReason;
+
+  @ApiPropertyOptional({ description: 'Anything the moderators should know', example: 'Insults my family, unrelated to the project' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class ResolveReviewReportDto {
+  @ApiProperty({ description: '`hide` takes the review down, `dismiss` keeps it', enum: ['hide', 'dismiss'], example: 'hide' })
+  @IsIn(['hide', 'dismiss'])
+  action: 'hide' | 'dismiss';
+
+  @ApiPropertyOptional({ description: 'Moderator note', example: 'Personal attack' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export interface ListReviewsQuery {
+  /** Reviews received by this profile */
+  profileId: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ListReviewReportsQuery {
+  status?: string;
+  cursor?: string;
+  limit?: number;
+}
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiSecurity } from '@nestjs/swagger';
+import { ReviewsService } from './reviews.service';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
+import { CurrentProfile } from '../auth/decorators/current-user.decorator';
+import { CreateReviewDto, ReportReviewDto, RespondToReviewDto } from './dto/review.dto';
+import { ReviewLoader } from './reviews.loaders';
+
+@ApiTags('Reviews')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('reviews')
+@UseGuards(ApiKeyOrJwtGuard, PoliciesGuard)
+export class ReviewsController {
+  private readonly logger = new Logger(ReviewsController.name);
+
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Get()
+  @ApiKeyScope('profiles:read')
+  @ApiOperation({ summary: 'List reviews', description: 'Published reviews received by a profile, newest first' })
+  @ApiQuery({ name: 'profileId', required: true, description: 'Reviewed profile UUID' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of results per page', example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Reviews returned successfully',
+    schema: {
+      example: {
+        data: [{
+          id: 'uuid', project_id: 'uuid', reviewee_profile_id: 'uuid', professionalism: 5, punctuality: 4, skill: 5,
+          comment: 'Came prepared and nailed every take.', response: null, responded_at: null, created_at: '2024-01-01T00:00:00.000Z',
+          reviewer: { id: 'uuid', first_name: 'Asha', last_name: 'Rao', profile_photo_url: null, role: 'recruiter' },
+          projects: { id: 'uuid', title: 'Feature Film Production' },
+        }],
+        nextCursor: null,
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'profileId missing' })
+  async listReviews(
+    @Query('profileId') profileId: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.logger.log(`🌐 GET /reviews - profileId: ${profileId}`);
+    return this.reviewsService.listReviews({
+      profileId,
+      cursor,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post()
+  @CheckPolicy(Policies.writeReview)
+  @ApiOperation({
+    summary: 'Review a collaborator',
+    description: 'Recruiters rate artists and artists rate recruiters they worked with on a project (both must be on it) '
+      + 'once its end date has passed. One review per person per project.',
+  })
+  @ApiResponse({ status: 201, description: 'Review created successfully' })
+  @ApiResponse({ status: 400, description: 'Project still running or without an end date, self-review, or already reviewed' })
+  @ApiResponse({ status: 403, description: 'You did not work together on this project, or are not a recruiter and an artist' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async createReview(@Body() dto: CreateReviewDto, @CurrentProfile('profileId') profileId: string) {
+    this.logger.log(`🌐 POST /reviews - reviewer: ${profileId}, reviewee: ${dto.revieweeProfileId}`);
+    return this.reviewsService.createReview(profileId, dto);
+  }
+
+  @Put(':id/response')
+  @CheckPolicy(Policies.respondToReview, { loader: ReviewLoader, message: 'You can only respond to reviews of your profile' })
+  @ApiOperation({ summary: 'Respond to a review', description: 'Publicly answer a review of your profile. One response per review.' })
+  @ApiParam({ name: 'id', description: 'Review UUID' })
+  @ApiResponse({ status: 200, description: 'Response saved' })
+  @ApiResponse({ status: 400, description: 'Already responded' })
+  @ApiResponse({ status: 403, description: 'Not a review of your profile' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async respond(@Param('id') id: string, @Body() dto: RespondToReviewDto) {
+    return this.reviewsService.respond(id, dto.response);
+  }
+
+  @Post(':id/report')
+  @ApiOperation({ summary: 'Report a review', description: 'Flag an abusive review for moderation' })
+  @ApiParam({ name: 'id', description: 'Review UUID' })
+  @ApiResponse({ status: 201, description: 'Report received', schema: { example: { success: true, reportId: 'uuid' } } })
+  @ApiResponse({ status: 400, description: 'Reporting your own review' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async report(
+    @Param('id') id: string,
+    @Body() dto: ReportReviewDto,
+    @CurrentProfile('profileId') profileId: string,
+  ) {
+    return this.reviewsService.reportReview(id, profileId, dto);
+  }
+}
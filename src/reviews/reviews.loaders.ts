@@ -0,0 +1,24 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ResourceLoader } from '../auth/policies/check-policy.decorator';
+
+/**
+ * The review named by `:id`
+ */
+@Injectable()
+export class ReviewLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: review } = await this.supabaseService.getAdminClient()
+      .from('reviews')
+      .select('id, reviewer_profile_id, reviewee_profile_id, status')
+      .eq('id', request.params.id)
+      .maybeSingle();
+
+    if (!review || review.status !== 'published') {
+      throw new NotFoundException('Review not found');
+    }
+    return review;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsService } from './reviews.service';
+import { ReviewLoader } from './reviews.loaders';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [SupabaseModule, AuthModule],
+  controllers: [ReviewsController],
+  providers: [ReviewsService, ReviewLoader],
+  exports: [ReviewsService],
+})
+export class ReviewsModule {}
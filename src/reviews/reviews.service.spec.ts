@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { createQueuedDbChain } from '../test-utils/queued-db-chain';
+
+describe('ReviewsService', () => {
+  let service: ReviewsService;
+  let results: any[];
+
+  const mockDbChain = createQueuedDbChain(() => results);
+
+  const dto = { projectId: 'project-1', revieweeProfileId: 'artist-1', professionalism: 5, punctuality: 4, skill: 5, comment: '  Great  ' };
+  const endedProject = { data: { id: 'project-1', created_by: 'recruiter-1', end_date: '2024-01-31' } };
+  const roles = { data: [{ id: 'recruiter-1', role: 'recruiter' }, { id: 'artist-1', role: 'artist' }], error: null };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    results = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewsService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+      ],
+    }).compile();
+
+    service = module.get<ReviewsService>(ReviewsService);
+  });
+
+  it('lets the project creator review a member once the project has ended', async () => {
+    results = [
+      endedProject,
+      { data: [{ profile_id: 'artist-1' }], error: null },
+      roles,
+      { data: null },
+      { data: { id: 'review-1' }, error: null },
+    ];
+
+    await service.createReview('recruiter-1', dto);
+
+    expect(mockDbChain.in).toHaveBeenCalledWith('profile_id', ['recruiter-1', 'artist-1']);
+    expect(mockDbChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      reviewer_profile_id: 'recruiter-1',
+      reviewee_profile_id: 'artist-1',
+      comment: 'Great',
+      status: 'published',
+    }));
+  });
+
+  it('refuses profiles that did not share the project', async () => {
+    results = [endedProject, { data: [{ profile_id: 'artist-1' }], error: null }];
+
+    await expect(service.createReview('artist-2', dto)).rejects.toThrow(ForbiddenException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+
+  it('refuses self-reviews and projects still running', async () => {
+    await expect(service.createReview('artist-1', dto)).rejects.toThrow(BadRequestException);
+
+    results = [{ data: { id: 'project-1', created_by: 'recruiter-1', end_date: new Date(Date.now() + 86400000).toISOString() } }];
+    await expect(service.createReview('recruiter-1', dto)).rejects.toThrow('Reviews open once the project has ended');
+
+    results = [{ data: { id: 'project-1', created_by: 'recruiter-1', end_date: null } }];
+    await expect(service.createReview('recruiter-1', dto)).rejects.toThrow('Reviews open once the project has ended');
+  });
+
+  it('refuses reviews between two artists or two recruiters', async () => {
+    results = [
+      endedProject,
+      { data: [{ profile_id: 'artist-1' }], error: null },
+      { data: [{ id: 'recruiter-1', role: 'artist' }, { id: 'artist-1', role: 'artist' }], error: null },
+    ];
+
+    await expect(service.createReview('recruiter-1', dto)).rejects.toThrow(ForbiddenException);
+    expect(mockDbChain.insert).not.toHaveBeenCalled();
+  });
+
+  it('reads rating averages aggregated in the database', async () => {
+    results = [{
+      data: { review_count: 2, average: 4.2, professionalism: 4.5, punctuality: '3.5', skill: 4.5 },
+      error: null,
+    }];
+
+    expect(await service.getRatingSummary('artist-1')).toEqual({
+      count: 2,
+      average: 4.2,
+      professionalism: 4.5,
+      punctuality: 3.5,
+      skill: 4.5,
+    });
+    expect(mockDbChain.rpc).toHaveBeenCalledWith('profile_rating_summary', { p_profile_id: 'artist-1' });
+    expect(mockDbChain.from).not.toHaveBeenCalled();
+  });
+
+  it('caps the page size of review listings', async () => {
+    results = [{ data: [], error: null }];
+
+    await service.listReviews({ profileId: 'artist-1', limit: 500 });
+
+    expect(mockDbChain.limit).toHaveBeenCalledWith(101);
+  });
+
+  it('has no averages without reviews', async () => {
+    results = [{ data: { review_count: 0, average: null, professionalism: null, punctuality: null, skill: null }, error: null }];
+
+    expect(await service.getRatingSummary('artist-1')).toEqual({
+      count: 0,
+      average: null,
+      professionalism: null,
+      punctuality: null,
+      skill: null,
+    });
+  });
+
+  it('hides a reported review and closes its open reports', async () => {
+    results = [{ data: { id: 'report-1', review_id: 'review-1', status: 'open' } }, { error: null }];
+
+    const result = await service.resolveReport('report-1', 'admin-1', { action: 'hide' });
+
+    expect(result).toEqual({ success: true, action: 'hide', reviewId: 'review-1' });
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'hidden' }));
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'actioned', resolved_by: 'admin-1' }));
+  });
+});
@@ -0,0 +1,354 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { encodeCursor, decodeCursor, PaginatedResponse } from '../utils/cursor.util';
+import {
+  CreateReviewDto,
+  ListReviewReportsQuery,
+  ListReviewsQuery,
+  REVIEW_DIMENSIONS,
+  ReportReviewDto,
+  ResolveReviewReportDto,
+} from './dto/review.dto';
+
+export interface RatingSummary {
+  count: number;
+  /** Mean of the three dimensions, one decimal; null without reviews */
+  average: number | null;
+  professionalism: number | null;
+  punctuality: number | null;
+  skill: number | null;
+}
+
+/** Role pairs that may review each other: recruiters review artists and artists review recruiters */
+const REVIEWABLE_ROLES: Record<string, string> = { recruiter: 'artist', artist: 'recruiter' };
+
+/**
+ * Two-way reviews between recruiters and artists that worked on the same project
+ *
+ * A profile may review another once per project when both are on it, as a `project_members`
+ * row or as the project's creator, one is a recruiter and the other an artist, and the
+ * project's end date has passed.
+ * Reviews (`reviews`) are rated 1-5 per dimension and the reviewed profile can answer once.
+ * Anyone can report a review (`review_reports`); moderators hide it or dismiss the report.
+ * Hidden reviews leave the listings and the rating summary.
+ */
+@Injectable()
+export class ReviewsService {
+  private readonly logger = new Logger(ReviewsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async createReview(reviewerProfileId: string, dto: CreateReviewDto) {
+    if (reviewerProfileId === dto.revieweeProfileId) {
+      throw new BadRequestException('You cannot review yourself');
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, created_by, end_date')
+      .eq('id', dto.projectId)
+      .maybeSingle();
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    if (!project.end_date || new Date(project.end_date).getTime() > Date.now()) {
+      throw new BadRequestException('Reviews open once the project has ended');
+    }
+
+    const { data: members, error: membersError } = await supabase
+      .from('project_members')
+      .select('profile_id')
+      .eq('project_id', dto.projectId)
+      .in('profile_id', [reviewerProfileId, dto.revieweeProfileId]);
+
+    if (membersError) {
+      throw new BadRequestException(`Failed to check project members: ${membersError.message}`);
+    }
+
+    const onProject = new Set([project.created_by, ...members.map((member: any) => member.profile_id)]);
+    if (!onProject.has(reviewerProfileId) || !onProject.has(dto.revieweeProfileId)) {
+      throw new ForbiddenException('You can only review people you worked with on this project');
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .in('id', [reviewerProfileId, dto.revieweeProfileId]);
+
+    if (profilesError) {
+      throw new BadRequestException(`Failed to check profile roles: ${profilesError.message}`);
+    }
+
+    const roleOf = (id: string) => profiles.find((profile: any) => profile.id === id)?.role;
+    const reviewerRole = roleOf(reviewerProfileId);
+    if (!reviewerRole || REVIEWABLE_ROLES[reviewerRole] !== roleOf(dto.revieweeProfileId)) {
+      throw new ForbiddenException('Recruiters and artists can only review each other');
+    }
+
+    const { data: existing } = await supabase
+      .from('reviews')
+      .select('id')
+      .eq('project_id', dto.projectId)
+      .eq('reviewer_profile_id', reviewerProfileId)
+      .eq('reviewee_profile_id', dto.revieweeProfileId)
+      .maybeSingle();
+
+    if (existing) {
+      throw new BadRequestException('You have already reviewed this profile for this project');
+    }
+
+    const { data: review, error } = await supabase
+      .from('reviews')
+      .insert({
+        project_id: dto.projectId,
+        reviewer_profile_id: reviewerProfileId,
+        reviewee_profile_id: dto.revieweeProfileId,
+        professionalism: dto.professionalism,
+        punctuality: dto.punctuality,
+        skill: dto.skill,
+        comment: dto.comment?.trim() || null,
+        status: 'published',
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to create review: ${error.message}`);
+    }
+
+    this.logger.log(`⭐ Profile ${reviewerProfileId} reviewed ${dto.revieweeProfileId} for project ${dto.projectId}`);
+    return review;
+  }
+
+  /**
+   * Published reviews received by a profile, newest first
+   */
+  async listReviews(query: ListReviewsQuery): Promise<PaginatedResponse<any>> {
+    const { profileId, cursor, limit: requested = 20 } = query;
+    const limit = Math.min(requested, 100);
+    if (!profileId) {
+      throw new BadRequestException('profileId is required');
+    }
+
+    let queryBuilder = this.supabaseService.getAdminClient()
+      .from('reviews')
+      .select(`
+        id, project_id, reviewee_profile_id, professionalism, punctuality, skill, comment, response, responded_at, created_at,
+        reviewer:profiles!reviewer_profile_id(id, first_name, last_name, profile_photo_url, role),
+        projects(id, title)
+      `)
+      .eq('reviewee_profile_id', profileId)
+      .eq('status', 'published')
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch reviews: ${error.message}`);
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].created_at, data[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Average ratings of a profile over its published reviews
+   *
+   * `profile_rating_summary(p_profile_id)` aggregates in the database and returns one row:
+   * `review_count` (count(*)), `average` (avg of the three dimensions together) and
+   * `professionalism`, `punctuality`, `skill` (avg of each), all rounded to one decimal and
+   * null without reviews. Only reviews with `status = 'published'` count.
+   */
+  async getRatingSummary(profileId: string): Promise<RatingSummary> {
+    const { data, error } = await this.supabaseService.getAdminClient()
+      .rpc('profile_rating_summary', { p_profile_id: profileId })
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch ratings: ${error.message}`);
+    }
+
+    const row = (data || {}) as any;
+    const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+    const [professionalism, punctuality, skill] = REVIEW_DIMENSIONS.map((dimension) => toNumber(row[dimension]));
+    return {
+      count: Number(row.review_count || 0),
+      average: toNumber(row.average),
+      professionalism,
+      punctuality,
+      skill,
+    };
+  }
+
+  /**
+   * Set the reviewed profile's answer; allowed once
+   */
+  async respond(reviewId: string, response: string) {
+    const { data: review, error } = await this.supabaseService.getAdminClient()
+      .from('reviews')
+      .update({ response: response.trim(), responded_at: new Date().toISOString() })
+      .eq('id', reviewId)
+      .is('response', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to save response: ${error.message}`);
+    }
+    if (!review) {
+      throw new BadRequestException('This review already has a response');
+    }
+    return review;
+  }
+
+  async reportReview(reviewId: string, reporterProfileId: string, dto: ReportReviewDto) {
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: review } = await supabase
+      .from('reviews')
+      .select('id, reviewer_profile_id, status')
+      .eq('id', reviewId)
+      .maybeSingle();
+
+    if (!review || review.status !== 'published') {
+      throw new NotFoundException('Review not found');
+    }
+    if (review.reviewer_profile_id === reporterProfileId) {
+      throw new BadRequestException('You cannot report your own review');
+    }
+
+    const { data: openReport } = await supabase
+      .from('review_reports')
+      .select('id')
+      .eq('review_id', reviewId)
+      .eq('reporter_profile_id', reporterProfileId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (openReport) {
+      return { success: true, reportId: openReport.id };
+    }
+
+    const { data: report, error } = await supabase
+      .from('review_reports')
+      .insert({
+        review_id: reviewId,
+        reporter_profile_id: reporterProfileId,
+        reason: dto.reason,
+        details: dto.details ?? null,
+        status: 'open',
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to report review: ${error.message}`);
+    }
+
+    this.logger.warn(`🚩 Review ${reviewId} reported by profile ${reporterProfileId}: ${dto.reason}`);
+    return { success: true, reportId: report.id };
+  }
+
+  /**
+   * Reports for moderators, newest first
+   */
+  async listReports(query: ListReviewReportsQuery): Promise<PaginatedResponse<any>> {
+    const { status = 'open', cursor, limit: requested = 20 } = query;
+    const limit = Math.min(requested, 100);
+
+    let queryBuilder = this.supabaseService.getAdminClient()
+      .from('review_reports')
+      .select(`
+        id, reason, details, status, reporter_profile_id, resolved_by, resolution_note, resolved_at, created_at,
+        reviews(id, reviewer_profile_id, reviewee_profile_id, comment, response, status, created_at)
+      `)
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('created_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch review reports: ${error.message}`);
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].created_at, data[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Hide the reported review or dismiss the report
+   * Hiding also closes the other open reports of the review.
+   */
+  async resolveReport(reportId: string, moderatorId: string, dto: ResolveReviewReportDto) {
+    const supabase = this.supabaseService.getAdminClient();
+
+    const { data: report } = await supabase
+      .from('review_reports')
+      .select('id, review_id, status')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    if (report.status !== 'open') {
+      throw new BadRequestException('This report has already been resolved');
+    }
+
+    const resolution = {
+      resolved_by: moderatorId,
+      resolution_note: dto.note ?? null,
+      resolved_at: new Date().toISOString(),
+    };
+
+    if (dto.action === 'hide') {
+      const { error: hideError } = await supabase
+        .from('reviews')
+        .update({ status: 'hidden', updated_at: resolution.resolved_at })
+        .eq('id', report.review_id);
+
+      if (hideError) {
+        throw new BadRequestException(`Failed to hide review: ${hideError.message}`);
+      }
+
+      await supabase
+        .from('review_reports')
+        .update({ ...resolution, status: 'actioned' })
+        .eq('review_id', report.review_id)
+        .eq('status', 'open');
+    } else {
+      await supabase
+        .from('review_reports')
+        .update({ ...resolution, status: 'dismissed' })
+        .eq('id', reportId);
+    }
+
+    this.logger.log(`🛡️  Moderator ${moderatorId} ${dto.action === 'hide' ? 'hid review' : 'dismissed report on'} ${report.review_id}`);
+    return { success: true, action: dto.action, reviewId: report.review_id };
+  }
+}
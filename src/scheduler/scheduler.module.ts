@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+
+@Global()
+@Module({
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerService } from './scheduler.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { RedisService } from '../redis/redis.service';
+import { createInMemoryRedisService } from '../test-utils/in-memory-redis';
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+  let redisService: RedisService;
+  let config: Record<string, string>;
+
+  const mockDbChain: any = {
+    from: jest.fn(() => mockDbChain),
+    select: jest.fn(() => mockDbChain),
+    insert: jest.fn(() => mockDbChain),
+    update: jest.fn(() => mockDbChain),
+    eq: jest.fn(() => mockDbChain),
+    single: jest.fn(() => Promise.resolve({ data: { id: 'run-1' }, error: null })),
+    then: (resolve: any, reject: any) => Promise.resolve({ data: null, error: null }).then(resolve, reject),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    const configService = { get: jest.fn((key: string) => config[key]) };
+    redisService = createInMemoryRedisService(configService);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        { provide: SupabaseService, useValue: { getAdminClient: jest.fn(() => mockDbChain) } },
+        { provide: RedisService, useValue: redisService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<SchedulerService>(SchedulerService);
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('records a successful run and releases the lock', async () => {
+    service.register({ name: 'cleanup', intervalSeconds: 60, run: async () => ({ deleted: 3 }) });
+
+    const outcome = await service.runJob('cleanup', 'manual', 'admin-1');
+
+    expect(outcome).toMatchObject({ job: 'cleanup', status: 'succeeded', runId: 'run-1', result: { deleted: 3 } });
+    expect(mockDbChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ job_name: 'cleanup', status: 'running', trigger: 'manual', triggered_by: 'admin-1' }),
+    );
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded', result: { deleted: 3 } }));
+    expect(await redisService.get('scheduler:lock:cleanup')).toBeNull();
+  });
+
+  it('records failures without throwing', async () => {
+    service.register({ name: 'broken', intervalSeconds: 60, run: async () => { throw new Error('boom'); } });
+
+    const outcome = await service.runJob('broken');
+
+    expect(outcome).toMatchObject({ status: 'failed', error: 'boom' });
+    expect(mockDbChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', error: 'boom' }));
+  });
+
+  it('skips a run while another instance holds the lock', async () => {
+    const run = jest.fn(async () => undefined);
+    service.register({ name: 'cleanup', intervalSeconds: 60, run });
+    await redisService.setIfAbsent('scheduler:lock:cleanup', 'other-instance', 60);
+
+    expect(await service.runJob('cleanup', 'schedule')).toEqual({ job: 'cleanup', status: 'skipped' });
+    expect(run).not.toHaveBeenCalled();
+    expect(await redisService.get('scheduler:lock:cleanup')).toBe('other-instance');
+  });
+
+  it('runs a scheduled job once per window across instances', async () => {
+    const other = new SchedulerService({ getAdminClient: () => mockDbChain } as any, redisService, { get: () => undefined } as any);
+    const run = jest.fn(async () => undefined);
+    service.register({ name: 'cleanup', intervalSeconds: 60, run });
+    other.register({ name: 'cleanup', intervalSeconds: 60, run });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(60_000 * 100 + 5_000);
+
+    try {
+      const outcomes = await Promise.all([service.runJob('cleanup', 'schedule'), other.runJob('cleanup', 'schedule')]);
+      expect(outcomes.map((outcome) => outcome.status).sort()).toEqual(['skipped', 'succeeded']);
+
+      // The first run has finished, but the window is still claimed
+      now.mockReturnValue(60_000 * 100 + 50_000);
+      expect(await other.runJob('cleanup', 'schedule')).toEqual({ job: 'cleanup', status: 'skipped' });
+      expect(run).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(60_000 * 101 + 1_000);
+      expect(await other.runJob('cleanup', 'schedule')).toMatchObject({ status: 'succeeded' });
+      expect(run).toHaveBeenCalledTimes(2);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('tries every job shortly after boot instead of a full interval later', async () => {
+    jest.useFakeTimers();
+    try {
+      const run = jest.fn(async () => undefined);
+      service.register({ name: 'auth-audit-retention', intervalSeconds: 24 * 60 * 60, run });
+
+      service.onApplicationBootstrap();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(run).toHaveBeenCalledTimes(1);
+
+      // A restart within the same window finds it already claimed
+      service.onModuleDestroy();
+      service.onApplicationBootstrap();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(run).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects unknown and duplicate jobs', async () => {
+    service.register({ name: 'cleanup', intervalSeconds: 60, run: async () => undefined });
+
+    expect(() => service.register({ name: 'cleanup', intervalSeconds: 60, run: async () => undefined })).toThrow();
+    await expect(service.runJob('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  it('only starts timers when enabled', async () => {
+    service.register({ name: 'cleanup', intervalSeconds: 60, run: async () => undefined });
+
+    config.SCHEDULER_ENABLED = 'false';
+    service.onApplicationBootstrap();
+    expect((service as any).timers.size).toBe(0);
+
+    config.SCHEDULER_ENABLED = 'true';
+    service.onApplicationBootstrap();
+    expect((service as any).timers.size).toBe(1);
+  });
+});
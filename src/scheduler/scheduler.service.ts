@@ -0,0 +1,264 @@
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { RedisService } from '../redis/redis.service';
+import { decodeCursor, encodeCursor } from '../utils/cursor.util';
+
+export interface ScheduledJob {
+  /** Unique name, used for the lock key and in run history */
+  name: string;
+  description?: string;
+  intervalSeconds: number;
+  /** How long the lock is held if the instance dies mid-run (defaults to 10 minutes) */
+  lockTtlSeconds?: number;
+  /** Whatever this resolves with is stored as the run's result */
+  run: () => Promise<any>;
+}
+
+export type JobTrigger = 'schedule' | 'manual';
+
+// First scheduled attempt after boot, so a restart never pushes a job a whole interval out
+const STARTUP_RUN_DELAY_MS = 30 * 1000;
+
+export interface JobRunResult {
+  job: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  runId?: string;
+  result?: any;
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * In-process scheduler for periodic housekeeping
+ *
+ * Modules register jobs on startup. Every instance runs the timers, but a scheduled run first
+ * claims its schedule window (`floor(now / interval)`) in the key-value store, and the claim is
+ * kept until the window ends, so a job runs at most once per interval across instances.
+ * Each instance also tries every job shortly after boot; the window claim turns that into a
+ * no-op when the job already ran this window, so frequent restarts cannot starve long intervals.
+ * Every run, scheduled or manual, also holds a lock while it executes so runs never overlap.
+ * Runs are recorded in `scheduled_job_runs`. Set `SCHEDULER_ENABLED=false` to stop the
+ * timers on an instance; jobs can still be run by hand.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly startupTimers: NodeJS.Timeout[] = [];
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  private isEnabled(): boolean {
+    return (this.configService.get<string>('SCHEDULER_ENABLED') || 'true') === 'true';
+  }
+
+  /**
+   * Add a job; call from a provider's `onModuleInit`
+   */
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job "${job.name}" is already registered`);
+    }
+    if (!(job.intervalSeconds > 0)) {
+      throw new Error(`Scheduled job "${job.name}" needs a positive interval`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  onApplicationBootstrap() {
+    if (!this.isEnabled()) {
+      this.logger.log('⏸️  Scheduler disabled (SCHEDULER_ENABLED=false)');
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      const runScheduled = () => {
+        this.runJob(job.name, 'schedule').catch((error) =>
+          this.logger.error(`Scheduled job ${job.name} crashed:`, error),
+        );
+      };
+      const timer = setInterval(runScheduled, job.intervalSeconds * 1000);
+      const startupTimer = setTimeout(runScheduled, Math.min(STARTUP_RUN_DELAY_MS, job.intervalSeconds * 1000));
+      // Timers must not keep the process alive on shutdown
+      timer.unref();
+      startupTimer.unref();
+      this.timers.set(job.name, timer);
+      this.startupTimers.push(startupTimer);
+      this.logger.log(`⏰ Scheduled ${job.name} every ${job.intervalSeconds}s`);
+    }
+  }
+
+  onModuleDestroy() {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+    for (const timer of this.startupTimers.splice(0)) {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Registered jobs with their most recent run
+   */
+  async listJobs() {
+    const supabase = this.supabaseService.getAdminClient();
+    return Promise.all(
+      [...this.jobs.values()].map(async (job) => {
+        const { data: lastRun } = await supabase
+          .from('scheduled_job_runs')
+          .select('*')
+          .eq('job_name', job.name)
+          .order('started_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        return {
+          name: job.name,
+          description: job.description,
+          intervalSeconds: job.intervalSeconds,
+          scheduled: this.timers.has(job.name),
+          lastRun: lastRun || null,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Run history, newest first
+   */
+  async listRuns(params: { job?: string; cursor?: string; limit?: number }) {
+    const supabase = this.supabaseService.getAdminClient();
+    const limit = Math.min(params.limit || 20, 100);
+
+    let queryBuilder = supabase
+      .from('scheduled_job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (params.job) {
+      queryBuilder = queryBuilder.eq('job_name', params.job);
+    }
+
+    if (params.cursor) {
+      const decoded = decodeCursor(params.cursor);
+      if (decoded) {
+        queryBuilder = queryBuilder.lt('started_at', decoded.timestamp);
+      }
+    }
+
+    const { data, error } = await queryBuilder;
+    if (error) {
+      throw new Error('Failed to fetch job runs');
+    }
+
+    const hasMore = data.length > limit;
+    return {
+      data: hasMore ? data.slice(0, limit) : data,
+      nextCursor: hasMore ? encodeCursor(data[limit - 1].started_at, data[limit - 1].id) : null,
+    };
+  }
+
+  /**
+   * Run a job now, unless it is running elsewhere or (for scheduled runs) already ran this window
+   */
+  async runJob(name: string, trigger: JobTrigger = 'manual', triggeredBy?: string): Promise<JobRunResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new NotFoundException(`Unknown job "${name}"`);
+    }
+
+    if (trigger === 'schedule') {
+      const intervalMs = job.intervalSeconds * 1000;
+      const windowKey = `scheduler:window:${job.name}:${Math.floor(Date.now() / intervalMs)}`;
+      // Never released: the claim expires with the window
+      const claimed = await this.redisService.setIfAbsent(windowKey, this.instanceId, job.intervalSeconds);
+      if (!claimed) {
+        this.logger.debug(`Skipping ${job.name}: already ran this window`);
+        return { job: job.name, status: 'skipped' };
+      }
+    }
+
+    const lockKey = `scheduler:lock:${job.name}`;
+    const lockToken = randomUUID();
+    const acquired = await this.redisService.setIfAbsent(lockKey, lockToken, job.lockTtlSeconds || 10 * 60);
+    if (!acquired) {
+      this.logger.debug(`Skipping ${job.name}: already running elsewhere`);
+      return { job: job.name, status: 'skipped' };
+    }
+
+    const startedAt = Date.now();
+    const runId = await this.recordStart(job.name, trigger, triggeredBy);
+
+    try {
+      const result = await job.run();
+      const durationMs = Date.now() - startedAt;
+      await this.recordFinish(runId, { status: 'succeeded', result, durationMs });
+      this.logger.log(`✅ Job ${job.name} finished in ${durationMs}ms`);
+      return { job: job.name, status: 'succeeded', runId, result, durationMs };
+    } catch (error: any) {
+      const durationMs = Date.now() - startedAt;
+      const message = error?.message || String(error);
+      await this.recordFinish(runId, { status: 'failed', error: message, durationMs });
+      this.logger.error(`❌ Job ${job.name} failed after ${durationMs}ms: ${message}`);
+      return { job: job.name, status: 'failed', runId, error: message, durationMs };
+    } finally {
+      await this.redisService.deleteIfEquals(lockKey, lockToken);
+    }
+  }
+
+  private async recordStart(jobName: string, trigger: JobTrigger, triggeredBy?: string): Promise<string | undefined> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('scheduled_job_runs')
+      .insert({
+        job_name: jobName,
+        status: 'running',
+        trigger,
+        triggered_by: triggeredBy || null,
+        instance_id: this.instanceId,
+        started_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    // History is best effort; a failed insert must not stop the job itself
+    if (error) {
+      this.logger.warn(`⚠️  Could not record start of job ${jobName}: ${error.message}`);
+      return undefined;
+    }
+    return data?.id;
+  }
+
+  private async recordFinish(
+    runId: string | undefined,
+    outcome: { status: 'succeeded' | 'failed'; result?: any; error?: string; durationMs: number },
+  ): Promise<void> {
+    if (!runId) return;
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('scheduled_job_runs')
+      .update({
+        status: outcome.status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        duration_ms: outcome.durationMs,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+
+    if (error) {
+      this.logger.warn(`⚠️  Could not record outcome of job run ${runId}: ${error.message}`);
+    }
+  }
+}
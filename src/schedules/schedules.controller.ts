@@ -13,6 +13,9 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery }
 import { SchedulesService } from './schedules.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicy } from '../auth/policies/check-policy.decorator';
+import { Policies } from '../auth/policies/policies';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentProfile } from '../auth/decorators/current-user.decorator';
 import {
@@ -20,11 +23,12 @@ import {
   AddScheduleMemberDto,
   UpdateScheduleMemberStatusDto,
 } from './dto/schedule.dto';
+import { ScheduleLoader, ScheduleProjectLoader } from './schedules.loaders';
 
 @ApiTags('Schedules')
 @ApiBearerAuth('JWT-auth')
 @Controller('schedules')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PoliciesGuard)
 export class SchedulesController {
   constructor(private readonly schedulesService: SchedulesService) {}
 
@@ -59,10 +63,14 @@ export class SchedulesController {
   }
 
   @Post()
-  @Roles('recruiter', 'admin')
-  @ApiOperation({ summary: 'Create schedule', description: 'Create a new schedule for a project. Recruiters and admins only.' })
+  @CheckPolicy(Policies.manageSchedule, {
+    loader: ScheduleProjectLoader,
+    message: 'You can only create schedules for your own projects',
+  })
+  @ApiOperation({ summary: 'Create schedule', description: 'Create a new schedule for one of your projects. Recruiters and admins only.' })
   @ApiResponse({ status: 201, description: 'Schedule created successfully' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Recruiters and admins only' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not your project' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
   async createSchedule(
     @Body() createScheduleDto: CreateScheduleDto,
     @CurrentProfile() profile: any,
@@ -71,11 +79,12 @@ export class SchedulesController {
   }
 
   @Post(':id/members')
-  @Roles('recruiter', 'admin')
-  @ApiOperation({ summary: 'Add schedule member', description: 'Add a member to a schedule. Recruiters and admins only.' })
+  @CheckPolicy(Policies.manageSchedule, { loader: ScheduleLoader, message: 'You can only manage your own schedules' })
+  @ApiOperation({ summary: 'Add schedule member', description: 'Add a member to one of your schedules. Recruiters and admins only.' })
   @ApiParam({ name: 'id', description: 'Schedule UUID' })
   @ApiResponse({ status: 201, description: 'Member added successfully' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Recruiters and admins only' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not your schedule' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
   async addMember(
     @Param('id') scheduleId: string,
     @Body() addMemberDto: AddScheduleMemberDto,
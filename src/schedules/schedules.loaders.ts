@@ -0,0 +1,53 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ResourceLoader } from '../auth/policies/check-policy.decorator';
+
+/**
+ * The project a new schedule is created for (`project_id` in the body)
+ * Guards run before the ValidationPipe, so the id is checked here too.
+ */
+@Injectable()
+export class ScheduleProjectLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const projectId = request.body?.project_id;
+    if (typeof projectId !== 'string' || !isUUID(projectId)) {
+      throw new BadRequestException('project_id must be a UUID');
+    }
+
+    // Schedules reference the 'projects' table, not 'posts'
+    const { data: project } = await this.supabaseService.getAdminClient()
+      .from('projects')
+      .select('id, created_by')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+}
+
+/**
+ * The schedule named by `:id`
+ */
+@Injectable()
+export class ScheduleLoader implements ResourceLoader {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async load(request: any) {
+    const { data: schedule } = await this.supabaseService.getAdminClient()
+      .from('schedules')
+      .select('id, created_by')
+      .eq('id', request.params.id)
+      .maybeSingle();
+
+    if (!schedule) {
+      throw new NotFoundException('Schedule not found');
+    }
+    return schedule;
+  }
+}
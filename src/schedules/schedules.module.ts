@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { SchedulesController } from './schedules.controller';
 import { SchedulesService } from './schedules.service';
+import { ScheduleLoader, ScheduleProjectLoader } from './schedules.loaders';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [SchedulesController],
-  providers: [SchedulesService],
+  providers: [SchedulesService, ScheduleProjectLoader, ScheduleLoader],
   exports: [SchedulesService],
 })
 export class SchedulesModule {}
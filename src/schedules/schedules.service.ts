@@ -142,25 +142,12 @@ export class SchedulesService {
     return data;
   }
 
+  /**
+   * Project ownership is checked by the `manageSchedule` policy before this runs
+   */
   async createSchedule(createdBy: string, createScheduleDto: CreateScheduleDto) {
     const supabase = this.supabaseService.getAdminClient();
 
-    // Verify the project exists and belongs to the recruiter
-    // Schedules reference the 'projects' table, not 'posts'
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('created_by')
-      .eq('id', createScheduleDto.project_id)
-      .single();
-
-    if (projectError || !project) {
-      throw new NotFoundException('Project not found');
-    }
-
-    if (project.created_by !== createdBy) {
-      throw new BadRequestException('You can only create schedules for your own projects');
-    }
-
     const { data, error } = await supabase
       .from('schedules')
       .insert({
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { FailoverSmsProvider } from './failover-sms.provider';
+import { FakeSmsProvider } from './fake-sms.provider';
+import { SmsModule } from '../sms.module';
+import { SMS_PROVIDER, SmsProvider } from '../sms-provider.interface';
+
+describe('FailoverSmsProvider', () => {
+  const provider = (name: string, send: SmsProvider['send']): SmsProvider => ({ name, send: jest.fn(send) });
+
+  it('falls through to the next provider when one fails or throws', async () => {
+    const failing = provider('primary', async () => ({ success: false, error: 'HTTP 500' }));
+    const throwing = provider('secondary', async () => {
+      throw new Error('timeout');
+    });
+    const working = provider('tertiary', async () => ({ success: true }));
+
+    const chain = new FailoverSmsProvider([failing, throwing, working]);
+    const result = await chain.send('9876543210', 'hello');
+
+    expect(result).toEqual({ success: true, provider: 'tertiary' });
+    expect(failing.send).toHaveBeenCalledWith('9876543210', 'hello');
+    expect(throwing.send).toHaveBeenCalled();
+  });
+
+  it('stops at the first provider that delivers', async () => {
+    const working = provider('primary', async () => ({ success: true, provider: 'primary' }));
+    const unused = provider('secondary', async () => ({ success: true }));
+
+    await new FailoverSmsProvider([working, unused]).send('9876543210', 'hello');
+
+    expect(unused.send).not.toHaveBeenCalled();
+  });
+
+  it('reports every error when all providers fail', async () => {
+    const chain = new FailoverSmsProvider([
+      provider('primary', async () => ({ success: false, error: 'HTTP 500' })),
+      provider('secondary', async () => ({ success: false, error: 'quota exceeded' })),
+    ]);
+
+    const result = await chain.send('9876543210', 'hello');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('primary: HTTP 500');
+    expect(result.error).toContain('secondary: quota exceeded');
+  });
+
+  describe('SmsModule provider selection', () => {
+    const resolve = async (config: Record<string, string>) => {
+      const module: TestingModule = await Test.createTestingModule({
+        imports: [
+          ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true, load: [() => config] }),
+          SmsModule,
+        ],
+      }).compile();
+      return module;
+    };
+
+    it('uses the fake provider on its own', async () => {
+      const module = await resolve({ SMS_PROVIDER: 'fake' });
+      const sms = module.get<SmsProvider>(SMS_PROVIDER);
+
+      await sms.send('9876543210', 'Your OTP is 123456');
+
+      expect(sms.name).toBe('fake');
+      expect(module.get(FakeSmsProvider).getSentMessages('9876543210')).toHaveLength(1);
+    });
+
+    it('builds a failover chain from a comma-separated list', async () => {
+      const module = await resolve({ SMS_PROVIDER: 'gateway, fake' });
+
+      expect(module.get<SmsProvider>(SMS_PROVIDER).name).toBe('gateway,fake');
+    });
+
+    it('rejects unknown providers', async () => {
+      await expect(resolve({ SMS_PROVIDER: 'carrier-pigeon' })).rejects.toThrow('Unknown SMS_PROVIDER');
+    });
+  });
+});
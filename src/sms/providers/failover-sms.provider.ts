@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { SmsProvider, SmsSendResult } from '../sms-provider.interface';
+
+/**
+ * Tries each provider in order until one delivers the message
+ */
+export class FailoverSmsProvider implements SmsProvider {
+  readonly name: string;
+  private readonly logger = new Logger(FailoverSmsProvider.name);
+
+  constructor(private readonly providers: SmsProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FailoverSmsProvider needs at least one provider');
+    }
+    this.name = providers.map((provider) => provider.name).join(',');
+  }
+
+  async send(phoneNumber: string, message: string): Promise<SmsSendResult> {
+    const errors: string[] = [];
+
+    for (const provider of this.providers) {
+      let result: SmsSendResult;
+      try {
+        result = await provider.send(phoneNumber, message);
+      } catch (error: any) {
+        result = { success: false, error: error?.message || 'Unknown error' };
+      }
+
+      if (result.success) {
+        return { ...result, provider: result.provider || provider.name };
+      }
+
+      errors.push(`${provider.name}: ${result.error || 'failed'}`);
+      this.logger.warn(`⚠️  SMS provider "${provider.name}" failed for ${phoneNumber}, trying next`);
+    }
+
+    return {
+      success: false,
+      error: `All SMS providers failed (${errors.join('; ')})`,
+      provider: this.name,
+    };
+  }
+}
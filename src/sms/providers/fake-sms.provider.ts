@@ -0,0 +1,55 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SmsProvider, SmsSendResult } from '../sms-provider.interface';
+
+export interface FakeSmsMessage {
+  phone: string;
+  message: string;
+  sentAt: string;
+}
+
+/**
+ * Offline provider for local development and e2e tests
+ *
+ * Messages are logged and, when `SMS_FAKE_OUTBOX` is set, appended to that file
+ * as one JSON object per line so scripts can read the OTP back.
+ */
+@Injectable()
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake';
+  private readonly logger = new Logger(FakeSmsProvider.name);
+  private readonly sent: FakeSmsMessage[] = [];
+
+  constructor(private readonly configService: ConfigService) { }
+
+  async send(phoneNumber: string, message: string): Promise<SmsSendResult> {
+    const entry: FakeSmsMessage = { phone: phoneNumber, message, sentAt: new Date().toISOString() };
+    this.sent.push(entry);
+    this.logger.log(`📨 [fake SMS] to ${phoneNumber}: ${message}`);
+
+    const outbox = this.configService.get<string>('SMS_FAKE_OUTBOX');
+    if (outbox) {
+      try {
+        await fs.mkdir(dirname(outbox), { recursive: true });
+        await fs.appendFile(outbox, `${JSON.stringify(entry)}\n`);
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Failed to write fake SMS outbox: ${error?.message || 'Unknown error'}`,
+          provider: this.name,
+        };
+      }
+    }
+
+    return { success: true, message: `Fake SMS recorded for ${phoneNumber}`, provider: this.name };
+  }
+
+  /**
+   * Messages sent by this process, most recent last
+   */
+  getSentMessages(phoneNumber?: string): FakeSmsMessage[] {
+    return phoneNumber ? this.sent.filter((entry) => entry.phone === phoneNumber) : [...this.sent];
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SmsProvider, SmsSendResult } from '../sms-provider.interface';
+import { toIndianNationalNumber } from '../../utils/phone.util';
+
+/**
+ * Bulk SMS HTTP gateway (GET request with query-string credentials)
+ * The gateway only delivers to Indian numbers, which it expects without the country code.
+ */
+@Injectable()
+export class HttpGatewaySmsProvider implements SmsProvider {
+  readonly name = 'gateway';
+  private readonly logger = new Logger(HttpGatewaySmsProvider.name);
+
+  constructor(private readonly configService: ConfigService) { }
+
+  /**
+   * Get SMS configuration from environment variables
+   * All values must be configured in environment - no hardcoded defaults
+   */
+  private getSmsConfig() {
+    const secret = this.configService.get<string>('SMS_SECRET');
+    const sender = this.configService.get<string>('SMS_SENDER');
+    const tempid = this.configService.get<string>('SMS_TEMPID');
+    const route = this.configService.get<string>('SMS_ROUTE');
+    const msgtype = this.configService.get<string>('SMS_MSGTYPE');
+    const baseUrl = this.configService.get<string>('SMS_BASE_URL');
+
+    if (!secret || !sender || !tempid || !baseUrl) {
+      throw new Error(
+        'SMS configuration incomplete. Required env vars: SMS_SECRET, SMS_SENDER, SMS_TEMPID, SMS_BASE_URL',
+      );
+    }
+
+    return {
+      secret,
+      sender,
+      tempid,
+      route: route || 'TA',
+      msgtype: msgtype || '1',
+      baseUrl,
+    };
+  }
+
+  async send(phoneNumber: string, message: string): Promise<SmsSendResult> {
+    const receiver = toIndianNationalNumber(phoneNumber);
+    if (!receiver) {
+      return {
+        success: false,
+        error: `SMS gateway does not deliver to ${phoneNumber}`,
+        provider: this.name,
+      };
+    }
+
+    try {
+      const smsConfig = this.getSmsConfig();
+
+      // Prepare SMS API parameters
+      const params = new URLSearchParams({
+        secret: smsConfig.secret || '',
+        sender: smsConfig.sender,
+        tempid: smsConfig.tempid,
+        receiver,
+        route: smsConfig.route,
+        msgtype: smsConfig.msgtype,
+        sms: message,
+      });
+
+      const smsUrl = `${smsConfig.baseUrl}?${params.toString()}`;
+      this.logger.debug(`📱 SMS URL: ${smsConfig.baseUrl}?receiver=${receiver}`);
+
+      // Send SMS using fetch
+      const response = await fetch(smsUrl, {
+        method: 'GET',
+        headers: {
+          'User-Agent': 'NestJS SMS Service/1.0',
+        },
+      });
+
+      const responseText = await response.text();
+      this.logger.log(`📱 SMS API Response Status: ${response.status}`);
+      this.logger.log(`📱 SMS API Response: ${responseText}`);
+
+      if (response.status === 200) {
+        return {
+          success: true,
+          message: `SMS sent successfully to ${phoneNumber}`,
+          provider: this.name,
+        };
+      }
+
+      return {
+        success: false,
+        error: `SMS API returned status ${response.status}: ${responseText}`,
+        provider: this.name,
+      };
+    } catch (error: any) {
+      this.logger.error('📱 SMS gateway error:', error);
+      return {
+        success: false,
+        error: `Failed to send SMS: ${error?.message || 'Unknown error'}`,
+        provider: this.name,
+      };
+    }
+  }
+}
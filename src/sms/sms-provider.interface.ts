@@ -0,0 +1,21 @@
+/**
+ * Injection token for the configured SMS provider
+ */
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+export interface SmsSendResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  /** Name of the provider that handled (or last attempted) the message */
+  provider?: string;
+}
+
+/**
+ * A way of delivering a text message to a phone number
+ * Implementations should resolve with `success: false` rather than throw on delivery failures.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(phoneNumber: string, message: string): Promise<SmsSendResult>;
+}
@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SMS_PROVIDER, SmsProvider } from './sms-provider.interface';
+import { HttpGatewaySmsProvider } from './providers/http-gateway.provider';
+import { FakeSmsProvider } from './providers/fake-sms.provider';
+import { FailoverSmsProvider } from './providers/failover-sms.provider';
+
+/**
+ * Resolves `SMS_PROVIDER` from config
+ * A comma-separated list (e.g. `gateway,fake`) becomes a failover chain in that order.
+ */
+@Module({
+  providers: [
+    HttpGatewaySmsProvider,
+    FakeSmsProvider,
+    {
+      provide: SMS_PROVIDER,
+      useFactory: (
+        configService: ConfigService,
+        gateway: HttpGatewaySmsProvider,
+        fake: FakeSmsProvider,
+      ): SmsProvider => {
+        const available: Record<string, SmsProvider> = {
+          [gateway.name]: gateway,
+          [fake.name]: fake,
+        };
+
+        const configured = (configService.get<string>('SMS_PROVIDER') || '')
+          .split(',')
+          .map((name) => name.trim().toLowerCase())
+          .filter(Boolean);
+        const names = configured.length > 0 ? configured : ['gateway'];
+
+        const providers = names.map((name) => {
+          const provider = available[name];
+          if (!provider) {
+            throw new Error(
+              `Unknown SMS_PROVIDER "${name}". Expected one of: ${Object.keys(available).join(', ')}`,
+            );
+          }
+          return provider;
+        });
+
+        return providers.length === 1 ? providers[0] : new FailoverSmsProvider(providers);
+      },
+      inject: [ConfigService, HttpGatewaySmsProvider, FakeSmsProvider],
+    },
+  ],
+  exports: [SMS_PROVIDER, FakeSmsProvider],
+})
+export class SmsModule {}
@@ -0,0 +1,9 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../redis/redis.service';
+
+/**
+ * RedisService for specs that is never initialised, so it runs on its in-memory fallback store
+ */
+export function createInMemoryRedisService(configService: { get: (key: string) => any } = { get: jest.fn() }) {
+  return new RedisService(configService as unknown as ConfigService);
+}
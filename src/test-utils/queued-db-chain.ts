@@ -0,0 +1,21 @@
+/**
+ * Chainable Supabase client double for service specs
+ * Builder methods return the chain; each awaited query (or `single` / `maybeSingle`) resolves with
+ * the next result from `results()`, or `empty` once the queue runs out.
+ */
+export function createQueuedDbChain(results: () => any[], empty: any = { data: null, error: null }) {
+  const next = () => Promise.resolve(results().shift() || empty);
+
+  const chain: any = {
+    single: jest.fn(next),
+    maybeSingle: jest.fn(next),
+    then: (resolve: any, reject: any) => next().then(resolve, reject),
+  };
+  for (const method of [
+    'from', 'rpc', 'select', 'insert', 'update', 'upsert', 'delete',
+    'eq', 'neq', 'in', 'is', 'not', 'lt', 'lte', 'gt', 'gte', 'or', 'order', 'limit', 'range',
+  ]) {
+    chain[method] = jest.fn(() => chain);
+  }
+  return chain;
+}
@@ -3,9 +3,10 @@ import { UploadsController } from './uploads.controller';
 import { UploadsService } from './uploads.service';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PhotoModule } from '../photo/photo.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [SupabaseModule, PhotoModule],
+  imports: [SupabaseModule, PhotoModule, AuthModule],
   controllers: [UploadsController],
   providers: [UploadsService],
   exports: [UploadsService],
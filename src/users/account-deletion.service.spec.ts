@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { AccountDeletionService } from './account-deletion.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PhotoService } from '../photo/photo.service';
+import { AuthService } from '../auth/auth.service';
+import { OtpService } from '../auth/services/otp.service';
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  let calls: { table: string; op: string; args: any[] }[];
+  let responses: Record<string, (op: string) => any>;
+
+  // Each from() starts a chain that records the operation and resolves per table
+  const createChain = (table: string) => {
+    let op = 'select';
+    const chain: any = {};
+    ['select', 'insert', 'update', 'delete'].forEach((method) => {
+      chain[method] = jest.fn((...args: any[]) => {
+        if (method !== 'select' || op === 'select') op = method;
+        calls.push({ table, op: method, args });
+        return chain;
+      });
+    });
+    ['eq', 'in', 'is', 'not', 'or', 'lte', 'order', 'limit'].forEach((method) => {
+      chain[method] = jest.fn(() => chain);
+    });
+    const result = () => Promise.resolve((responses[table] || (() => ({ data: null, error: null })))(op));
+    chain.maybeSingle = jest.fn(result);
+    chain.then = (resolve: any, reject: any) => result().then(resolve, reject);
+    return chain;
+  };
+
+  const mockSupabaseService = { getAdminClient: jest.fn(() => ({ from: (table: string) => createChain(table) })) };
+  const mockPhotoService = {
+    listImages: jest.fn(async (folder: string) =>
+      ({ 'profiles/user-123': ['profiles/user-123/1.jpg'], 'posts/post-1': ['posts/post-1/1.jpg'] } as Record<string, string[]>)[folder] || []),
+    deleteImage: jest.fn(),
+    pathFromPublicUrl: jest.fn((url: string) => url.split('/public/photos/')[1] || null),
+    listPortfolioImages: jest.fn(async (profileId: string) => (profileId === 'profile-1' ? ['profile-1/a.jpg'] : [])),
+    deletePortfolioImage: jest.fn(),
+  };
+  const mockOtpService = { sendOTP: jest.fn(), verifyOTP: jest.fn() };
+  const mockAuthService = { logoutAll: jest.fn() };
+
+  beforeEach(async () => {
+    calls = [];
+    responses = {};
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: SupabaseService, useValue: mockSupabaseService },
+        { provide: PhotoService, useValue: mockPhotoService },
+        { provide: OtpService, useValue: mockOtpService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => (key === 'JWT_SECRET' ? 'secret' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<AccountDeletionService>(AccountDeletionService);
+  });
+
+  it('requires a valid OTP before scheduling deletion', async () => {
+    mockOtpService.verifyOTP.mockResolvedValueOnce({ isValid: false, message: 'Invalid or expired OTP', attemptsRemaining: 2 });
+
+    await expect(service.requestDeletion({ id: 'user-123', phone: '+919876543210' }, '000000')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(calls.find((call) => call.op === 'insert')).toBeUndefined();
+  });
+
+  it('schedules deletion after the grace period', async () => {
+    mockOtpService.verifyOTP.mockResolvedValueOnce({ isValid: true });
+
+    const result = await service.requestDeletion({ id: 'user-123', phone: '+919876543210' }, '123456');
+
+    const insert = calls.find((call) => call.table === 'account_deletion_requests' && call.op === 'insert');
+    expect(insert?.args[0]).toMatchObject({ user_id: 'user-123', status: 'pending' });
+    const graceMs = new Date(result.scheduledFor).getTime() - Date.now();
+    expect(Math.round(graceMs / (24 * 60 * 60 * 1000))).toBe(30);
+  });
+
+  it('erases due accounts, anonymizes messages and records the erasure without the phone number', async () => {
+    responses = {
+      account_deletion_requests: (op) =>
+        op === 'select'
+          ? { data: [{ id: 'request-1', user_id: 'user-123', requested_at: '2024-01-01T00:00:00.000Z' }], error: null }
+          : { data: null, error: null },
+      users: (op) => (op === 'select' ? { data: { id: 'user-123', phone: '+919876543210' }, error: null } : { count: 1, error: null }),
+      profiles: (op) => (op === 'select' ? { data: [{ id: 'profile-1' }], error: null } : { count: 1, error: null }),
+      messages: (op) =>
+        op === 'select'
+          ? { data: [{ metadata: { image: 'https://x.supabase.co/storage/v1/object/public/photos/chats/chat-1/2.jpg' } }], error: null }
+          : { count: 4, error: null },
+      posts: (op) => (op === 'select' ? { data: [{ id: 'post-1' }], error: null } : { count: 1, error: null }),
+    };
+
+    const result = await service.processDueDeletions();
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    expect(mockAuthService.logoutAll).toHaveBeenCalledWith('user-123', { reason: 'account_deletion' });
+    expect(mockPhotoService.deleteImage).toHaveBeenCalledWith('profiles/user-123/1.jpg');
+    expect(mockPhotoService.deletePortfolioImage).toHaveBeenCalledWith('profile-1/a.jpg');
+    expect(mockPhotoService.deleteImage).toHaveBeenCalledWith('posts/post-1/1.jpg');
+    expect(mockPhotoService.deleteImage).toHaveBeenCalledWith('chats/chat-1/2.jpg');
+
+    const anonymize = calls.find((call) => call.table === 'messages' && call.op === 'update');
+    expect(anonymize?.args[0]).toMatchObject({ sender_profile_id: null, metadata: null });
+
+    expect(calls.some((call) => call.table === 'posts' && call.op === 'delete')).toBe(true);
+    for (const table of ['projects', 'schedules', 'conversations']) {
+      expect(calls.find((call) => call.table === table && call.op === 'update')?.args[0]).toEqual({ created_by: null });
+    }
+    expect(calls.some((call) => call.table === 'otp_verifications' && call.op === 'delete')).toBe(true);
+    const audit = calls.find((call) => call.table === 'auth_audit_log' && call.op === 'update');
+    expect(audit?.args[0]).toMatchObject({ user_id: null, phone: null, ip_address: null });
+    expect(calls.some((call) => call.table === 'impersonation_audit_log' && call.op === 'update')).toBe(true);
+    expect(calls.some((call) => call.table === 'api_keys' && call.op === 'update')).toBe(true);
+    expect(calls.some((call) => call.table === 'users' && call.op === 'delete')).toBe(true);
+
+    const record = calls.find((call) => call.table === 'erasure_records' && call.op === 'insert')!.args[0];
+    expect(record.summary).toMatchObject({ storage_objects: 4, messages_anonymized: 4, posts: 1, users: 1 });
+    expect(JSON.stringify(record)).not.toContain('9876543210');
+  });
+
+  it('keeps a failed erasure pending and retries it later', async () => {
+    responses = {
+      account_deletion_requests: (op) =>
+        op === 'select'
+          ? { data: [{ id: 'request-1', user_id: 'user-123', requested_at: '2024-01-01T00:00:00.000Z', attempts: 1 }], error: null }
+          : { data: null, error: null },
+      users: () => ({ data: { id: 'user-123', phone: '+919876543210' }, error: null }),
+      profiles: (op) => (op === 'select' ? { data: [{ id: 'profile-1' }], error: null } : { count: 1, error: null }),
+      messages: (op) => (op === 'update' ? { count: null, error: { message: 'timeout' } } : { data: [], error: null }),
+    };
+
+    const result = await service.processDueDeletions();
+
+    expect(result).toEqual({ processed: 0, failed: 1 });
+    const update = calls.filter((call) => call.table === 'account_deletion_requests' && call.op === 'update').pop()!.args[0];
+    expect(update).toMatchObject({ attempts: 2, error: 'Failed to anonymize messages: timeout' });
+    expect(update.status).toBeUndefined();
+    expect(new Date(update.next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('marks the request failed once it runs out of attempts', async () => {
+    responses = {
+      account_deletion_requests: (op) =>
+        op === 'select'
+          ? { data: [{ id: 'request-1', user_id: 'user-123', requested_at: '2024-01-01T00:00:00.000Z', attempts: 4 }], error: null }
+          : { data: null, error: null },
+      users: () => ({ data: { id: 'user-123', phone: '+919876543210' }, error: null }),
+      profiles: (op) => (op === 'select' ? { data: [{ id: 'profile-1' }], error: null } : { count: 1, error: null }),
+      messages: (op) => (op === 'update' ? { count: null, error: { message: 'timeout' } } : { data: [], error: null }),
+    };
+
+    await service.processDueDeletions();
+
+    const update = calls.filter((call) => call.table === 'account_deletion_requests' && call.op === 'update').pop()!.args[0];
+    expect(update).toMatchObject({ status: 'failed', attempts: 5 });
+  });
+
+  it('resumes an erasure whose user row is already gone, using the saved subject hash', async () => {
+    responses = {
+      account_deletion_requests: (op) =>
+        op === 'select'
+          ? {
+              data: [{ id: 'request-1', user_id: 'user-123', requested_at: '2024-01-01T00:00:00.000Z', attempts: 1, subject_hash: 'hash-1' }],
+              error: null,
+            }
+          : { data: null, error: null },
+      users: (op) => (op === 'select' ? { data: null, error: null } : { count: 0, error: null }),
+      profiles: (op) => (op === 'select' ? { data: [], error: null } : { count: 0, error: null }),
+    };
+
+    const result = await service.processDueDeletions();
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    // Without the user row only the rows keyed by user id can be found
+    expect(calls.filter((call) => call.table === 'otp_verifications')).toHaveLength(1);
+    const record = calls.find((call) => call.table === 'erasure_records' && call.op === 'insert')!.args[0];
+    expect(record.subject_hash).toBe('hash-1');
+    const complete = calls.filter((call) => call.table === 'account_deletion_requests' && call.op === 'update').pop()!.args[0];
+    expect(complete).toMatchObject({ status: 'completed', user_id: null });
+  });
+});
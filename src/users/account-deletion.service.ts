@@ -0,0 +1,487 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PhotoService } from '../photo/photo.service';
+import { AuthService } from '../auth/auth.service';
+import { OtpService } from '../auth/services/otp.service';
+import { OtpErrorCode } from '../auth/exceptions/otp-throttle.exception';
+import { legacyPhoneCandidates } from '../utils/phone.util';
+
+// Storage folders keyed by user id (see PhotoService path conventions)
+const USER_PHOTO_FOLDERS = ['profiles', 'artist_profiles', 'recruiter_profiles'];
+
+const ANONYMIZED_MESSAGE = 'This message was deleted';
+
+// Audit entries stay for their event and time, without anything that identifies the user
+const ANONYMIZED_AUDIT_FIELDS = { user_id: null, phone: null, profile_id: null, ip_address: null, user_agent: null, metadata: null };
+
+// A failing erasure is retried with exponential backoff, then left failed for an admin
+const MAX_ERASURE_ATTEMPTS = 5;
+const RETRY_BASE_MINUTES = 30;
+
+/**
+ * Self-service account deletion
+ *
+ * A confirmed request (OTP re-verified) is kept in `account_deletion_requests`
+ * for a grace period during which the user can cancel. Once due, the account's
+ * personal data is erased and an `erasure_records` row is written as evidence.
+ * The erasure record only holds a keyed hash of the phone number.
+ *
+ * Content other people depend on is kept without its author: projects, schedules
+ * and conversations the user created lose their `created_by`, messages are blanked
+ * and audit entries lose the user's identifiers. The user's own posts are deleted
+ * along with their applications and images.
+ *
+ * Erasure is idempotent: a failed attempt leaves the request pending with an
+ * `attempts` count and a `next_attempt_at`, and the next run resumes where it
+ * stopped. After MAX_ERASURE_ATTEMPTS the request becomes `failed` and is listed
+ * for admins.
+ */
+@Injectable()
+export class AccountDeletionService {
+  private readonly logger = new Logger(AccountDeletionService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly photoService: PhotoService,
+    private readonly otpService: OtpService,
+    private readonly authService: AuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private getGraceDays(): number {
+    const days = parseInt(this.configService.get<string>('ACCOUNT_DELETION_GRACE_DAYS') || '30', 10);
+    return Number.isFinite(days) && days >= 0 ? days : 30;
+  }
+
+  /**
+   * Send an OTP to the account's phone to confirm deletion
+   */
+  async sendConfirmationOtp(user: { id: string; phone: string }) {
+    const result = await this.otpService.sendOTP(user.phone);
+    this.logger.log(`📱 Account deletion OTP sent for user ${user.id}`);
+    return {
+      success: true,
+      message: 'OTP sent to your registered phone number',
+      // For development - remove in production
+      otp: result.otp,
+    };
+  }
+
+  /**
+   * Confirm deletion with an OTP and start the grace period
+   */
+  async requestDeletion(user: { id: string; phone: string }, otp: string, reason?: string) {
+    const verification = await this.otpService.verifyOTP(user.phone, otp);
+    if (!verification.isValid) {
+      throw new UnauthorizedException({
+        statusCode: 401,
+        error: 'Unauthorized',
+        code: OtpErrorCode.INVALID,
+        message: verification.message,
+        attemptsRemaining: verification.attemptsRemaining,
+      });
+    }
+
+    const existing = await this.getPendingRequest(user.id);
+    if (existing) {
+      return {
+        success: true,
+        message: 'Account deletion already scheduled',
+        scheduledFor: existing.scheduled_for,
+      };
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const now = new Date();
+    const scheduledFor = new Date(now.getTime() + this.getGraceDays() * 24 * 60 * 60 * 1000).toISOString();
+
+    const { error } = await supabase
+      .from('account_deletion_requests')
+      .insert({
+        user_id: user.id,
+        status: 'pending',
+        reason: reason || null,
+        requested_at: now.toISOString(),
+        scheduled_for: scheduledFor,
+      });
+
+    if (error) {
+      this.logger.error(`❌ Failed to schedule deletion for user ${user.id}:`, error);
+      throw new BadRequestException('Failed to schedule account deletion');
+    }
+
+    this.logger.log(`🗑️  Account deletion scheduled for user ${user.id} at ${scheduledFor}`);
+    return {
+      success: true,
+      message: 'Account deletion scheduled. You can cancel it until the scheduled date.',
+      scheduledFor,
+    };
+  }
+
+  async getStatus(userId: string) {
+    const pending = await this.getPendingRequest(userId);
+    return {
+      success: true,
+      pending: !!pending,
+      scheduledFor: pending?.scheduled_for || null,
+    };
+  }
+
+  async cancelDeletion(userId: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('account_deletion_requests')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(`Failed to cancel account deletion: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundException('No pending account deletion');
+    }
+
+    this.logger.log(`↩️  Account deletion cancelled for user ${userId}`);
+    return { success: true, message: 'Account deletion cancelled' };
+  }
+
+  /**
+   * Erase every account whose grace period has ended and is not waiting to be retried
+   */
+  async processDueDeletions(): Promise<{ processed: number; failed: number }> {
+    const supabase = this.supabaseService.getAdminClient();
+    const now = new Date().toISOString();
+    const { data: due, error } = await supabase
+      .from('account_deletion_requests')
+      .select('id, user_id, requested_at, attempts, subject_hash')
+      .eq('status', 'pending')
+      .lte('scheduled_for', now)
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+      .order('scheduled_for', { ascending: true })
+      .limit(50);
+
+    if (error) {
+      throw new Error(`Failed to load due account deletions: ${error.message}`);
+    }
+
+    let processed = 0;
+    let failed = 0;
+    for (const request of due || []) {
+      try {
+        await this.eraseAccount(request);
+        processed++;
+      } catch (err: any) {
+        failed++;
+        await this.recordFailedAttempt(request, err?.message || 'Unknown error');
+      }
+    }
+
+    return { processed, failed };
+  }
+
+  /**
+   * Requests that ran out of attempts, oldest first, for an admin to fix and retry
+   */
+  async listFailedDeletions() {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('account_deletion_requests')
+      .select('id, user_id, requested_at, scheduled_for, attempts, last_attempt_at, error')
+      .eq('status', 'failed')
+      .order('scheduled_for', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to list failed account deletions: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Put a failed request back in the queue with a fresh set of attempts
+   */
+  async retryDeletion(requestId: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data, error } = await supabase
+      .from('account_deletion_requests')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: null, error: null })
+      .eq('id', requestId)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(`Failed to retry account deletion: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundException('No failed account deletion with this id');
+    }
+
+    this.logger.log(`🔁 Account deletion ${requestId} queued for retry`);
+    return { success: true };
+  }
+
+  private async recordFailedAttempt(request: { id: string; user_id: string; attempts?: number | null }, message: string) {
+    const attempts = (request.attempts || 0) + 1;
+    const now = new Date();
+    const updates: Record<string, any> = { attempts, last_attempt_at: now.toISOString(), error: message };
+
+    if (attempts >= MAX_ERASURE_ATTEMPTS) {
+      updates.status = 'failed';
+      this.logger.error(`❌ Erasure for user ${request.user_id} failed ${attempts} times, needs an admin: ${message}`);
+    } else {
+      const delayMs = RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60 * 1000;
+      updates.next_attempt_at = new Date(now.getTime() + delayMs).toISOString();
+      this.logger.warn(`⚠️  Erasure attempt ${attempts} for user ${request.user_id} failed, retrying at ${updates.next_attempt_at}: ${message}`);
+    }
+
+    await this.supabaseService.getAdminClient()
+      .from('account_deletion_requests')
+      .update(updates)
+      .eq('id', request.id);
+  }
+
+  private async getPendingRequest(userId: string) {
+    const supabase = this.supabaseService.getAdminClient();
+    const { data } = await supabase
+      .from('account_deletion_requests')
+      .select('id, scheduled_for')
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .maybeSingle();
+    return data;
+  }
+
+  /**
+   * Remove the user's personal data and record the erasure
+   * Safe to run again after a partial run: every step skips what is already gone.
+   */
+  private async eraseAccount(request: { id: string; user_id: string; requested_at: string; subject_hash?: string | null }) {
+    const userId = request.user_id;
+    const supabase = this.supabaseService.getAdminClient();
+    const summary: Record<string, number> = {};
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, phone, email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    // Keep the hash on the request first, since an interrupted run may delete the user row before the record is written
+    let subjectHash = request.subject_hash || null;
+    if (user && !subjectHash) {
+      subjectHash = this.hashSubject(user.phone);
+      const { error: hashError } = await supabase
+        .from('account_deletion_requests')
+        .update({ subject_hash: subjectHash })
+        .eq('id', request.id);
+      if (hashError) throw new Error(`Failed to save subject hash: ${hashError.message}`);
+    }
+
+    // Stop every session before touching data
+    await this.authService.logoutAll(userId, { reason: 'account_deletion' });
+
+    const { data: profiles } = await supabase.from('profiles').select('id').eq('user_id', userId);
+    const profileIds = (profiles || []).map((profile: any) => profile.id);
+
+    const { data: posts } = profileIds.length > 0
+      ? await supabase.from('posts').select('id').in('author_profile_id', profileIds)
+      : { data: [] };
+    const postIds = (posts || []).map((post: any) => post.id);
+
+    // Storage objects
+    let photosDeleted = 0;
+    for (const folder of USER_PHOTO_FOLDERS) {
+      for (const path of await this.photoService.listImages(`${folder}/${userId}`)) {
+        await this.photoService.deleteImage(path);
+        photosDeleted++;
+      }
+    }
+    // Portfolio images are stored per profile, in their own bucket
+    for (const profileId of profileIds) {
+      for (const path of await this.photoService.listPortfolioImages(profileId)) {
+        await this.photoService.deletePortfolioImage(path);
+        photosDeleted++;
+      }
+    }
+    for (const postId of postIds) {
+      for (const path of await this.photoService.listImages(`posts/${postId}`)) {
+        await this.photoService.deleteImage(path);
+        photosDeleted++;
+      }
+    }
+    // Chat folders are shared by a conversation, so only the attachments the user sent are removed
+    for (const path of await this.listChatAttachments(profileIds)) {
+      await this.photoService.deleteImage(path);
+      photosDeleted++;
+    }
+    summary.storage_objects = photosDeleted;
+
+    if (profileIds.length > 0) {
+      // Keep conversations readable for the other members, without the user's content or identity
+      const { count: anonymized, error: messageError } = await supabase
+        .from('messages')
+        .update({ content: ANONYMIZED_MESSAGE, metadata: null, sender_profile_id: null }, { count: 'exact' })
+        .in('sender_profile_id', profileIds);
+      if (messageError) throw new Error(`Failed to anonymize messages: ${messageError.message}`);
+      summary.messages_anonymized = anonymized || 0;
+
+      summary.project_applications = await this.deleteRows('project_applications', 'artist_profile_id', profileIds);
+      summary.conversation_members = await this.deleteRows('conversation_members', 'profile_id', profileIds);
+      summary.project_members = await this.deleteRows('project_members', 'profile_id', profileIds);
+      summary.schedule_members = await this.deleteRows('schedule_members', 'profile_id', profileIds);
+      summary.profile_social_links = await this.deleteRows('profile_social_links', 'profile_id', profileIds);
+      summary.availability_blocks = await this.deleteRows('availability_blocks', 'profile_id', profileIds);
+      summary.portfolio_items = await this.deleteRows('portfolio_items', 'profile_id', profileIds);
+      summary.portfolio_albums = await this.deleteRows('portfolio_albums', 'profile_id', profileIds);
+      summary.review_reports = await this.deleteRows('review_reports', 'reporter_profile_id', profileIds);
+      summary.reviews_written = await this.deleteRows('reviews', 'reviewer_profile_id', profileIds);
+      summary.reviews_received = await this.deleteRows('reviews', 'reviewee_profile_id', profileIds);
+
+      if (postIds.length > 0) {
+        summary.post_applications = await this.deleteRows('project_applications', 'project_id', postIds);
+        summary.posts = await this.deleteRows('posts', 'id', postIds);
+      }
+      summary.projects_anonymized = await this.updateRows('projects', 'created_by', profileIds, { created_by: null });
+      summary.schedules_anonymized = await this.updateRows('schedules', 'created_by', profileIds, { created_by: null });
+      summary.conversations_anonymized = await this.updateRows('conversations', 'created_by', profileIds, { created_by: null });
+
+      const { data: recruiterProfiles } = await supabase
+        .from('recruiter_profiles')
+        .select('id')
+        .in('profile_id', profileIds);
+      const recruiterProfileIds = (recruiterProfiles || []).map((row: any) => row.id);
+      if (recruiterProfileIds.length > 0) {
+        summary.recruiter_companies = await this.deleteRows('recruiter_companies', 'recruiter_profile_id', recruiterProfileIds);
+      }
+
+      summary.artist_profiles = await this.deleteRows('artist_profiles', 'profile_id', profileIds);
+      summary.recruiter_profiles = await this.deleteRows('recruiter_profiles', 'profile_id', profileIds);
+    }
+
+    summary.expo_push_tokens = await this.deleteRows('expo_push_tokens', 'user_id', [userId]);
+    summary.user_sessions = await this.deleteRows('user_sessions', 'user_id', [userId]);
+    summary.refresh_tokens = await this.deleteRows('refresh_tokens', 'user_id', [userId]);
+    summary.otp_verifications = await this.deleteRows('otp_verifications', 'user_id', [userId]);
+    if (user) {
+      summary.otp_verifications += await this.deleteRows('otp_verifications', 'phone', legacyPhoneCandidates(user.phone));
+      if (user.email) {
+        summary.otp_verifications += await this.deleteRows('otp_verifications', 'email', [user.email.trim().toLowerCase()]);
+      }
+    }
+
+    summary.auth_audit_log_anonymized = await this.updateRows('auth_audit_log', 'user_id', [userId], ANONYMIZED_AUDIT_FIELDS);
+    if (user) {
+      summary.auth_audit_log_anonymized += await this.updateRows(
+        'auth_audit_log', 'phone', legacyPhoneCandidates(user.phone), ANONYMIZED_AUDIT_FIELDS,
+      );
+    }
+    summary.auth_audit_log_anonymized += await this.updateRows(
+      'auth_audit_log', 'actor_id', [userId], { actor_id: null, ip_address: null, user_agent: null },
+    );
+    summary.impersonation_audit_log_anonymized =
+      (await this.updateRows('impersonation_audit_log', 'target_user_id', [userId], { target_user_id: null, target_profile_id: null })) +
+      (await this.updateRows('impersonation_audit_log', 'impersonator_id', [userId], { impersonator_id: null, impersonator_profile_id: null }));
+    // Keys belong to the integrations using them; only the admin's identity is removed
+    summary.api_keys_anonymized =
+      (await this.updateRows('api_keys', 'created_by', [userId], { created_by: null })) +
+      (await this.updateRows('api_keys', 'revoked_by', [userId], { revoked_by: null }));
+
+    summary.profiles = await this.deleteRows('profiles', 'user_id', [userId]);
+    summary.users = await this.deleteRows('users', 'id', [userId]);
+
+    const completedAt = new Date().toISOString();
+    const { data: existingRecord } = await supabase
+      .from('erasure_records')
+      .select('id')
+      .eq('deletion_request_id', request.id)
+      .maybeSingle();
+
+    if (!existingRecord) {
+      const { error: recordError } = await supabase
+        .from('erasure_records')
+        .insert({
+          deletion_request_id: request.id,
+          subject_hash: subjectHash,
+          requested_at: request.requested_at,
+          completed_at: completedAt,
+          summary,
+        });
+      if (recordError) throw new Error(`Failed to write erasure record: ${recordError.message}`);
+    }
+
+    // The request row keeps no personal data once the user row is gone
+    const { error: completeError } = await supabase
+      .from('account_deletion_requests')
+      .update({ status: 'completed', completed_at: completedAt, user_id: null, reason: null, error: null })
+      .eq('id', request.id);
+    if (completeError) throw new Error(`Failed to complete deletion request: ${completeError.message}`);
+
+    this.logger.log(`🗑️  Erased account ${userId}: ${JSON.stringify(summary)}`);
+  }
+
+  private async deleteRows(table: string, column: string, values: string[]): Promise<number> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { count, error } = await supabase
+      .from(table)
+      .delete({ count: 'exact' })
+      .in(column, values);
+
+    if (error) {
+      throw new Error(`Failed to delete from ${table}: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  private async updateRows(table: string, column: string, values: string[], updates: Record<string, any>): Promise<number> {
+    const supabase = this.supabaseService.getAdminClient();
+    const { count, error } = await supabase
+      .from(table)
+      .update(updates, { count: 'exact' })
+      .in(column, values);
+
+    if (error) {
+      throw new Error(`Failed to anonymize ${table}: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  /**
+   * Storage paths of chat attachments referenced by the user's messages
+   */
+  private async listChatAttachments(profileIds: string[]): Promise<string[]> {
+    if (profileIds.length === 0) return [];
+
+    const { data, error } = await this.supabaseService.getAdminClient()
+      .from('messages')
+      .select('metadata')
+      .in('sender_profile_id', profileIds)
+      .not('metadata', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to load message attachments: ${error.message}`);
+    }
+
+    const paths = new Set<string>();
+    const collect = (value: any) => {
+      if (typeof value === 'string') {
+        const path = this.photoService.pathFromPublicUrl(value);
+        if (path?.startsWith('chats/')) paths.add(path);
+      } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(collect);
+      }
+    };
+    (data || []).forEach((message: any) => collect(message.metadata));
+    return [...paths];
+  }
+
+  /**
+   * Keyed hash of the phone number, so a later erasure enquiry can be answered without keeping the number
+   */
+  private hashSubject(phone: string): string {
+    const secret = this.configService.get<string>('ERASURE_HASH_SECRET') || this.configService.get<string>('JWT_SECRET') || '';
+    return createHmac('sha256', secret).update(phone).digest('hex');
+  }
+}
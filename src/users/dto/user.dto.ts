@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty, IsOptional, Length, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class DeleteAccountDto {
+  @ApiProperty({
+    description: '6-digit OTP sent by POST /users/me/deletion-otp',
+    example: '123456',
+    minLength: 6,
+    maxLength: 6,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 6, { message: 'OTP must be 6 digits' })
+  otp: string;
+
+  @ApiPropertyOptional({ description: 'Why the user is leaving', example: 'No longer working in the industry' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
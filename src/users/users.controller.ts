@@ -1,14 +1,83 @@
-import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { DeleteAccountDto } from './dto/user.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { BlockImpersonation } from '../auth/decorators/block-impersonation.decorator';
 
 @ApiTags('Users')
 @ApiBearerAuth('JWT-auth')
 @Controller('users')
 @UseGuards(JwtAuthGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
+
+  @Post('me/deletion-otp')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Send account deletion OTP',
+    description: 'Sends an OTP to the registered phone number. Required to confirm DELETE /users/me.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'OTP sent',
+    schema: { example: { success: true, message: 'OTP sent to your registered phone number' } },
+  })
+  @ApiResponse({ status: 429, description: 'Too many requests - OTP cooldown or daily limit' })
+  async sendDeletionOtp(@CurrentUser() user: any) {
+    return this.accountDeletionService.sendConfirmationOtp(user);
+  }
+
+  @Delete('me')
+  @BlockImpersonation()
+  @ApiOperation({
+    summary: 'Delete my account',
+    description: `Schedules the account for permanent deletion after a grace period (default 30 days).
+
+Profiles, applications, push tokens and photos are erased and chat messages are anonymized once the grace period ends. Until then the deletion can be cancelled with POST /users/me/deletion/cancel.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Deletion scheduled',
+    schema: {
+      example: {
+        success: true,
+        message: 'Account deletion scheduled. You can cancel it until the scheduled date.',
+        scheduledFor: '2024-02-01T10:00:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or expired OTP' })
+  async deleteMe(@CurrentUser() user: any, @Body() dto: DeleteAccountDto) {
+    return this.accountDeletionService.requestDeletion(user, dto.otp, dto.reason);
+  }
+
+  @Get('me/deletion')
+  @ApiOperation({ summary: 'Get account deletion status', description: 'Whether a deletion is pending and when it will run' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deletion status',
+    schema: { example: { success: true, pending: true, scheduledFor: '2024-02-01T10:00:00.000Z' } },
+  })
+  async getDeletionStatus(@CurrentUser() user: any) {
+    return this.accountDeletionService.getStatus(user.id);
+  }
+
+  @Post('me/deletion/cancel')
+  @BlockImpersonation()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Cancel account deletion', description: 'Cancels a pending deletion during the grace period' })
+  @ApiResponse({ status: 200, description: 'Deletion cancelled' })
+  @ApiResponse({ status: 404, description: 'No pending account deletion' })
+  async cancelDeletion(@CurrentUser() user: any) {
+    return this.accountDeletionService.cancelDeletion(user.id);
+  }
 
   @Get(':id')
   @ApiOperation({ summary: 'Get user by ID', description: 'Retrieve user details by their UUID' })
@@ -19,4 +88,3 @@ export class UsersController {
     return this.usersService.getUserById(id);
   }
 }
-
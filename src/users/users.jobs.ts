@@ -0,0 +1,27 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { AccountDeletionService } from './account-deletion.service';
+
+/**
+ * Periodic user housekeeping
+ */
+@Injectable()
+export class UsersJobs implements OnModuleInit {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'account-deletions',
+      description: 'Erase accounts whose deletion grace period has ended',
+      intervalSeconds: parseInt(this.configService.get<string>('ACCOUNT_DELETION_INTERVAL_SECONDS') || '3600', 10),
+      // Erasure touches many tables per account; allow a long run before the lock lapses
+      lockTtlSeconds: 60 * 60,
+      run: () => this.accountDeletionService.processDueDeletions(),
+    });
+  }
+}
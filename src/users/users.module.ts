@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { UsersJobs } from './users.jobs';
+import { AuthModule } from '../auth/auth.module';
+import { PhotoModule } from '../photo/photo.module';
 
 @Module({
+  imports: [AuthModule, PhotoModule],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [UsersService, AccountDeletionService, UsersJobs],
+  exports: [UsersService, AccountDeletionService],
 })
 export class UsersModule {}
-
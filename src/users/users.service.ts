@@ -1,8 +1,32 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { normalizePhone } from '../utils/phone.util';
+
+export interface PhoneMigrationResult {
+  table: string;
+  column: string;
+  scanned: number;
+  updated: number;
+  invalid: string[];
+  failed: string[];
+}
+
+/**
+ * Columns that held bare 10-digit numbers before E.164 normalization
+ */
+const LEGACY_PHONE_COLUMNS: { table: string; columns: string[] }[] = [
+  { table: 'users', columns: ['phone'] },
+  { table: 'artist_profiles', columns: ['phone', 'alt_phone'] },
+  { table: 'recruiter_profiles', columns: ['phone', 'alt_phone'] },
+  { table: 'recruiter_companies', columns: ['phone'] },
+];
+
+const PHONE_MIGRATION_BATCH_SIZE = 500;
 
 @Injectable()
 export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
   constructor(private readonly supabaseService: SupabaseService) {}
 
   async getUserById(id: string) {
@@ -20,5 +44,81 @@ export class UsersService {
 
     return data;
   }
-}
 
+  /**
+   * Rewrite stored phone numbers that are not yet E.164, assuming +91 when no country code is present
+   * Safe to re-run: rows already starting with "+" are skipped. Invalid values are reported, not changed.
+   */
+  async migrateLegacyPhones(options: { dryRun?: boolean } = {}): Promise<PhoneMigrationResult[]> {
+    const results: PhoneMigrationResult[] = [];
+
+    for (const { table, columns } of LEGACY_PHONE_COLUMNS) {
+      for (const column of columns) {
+        results.push(await this.migratePhoneColumn(table, column, !!options.dryRun));
+      }
+    }
+
+    const updated = results.reduce((sum, result) => sum + result.updated, 0);
+    this.logger.log(`📞 Legacy phone migration ${options.dryRun ? '(dry run) ' : ''}finished: ${updated} value(s) normalized`);
+    return results;
+  }
+
+  private async migratePhoneColumn(table: string, column: string, dryRun: boolean): Promise<PhoneMigrationResult> {
+    const supabase = this.supabaseService.getAdminClient();
+    const result: PhoneMigrationResult = { table, column, scanned: 0, updated: 0, invalid: [], failed: [] };
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from(table)
+        .select(`id, ${column}`)
+        .not(column, 'is', null)
+        .not(column, 'like', '+%')
+        .order('id', { ascending: true })
+        .limit(PHONE_MIGRATION_BATCH_SIZE);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) {
+        this.logger.error(`❌ Failed to read ${table}.${column}: ${error.message}`);
+        throw new Error(`Failed to read ${table}.${column}: ${error.message}`);
+      }
+      if (!rows || rows.length === 0) break;
+
+      for (const row of rows as any[]) {
+        result.scanned++;
+        const value = row[column];
+        if (!value || !String(value).trim()) continue;
+
+        const normalized = normalizePhone(String(value));
+        if (!normalized) {
+          result.invalid.push(row.id);
+          continue;
+        }
+
+        if (!dryRun) {
+          const { error: updateError } = await supabase
+            .from(table)
+            .update({ [column]: normalized })
+            .eq('id', row.id);
+
+          if (updateError) {
+            // Typically a unique clash with an account that already uses the E.164 form
+            this.logger.warn(`⚠️  Could not normalize ${table}.${column} for ${row.id}: ${updateError.message}`);
+            result.failed.push(row.id);
+            continue;
+          }
+        }
+        result.updated++;
+      }
+
+      lastId = (rows[rows.length - 1] as any).id;
+      if (rows.length < PHONE_MIGRATION_BATCH_SIZE) break;
+    }
+
+    return result;
+  }
+}
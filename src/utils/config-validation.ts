@@ -1,4 +1,5 @@
 import { Logger } from '@nestjs/common';
+import { resolveMailTransportName } from '../mail/mail-transport.interface';
 
 interface RequiredEnvVars {
   [key: string]: {
@@ -19,7 +20,17 @@ const requiredEnvVars: RequiredEnvVars = {
   },
   JWT_SECRET: {
     required: true,
-    description: 'JWT secret key (minimum 32 characters)',
+    description: 'JWT secret key (minimum 32 characters); signs tokens when JWT_KEYS_FILE is not set and verifies tokens without a kid',
+  },
+  JWT_ACCESS_TOKEN_TTL_SECONDS: {
+    required: false,
+    description: 'Access token lifetime in seconds',
+    defaultValue: '900',
+  },
+  JWT_REFRESH_TOKEN_TTL_DAYS: {
+    required: false,
+    description: 'Refresh token lifetime in days',
+    defaultValue: '30',
   },
   NODE_ENV: {
     required: false,
@@ -36,10 +47,158 @@ const requiredEnvVars: RequiredEnvVars = {
     description: 'CORS allowed origins',
     defaultValue: 'http://localhost:19006,http://localhost:8081',
   },
+  SMS_PROVIDER: {
+    required: false,
+    description: 'SMS provider(s) to use: gateway, fake, or a comma-separated failover chain (e.g. gateway,fake)',
+    defaultValue: 'gateway',
+  },
+  SMS_FAKE_OUTBOX: {
+    required: false,
+    description: 'File the fake SMS provider appends sent messages to (JSON lines)',
+  },
   SMS_SECRET: {
     required: false,
     description: 'SMS provider secret key (required for OTP functionality)',
   },
+  OTP_HMAC_SECRET: {
+    required: false,
+    description: 'Secret used to HMAC OTPs at rest (falls back to JWT_SECRET)',
+  },
+  OTP_LEGACY_PLAINTEXT: {
+    required: false,
+    description: 'Accept plaintext OTP rows written before hashing; set to false once they have expired',
+    defaultValue: 'true',
+  },
+  OTP_MAX_VERIFY_ATTEMPTS: {
+    required: false,
+    description: 'Wrong OTP guesses allowed before the OTP is invalidated',
+    defaultValue: '5',
+  },
+  OTP_SEND_COOLDOWN_SECONDS: {
+    required: false,
+    description: 'Minimum seconds between OTP sends to the same phone',
+    defaultValue: '60',
+  },
+  OTP_DAILY_SEND_LIMIT: {
+    required: false,
+    description: 'Maximum OTP sends per phone in 24 hours',
+    defaultValue: '10',
+  },
+  OTP_LOCKOUT_BASE_SECONDS: {
+    required: false,
+    description: 'First verification lockout in seconds (doubles on repeat lockouts)',
+    defaultValue: '300',
+  },
+  OTP_LOCKOUT_MAX_SECONDS: {
+    required: false,
+    description: 'Upper bound for OTP verification lockouts in seconds',
+    defaultValue: '86400',
+  },
+  ACCOUNT_DELETION_GRACE_DAYS: {
+    required: false,
+    description: 'Days between a confirmed account deletion request and erasure',
+    defaultValue: '30',
+  },
+  ERASURE_HASH_SECRET: {
+    required: false,
+    description: 'Secret for hashing phone numbers in erasure records (falls back to JWT_SECRET)',
+  },
+  MAIL_TRANSPORT: {
+    required: false,
+    description: 'Mail transport to use: smtp, or file for local development and tests',
+    defaultValue: 'smtp',
+  },
+  MAIL_FROM: {
+    required: false,
+    description: 'From address for outgoing mail',
+    defaultValue: '24Krafts <no-reply@24krafts.com>',
+  },
+  MAIL_FILE_SINK: {
+    required: false,
+    description: 'File the file mail transport appends sent messages to (JSON lines)',
+  },
+  SMTP_HOST: {
+    required: false,
+    description: 'SMTP relay host (required when MAIL_TRANSPORT is smtp)',
+  },
+  SMTP_PORT: {
+    required: false,
+    description: 'SMTP relay port',
+    defaultValue: '587',
+  },
+  SMTP_SECURE: {
+    required: false,
+    description: 'Use implicit TLS for SMTP (defaults to true on port 465)',
+  },
+  SMTP_USER: {
+    required: false,
+    description: 'SMTP username',
+  },
+  SMTP_PASSWORD: {
+    required: false,
+    description: 'SMTP password',
+  },
+  EMAIL_LINK_BASE_URL: {
+    required: false,
+    description:
+      'Deep-link base of the app, e.g. https://app.24krafts.com (required when email is enabled). Emailed links open ' +
+      '{base}/auth/email/login and {base}/auth/email/confirm with email and token query parameters, which the app ' +
+      'posts to the API; the API itself serves no page there',
+  },
+  SCHEDULER_ENABLED: {
+    required: false,
+    description: 'Run scheduled housekeeping jobs on this instance (a lock keeps each run to one instance)',
+    defaultValue: 'true',
+  },
+  OTP_CLEANUP_INTERVAL_SECONDS: {
+    required: false,
+    description: 'How often expired OTPs are deleted',
+    defaultValue: '3600',
+  },
+  ACCOUNT_DELETION_INTERVAL_SECONDS: {
+    required: false,
+    description: 'How often accounts past their deletion grace period are erased',
+    defaultValue: '3600',
+  },
+  FIELD_ENCRYPTION_KEY_PROVIDER: {
+    required: false,
+    description: 'Key provider that wraps the data keys of encrypted fields such as Aadhaar numbers (local)',
+    defaultValue: 'local',
+  },
+  FIELD_ENCRYPTION_KEY_FILE: {
+    required: false,
+    description: 'Key file for the local key provider; created automatically outside production',
+    defaultValue: '.keys/field-encryption.json',
+  },
+  JWT_KEYS_FILE: {
+    required: false,
+    description: 'JSON file with the asymmetric JWT signing keys (active kid plus verification keys); required in production, created automatically outside it',
+  },
+  JWT_ACCEPT_LEGACY_TOKENS: {
+    required: false,
+    description: 'Accept tokens signed with JWT_SECRET while JWT_KEYS_FILE is in use; set to false once they have expired',
+    defaultValue: 'true',
+  },
+  IDENTITY_CACHE_TTL_SECONDS: {
+    required: false,
+    description: 'How long the user and profiles behind an access token are cached (0 disables the cache)',
+    defaultValue: '60',
+  },
+  IMPERSONATION_TOKEN_TTL_SECONDS: {
+    required: false,
+    description: 'Lifetime of the access tokens superadmins get when impersonating a user',
+    defaultValue: '900',
+  },
+  API_KEY_DEFAULT_RATE_LIMIT: {
+    required: false,
+    description: 'Requests per minute allowed for API keys created without their own limit',
+    defaultValue: '60',
+  },
+  AUTH_AUDIT_RETENTION_DAYS: {
+    required: false,
+    description: 'Days auth audit log entries (OTP, login, logout, role change, impersonation events) are kept',
+    defaultValue: '90',
+  },
   THROTTLE_TTL: {
     required: false,
     description: 'Rate limiting time window in seconds',
@@ -78,6 +237,13 @@ export function validateEnvironmentVariables(): void {
     errors.push('❌ JWT_SECRET must be at least 32 characters long for security');
   }
 
+  // Email is enabled when mail can be delivered; its links are useless without the app's deep-link base
+  const mailTransport = resolveMailTransportName(process.env.MAIL_TRANSPORT);
+  const emailEnabled = mailTransport === 'file' || !!process.env.SMTP_HOST;
+  if (emailEnabled && !process.env.EMAIL_LINK_BASE_URL) {
+    errors.push('❌ EMAIL_LINK_BASE_URL must be set when email is enabled (MAIL_TRANSPORT=file or SMTP_HOST set)');
+  }
+
   const nodeEnv = process.env.NODE_ENV;
   if (nodeEnv === 'production') {
     const corsOrigin = process.env.CORS_ORIGIN;
@@ -85,9 +251,27 @@ export function validateEnvironmentVariables(): void {
       warnings.push('⚠️  CORS_ORIGIN is set to "*" in production - consider using specific domains');
     }
 
+    if ((process.env.SMS_PROVIDER || 'gateway').split(',').some(name => name.trim() === 'fake')) {
+      warnings.push('⚠️  SMS_PROVIDER includes "fake" in production - OTPs may not reach users');
+    }
+
+    if (mailTransport === 'file') {
+      warnings.push('⚠️  MAIL_TRANSPORT is "file" in production - emails will not reach users');
+    } else if (!process.env.SMTP_HOST) {
+      warnings.push('⚠️  SMTP_HOST not set - email login and verification will not work');
+    }
+
     if (!process.env.SMS_SECRET) {
       warnings.push('⚠️  SMS_SECRET not set - OTP functionality will not work');
     }
+
+    if (!process.env.JWT_KEYS_FILE) {
+      errors.push('❌ JWT_KEYS_FILE must be set in production - without it tokens are signed with JWT_SECRET and the JWKS endpoint is empty');
+    }
+
+    if ((process.env.FIELD_ENCRYPTION_KEY_PROVIDER || 'local') === 'local' && !process.env.FIELD_ENCRYPTION_KEY_FILE) {
+      warnings.push('⚠️  FIELD_ENCRYPTION_KEY_FILE not set - using the default local key file for field encryption');
+    }
   }
 
   // Log warnings
@@ -0,0 +1,29 @@
+import { legacyPhoneCandidates, normalizePhone, toIndianNationalNumber } from './phone.util';
+
+describe('phone.util', () => {
+  it('reads numbers without a country code as Indian', () => {
+    expect(normalizePhone('9876543210')).toBe('+919876543210');
+    expect(normalizePhone('98765 43210')).toBe('+919876543210');
+    expect(normalizePhone('919876543210')).toBe('+919876543210');
+    expect(normalizePhone('+91-98765-43210')).toBe('+919876543210');
+  });
+
+  it('normalizes international numbers', () => {
+    expect(normalizePhone('+971 50 123 4567')).toBe('+971501234567');
+    expect(normalizePhone('0094771234567')).toBe('+94771234567');
+    expect(normalizePhone('+1 (415) 555-2671')).toBe('+14155552671');
+  });
+
+  it('rejects invalid numbers', () => {
+    expect(normalizePhone('12345')).toBeNull();
+    expect(normalizePhone('+9715')).toBeNull();
+    expect(normalizePhone('')).toBeNull();
+    expect(normalizePhone(undefined)).toBeNull();
+  });
+
+  it('lists legacy storage forms for Indian numbers only', () => {
+    expect(legacyPhoneCandidates('+919876543210')).toEqual(['+919876543210', '9876543210', '919876543210']);
+    expect(legacyPhoneCandidates('+971501234567')).toEqual(['+971501234567']);
+    expect(toIndianNationalNumber('+971501234567')).toBeNull();
+  });
+});
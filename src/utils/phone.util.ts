@@ -0,0 +1,72 @@
+/**
+ * Phone number utilities
+ * Numbers are stored in E.164 (`+919876543210`). Input without a country code
+ * is read as Indian, which is also how legacy 10-digit rows are interpreted.
+ */
+import { Transform } from 'class-transformer';
+import { CountryCode, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+
+export const DEFAULT_PHONE_COUNTRY: CountryCode = 'IN';
+
+/**
+ * Normalize user input to E.164, or null if it is not a valid number
+ * Accepts `+971501234567`, `00971501234567`, `919876543210` and national `9876543210`.
+ */
+export function normalizePhone(
+  input: string | null | undefined,
+  defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY,
+): string | null {
+  if (!input || typeof input !== 'string') return null;
+
+  let cleaned = input.trim().replace(/[\s\-().]/g, '');
+  if (cleaned.startsWith('00')) {
+    cleaned = `+${cleaned.substring(2)}`;
+  }
+
+  const national = parsePhoneNumberFromString(cleaned, defaultCountry);
+  if (national?.isValid()) {
+    return national.number;
+  }
+
+  // Country code typed without the leading "+"
+  if (/^\d{8,15}$/.test(cleaned)) {
+    const international = parsePhoneNumberFromString(`+${cleaned}`);
+    if (international?.isValid()) {
+      return international.number;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the input can be normalized to a valid E.164 number
+ */
+export function isValidPhone(input: string | null | undefined): boolean {
+  return normalizePhone(input) !== null;
+}
+
+/**
+ * National significant number for Indian numbers (`9876543210`), null for any other country
+ */
+export function toIndianNationalNumber(e164: string): string | null {
+  const parsed = parsePhoneNumberFromString(e164);
+  return parsed?.countryCallingCode === '91' ? String(parsed.nationalNumber) : null;
+}
+
+/**
+ * Every form an E.164 number may have been stored in before normalization
+ * Indian numbers used to be stored as 10 bare digits (and occasionally with a 91 prefix).
+ */
+export function legacyPhoneCandidates(e164: string): string[] {
+  const national = toIndianNationalNumber(e164);
+  return national ? [e164, national, `91${national}`] : [e164];
+}
+
+/**
+ * class-transformer decorator normalizing a phone field to E.164
+ * Invalid input is left untouched so the validators can reject it.
+ */
+export function NormalizePhone(): PropertyDecorator {
+  return Transform(({ value }) => (typeof value === 'string' ? normalizePhone(value) ?? value : value));
+}
@@ -0,0 +1,31 @@
+import { pickActiveProfile, summarizeProfiles } from './profile.util';
+
+describe('profile.util', () => {
+  const artist = { id: 'p-artist', role: 'artist', first_name: 'John', created_at: '2024-01-01T00:00:00Z' };
+  const recruiter = { id: 'p-recruiter', role: 'recruiter', first_name: 'John', created_at: '2024-06-01T00:00:00Z' };
+
+  it('picks the preferred profile when the user owns it', () => {
+    expect(pickActiveProfile([artist, recruiter], 'p-recruiter')).toBe(recruiter);
+  });
+
+  it('picks the oldest profile when none is preferred', () => {
+    expect(pickActiveProfile([recruiter, artist])).toBe(artist);
+  });
+
+  it('picks nothing when the preferred profile belongs to someone else', () => {
+    expect(pickActiveProfile([recruiter, artist], 'someone-elses-profile')).toBeNull();
+  });
+
+  it('accepts the single object and null shapes of embedded relations', () => {
+    expect(pickActiveProfile(artist)).toBe(artist);
+    expect(pickActiveProfile(null)).toBeNull();
+    expect(pickActiveProfile([])).toBeNull();
+  });
+
+  it('summarizes profiles for a profile switcher', () => {
+    expect(summarizeProfiles([artist, recruiter])).toEqual([
+      { id: 'p-artist', role: 'artist', firstName: 'John', lastName: undefined },
+      { id: 'p-recruiter', role: 'recruiter', firstName: 'John', lastName: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Profile selection utilities
+ * A user can own several role profiles (e.g. artist and recruiter). Requests act as one
+ * of them: the profile named by our access token (`pid` claim), or by the `X-Profile-Id`
+ * header for Supabase-issued tokens.
+ */
+
+export interface OwnedProfile {
+  id: string;
+  created_at?: string;
+}
+
+/**
+ * Pick the active profile from a user's profiles
+ * Returns the preferred profile, or null when the user does not own it; without a
+ * preference, the oldest one. Accepts the array, single object or null shapes
+ * Supabase returns for embedded relations.
+ */
+export function pickActiveProfile<T extends OwnedProfile>(
+  profiles: T[] | T | null | undefined,
+  preferredId?: string | null,
+): T | null {
+  const list = Array.isArray(profiles) ? profiles : profiles ? [profiles] : [];
+  if (list.length === 0) return null;
+
+  if (preferredId) {
+    return list.find((profile) => profile.id === preferredId) || null;
+  }
+
+  return [...list].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))[0];
+}
+
+/**
+ * The fields of each profile a client needs to offer a profile switcher
+ */
+export function summarizeProfiles(profiles: any[] | any | null | undefined) {
+  const list = Array.isArray(profiles) ? profiles : profiles ? [profiles] : [];
+  return list.map((profile) => ({
+    id: profile.id,
+    role: profile.role,
+    firstName: profile.first_name,
+    lastName: profile.last_name,
+  }));
+}
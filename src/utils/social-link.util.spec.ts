@@ -0,0 +1,46 @@
+import { canonicalizeSocialLink } from './social-link.util';
+
+describe('social-link.util', () => {
+  it('canonicalizes Instagram URLs and handles', () => {
+    const expected = { url: 'https://www.instagram.com/john.doe/', handle: 'john.doe' };
+    expect(canonicalizeSocialLink('instagram', '@John.Doe')).toEqual(expected);
+    expect(canonicalizeSocialLink('instagram', 'https://m.instagram.com/John.Doe?igsh=abc')).toEqual(expected);
+    expect(canonicalizeSocialLink('instagram', 'instagram.com/john.doe/')).toEqual(expected);
+    expect(canonicalizeSocialLink('instagram', 'https://instagram.com/p/Cx1/')).toBeNull();
+    expect(canonicalizeSocialLink('instagram', 'https://facebook.com/john.doe')).toBeNull();
+  });
+
+  it('canonicalizes YouTube handles and channels', () => {
+    expect(canonicalizeSocialLink('youtube', 'https://youtube.com/@JohnActs?si=x')).toEqual({
+      url: 'https://www.youtube.com/@johnacts',
+      handle: '@johnacts',
+    });
+    expect(canonicalizeSocialLink('youtube', 'https://www.youtube.com/channel/UC1234567890abcdefghijkl')).toEqual({
+      url: 'https://www.youtube.com/channel/UC1234567890abcdefghijkl',
+      handle: 'UC1234567890abcdefghijkl',
+    });
+    expect(canonicalizeSocialLink('youtube', 'https://youtu.be/dQw4w9WgXcQ')).toBeNull();
+  });
+
+  it('canonicalizes IMDb names and LinkedIn profiles', () => {
+    expect(canonicalizeSocialLink('imdb', 'https://m.imdb.com/name/nm0000123/?ref_=x')).toEqual({
+      url: 'https://www.imdb.com/name/nm0000123/',
+      handle: 'nm0000123',
+    });
+    expect(canonicalizeSocialLink('imdb', 'https://www.imdb.com/title/tt0111161/')).toBeNull();
+    expect(canonicalizeSocialLink('linkedin', 'in.linkedin.com/in/John-Doe-42')).toEqual({
+      url: 'https://www.linkedin.com/in/john-doe-42',
+      handle: 'john-doe-42',
+    });
+    expect(canonicalizeSocialLink('linkedin', 'https://www.linkedin.com/company/krafts-studio/about')).toEqual({
+      url: 'https://www.linkedin.com/company/krafts-studio',
+      handle: 'krafts-studio',
+    });
+  });
+
+  it('only requires a web URL for other platforms', () => {
+    expect(canonicalizeSocialLink('website', 'myportfolio.com')).toEqual({ url: 'https://myportfolio.com/', handle: null });
+    expect(canonicalizeSocialLink('custom', 'javascript:alert(1)')).toBeNull();
+    expect(canonicalizeSocialLink('website', '  ')).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Social link utilities
+ * Links to Instagram, YouTube, IMDb and LinkedIn are stored in one canonical URL form,
+ * whether the user pasted a URL (with tracking parameters, mobile hosts, ...) or typed a handle.
+ * Other platforms only need to be a valid http(s) URL.
+ */
+
+export const SOCIAL_PLATFORMS = ['instagram', 'youtube', 'imdb', 'linkedin', 'facebook', 'twitter', 'website', 'custom'] as const;
+
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+export interface CanonicalSocialLink {
+  url: string;
+  /** Username, channel or IMDb id; null for platforms without handles */
+  handle: string | null;
+}
+
+/** Instagram paths that are not profiles */
+const INSTAGRAM_RESERVED = new Set(['p', 'reel', 'reels', 'explore', 'stories', 'accounts', 'tv']);
+
+function parseUrl(input: string): URL | null {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`;
+  try {
+    const url = new URL(withScheme);
+    return ['http:', 'https:'].includes(url.protocol) && url.hostname.includes('.') ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function isHost(url: URL, domain: string): boolean {
+  const host = url.hostname.toLowerCase();
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean).map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+}
+
+/** Links always have a path; handles may contain dots (`john.doe`) so those don't count */
+function looksLikeUrl(input: string): boolean {
+  return input.includes('/');
+}
+
+function instagram(input: string): CanonicalSocialLink | null {
+  let handle = input.replace(/^@/, '');
+  if (looksLikeUrl(input)) {
+    const url = parseUrl(input);
+    if (!url || !(isHost(url, 'instagram.com') || isHost(url, 'instagr.am'))) return null;
+    const [first] = pathSegments(url);
+    if (!first || INSTAGRAM_RESERVED.has(first.toLowerCase())) return null;
+    handle = first;
+  }
+
+  handle = handle.toLowerCase();
+  if (!/^[a-z0-9._]{1,30}$/.test(handle)) return null;
+  return { url: `https://www.instagram.com/${handle}/`, handle };
+}
+
+function youtube(input: string): CanonicalSocialLink | null {
+  if (!looksLikeUrl(input)) {
+    if (/^UC[\w-]{22}$/.test(input)) {
+      return { url: `https://www.youtube.com/channel/${input}`, handle: input };
+    }
+    const handle = input.replace(/^@/, '').toLowerCase();
+    return /^[a-z0-9._-]{3,30}$/.test(handle) ? { url: `https://www.youtube.com/@${handle}`, handle: `@${handle}` } : null;
+  }
+
+  const url = parseUrl(input);
+  if (!url || !isHost(url, 'youtube.com')) return null;
+  const [first, second] = pathSegments(url);
+
+  if (first?.startsWith('@')) {
+    return youtube(first);
+  }
+  if (first === 'channel' && second && /^UC[\w-]{22}$/.test(second)) {
+    return youtube(second);
+  }
+  // Legacy custom and user URLs have no handle equivalent we can derive
+  if ((first === 'c' || first === 'user') && second && /^[A-Za-z0-9._-]{1,100}$/.test(second)) {
+    return { url: `https://www.youtube.com/${first}/${second}`, handle: second };
+  }
+  return null;
+}
+
+function imdb(input: string): CanonicalSocialLink | null {
+  let id = input;
+  if (looksLikeUrl(input)) {
+    const url = parseUrl(input);
+    if (!url || !isHost(url, 'imdb.com')) return null;
+    const [first, second] = pathSegments(url);
+    if (first !== 'name' || !second) return null;
+    id = second;
+  }
+
+  id = id.toLowerCase();
+  if (!/^nm\d{7,8}$/.test(id)) return null;
+  return { url: `https://www.imdb.com/name/${id}/`, handle: id };
+}
+
+function linkedin(input: string): CanonicalSocialLink | null {
+  let kind = 'in';
+  let slug = input;
+  if (looksLikeUrl(input)) {
+    const url = parseUrl(input);
+    if (!url || !isHost(url, 'linkedin.com')) return null;
+    const [first, second] = pathSegments(url);
+    if (!['in', 'company'].includes(first) || !second) return null;
+    kind = first;
+    slug = second;
+  }
+
+  slug = slug.toLowerCase();
+  if (!/^[\p{L}\p{N}-]{3,100}$/u.test(slug)) return null;
+  return { url: `https://www.linkedin.com/${kind}/${slug}`, handle: slug };
+}
+
+/**
+ * Canonical form of a link (or handle) for a platform, or null if it is not valid for it
+ * e.g. for Instagram, `@John.Doe` and `https://instagram.com/John.Doe?igsh=x` both give
+ * `https://www.instagram.com/john.doe/`.
+ */
+export function canonicalizeSocialLink(platform: SocialPlatform, input: string | null | undefined): CanonicalSocialLink | null {
+  const value = (input || '').trim();
+  if (!value) return null;
+
+  switch (platform) {
+    case 'instagram':
+      return instagram(value);
+    case 'youtube':
+      return youtube(value);
+    case 'imdb':
+      return imdb(value);
+    case 'linkedin':
+      return linkedin(value);
+    default: {
+      const url = parseUrl(value);
+      return url ? { url: url.toString(), handle: null } : null;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+-- Rotating refresh tokens (RefreshTokenService)
+-- Every login starts a family; rotation revokes the presented token and links it to
+-- its successor through `replaced_by`. Reuse of a revoked token revokes the family.
+
+create table if not exists public.refresh_tokens (
+  id uuid primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  family_id uuid not null,
+  device_id text,
+  token_hash text not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  revoked_reason text,
+  replaced_by uuid references public.refresh_tokens (id) on delete set null
+);
+
+create index if not exists refresh_tokens_family_idx
+  on public.refresh_tokens (family_id)
+  where revoked_at is null;
+
+create index if not exists refresh_tokens_user_device_idx
+  on public.refresh_tokens (user_id, device_id)
+  where revoked_at is null;
+
+alter table public.refresh_tokens enable row level security;
@@ -0,0 +1,19 @@
+-- OTPs are stored as salted HMACs (OtpService.hashOTP) instead of plaintext codes.
+-- New rows no longer write `otp`; rows created before this migration keep verifying
+-- through the plaintext column while OTP_LEGACY_PLAINTEXT is 'true'. Once they have
+-- expired and the flag is off, the column can be dropped.
+
+alter table public.otp_verifications
+  add column if not exists otp_hash text,
+  add column if not exists otp_salt text;
+
+alter table public.otp_verifications
+  alter column otp drop not null;
+
+alter table public.otp_verifications
+  add constraint otp_verifications_hash_or_legacy
+  check ((otp_hash is not null and otp_salt is not null) or otp is not null);
+
+create index if not exists otp_verifications_phone_pending_idx
+  on public.otp_verifications (phone, created_at desc)
+  where verified_at is null;
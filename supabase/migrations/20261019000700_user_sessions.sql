@@ -0,0 +1,31 @@
+-- Login sessions a user can list and revoke (SessionsService)
+-- A session's id is the refresh token family id of the login and the `sid` claim of
+-- its access tokens. `push_token_id` links the push token registered from the session,
+-- which is revoked with it, or handed to the next session on the same device.
+
+create table if not exists public.user_sessions (
+  id uuid primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  device_id text,
+  device_name text,
+  platform text,
+  app_version text,
+  os_version text,
+  ip_address text,
+  user_agent text,
+  push_token_id uuid references public.expo_push_tokens (id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_active_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+create index if not exists user_sessions_user_active_idx
+  on public.user_sessions (user_id, last_active_at desc)
+  where revoked_at is null;
+
+create index if not exists user_sessions_user_device_idx
+  on public.user_sessions (user_id, device_id)
+  where revoked_at is null;
+
+alter table public.user_sessions enable row level security;
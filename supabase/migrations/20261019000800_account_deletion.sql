@@ -0,0 +1,47 @@
+-- Self-service account deletion (AccountDeletionService)
+-- A request waits out its grace period as `pending`, is retried with backoff on
+-- failure and ends `completed` (or `failed` for an admin to retry). Completed
+-- requests keep no user id; `erasure_records` keeps only a keyed hash of the phone.
+
+create table if not exists public.account_deletion_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.users (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'cancelled', 'completed', 'failed')),
+  reason text,
+  requested_at timestamptz not null default now(),
+  scheduled_for timestamptz not null,
+  cancelled_at timestamptz,
+  completed_at timestamptz,
+  subject_hash text,
+  attempts integer not null default 0,
+  next_attempt_at timestamptz,
+  last_attempt_at timestamptz,
+  error text
+);
+
+-- At most one pending request per user
+create unique index if not exists account_deletion_requests_pending_user_idx
+  on public.account_deletion_requests (user_id)
+  where status = 'pending';
+
+create index if not exists account_deletion_requests_due_idx
+  on public.account_deletion_requests (scheduled_for)
+  where status = 'pending';
+
+create table if not exists public.erasure_records (
+  id uuid primary key default gen_random_uuid(),
+  deletion_request_id uuid not null unique references public.account_deletion_requests (id),
+  subject_hash text,
+  requested_at timestamptz not null,
+  completed_at timestamptz not null,
+  summary jsonb not null default '{}'::jsonb
+);
+
+-- Shared content outlives its author: erasure clears created_by instead of deleting it
+alter table public.projects alter column created_by drop not null;
+alter table public.schedules alter column created_by drop not null;
+alter table public.conversations alter column created_by drop not null;
+
+alter table public.account_deletion_requests enable row level security;
+alter table public.erasure_records enable row level security;
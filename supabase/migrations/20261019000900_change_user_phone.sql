@@ -0,0 +1,42 @@
+-- Phone number change (PhoneChangeService.confirm)
+-- Rewrites the login phone and the contact phone copied onto the user's artist and
+-- recruiter profiles in one transaction. `p_old_phones` holds every stored form of
+-- the old number (E.164 and legacy 10-digit), so rows written before normalisation
+-- move too. A unique violation (23505) surfaces as "already registered".
+
+create or replace function public.change_user_phone(
+  p_user_id uuid,
+  p_old_phones text[],
+  p_new_phone text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update users
+     set phone = p_new_phone
+   where id = p_user_id;
+
+  if not found then
+    raise exception 'User % not found', p_user_id using errcode = 'P0002';
+  end if;
+
+  update artist_profiles ap
+     set phone = p_new_phone
+    from profiles p
+   where ap.profile_id = p.id
+     and p.user_id = p_user_id
+     and ap.phone = any (p_old_phones);
+
+  update recruiter_profiles rp
+     set phone = p_new_phone
+    from profiles p
+   where rp.profile_id = p.id
+     and p.user_id = p_user_id
+     and rp.phone = any (p_old_phones);
+end;
+$$;
+
+revoke all on function public.change_user_phone(uuid, text[], text) from public, anon, authenticated;
+grant execute on function public.change_user_phone(uuid, text[], text) to service_role;
@@ -0,0 +1,36 @@
+-- Email OTP and magic-link login (EmailOtpService)
+-- Email codes share `otp_verifications` with SMS ones: `channel = 'email'` rows are
+-- keyed by `email` and `purpose` instead of `phone`, belong to an existing user and
+-- also carry the hash of the magic-link token.
+
+alter table public.otp_verifications
+  add column if not exists channel text not null default 'sms',
+  add column if not exists email text,
+  add column if not exists purpose text,
+  add column if not exists user_id uuid references public.users (id) on delete cascade,
+  add column if not exists link_token_hash text;
+
+alter table public.otp_verifications
+  alter column phone drop not null;
+
+alter table public.otp_verifications
+  add constraint otp_verifications_channel_check
+  check (
+    (channel = 'sms' and phone is not null)
+    or (channel = 'email' and email is not null and purpose in ('login', 'verify_email'))
+  );
+
+create index if not exists otp_verifications_email_pending_idx
+  on public.otp_verifications (email, purpose, created_at desc)
+  where verified_at is null;
+
+create index if not exists otp_verifications_user_idx
+  on public.otp_verifications (user_id);
+
+-- Only a verified email can be used to log in
+alter table public.users
+  add column if not exists email_verified_at timestamptz;
+
+create index if not exists users_verified_email_idx
+  on public.users (email)
+  where email_verified_at is not null;
@@ -0,0 +1,24 @@
+-- Run history of scheduled jobs (SchedulerService)
+-- One row per run, scheduled or manual; `result` holds whatever the job resolved with.
+
+create table if not exists public.scheduled_job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  status text not null check (status in ('running', 'succeeded', 'failed')),
+  trigger text not null check (trigger in ('schedule', 'manual')),
+  triggered_by uuid,
+  instance_id text not null,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  result jsonb,
+  error text
+);
+
+create index if not exists scheduled_job_runs_job_started_idx
+  on public.scheduled_job_runs (job_name, started_at desc);
+
+create index if not exists scheduled_job_runs_started_idx
+  on public.scheduled_job_runs (started_at desc);
+
+alter table public.scheduled_job_runs enable row level security;
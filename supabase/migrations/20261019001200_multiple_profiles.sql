@@ -0,0 +1,12 @@
+-- Multiple profiles per user (one per role) and per-session profile switching
+-- A user may hold an artist and a recruiter profile; access tokens carry the active
+-- one as `pid`, and refreshed tokens take it from `user_sessions.active_profile_id`.
+
+alter table public.profiles
+  drop constraint if exists profiles_user_id_key;
+
+create unique index if not exists profiles_user_role_idx
+  on public.profiles (user_id, role);
+
+alter table public.user_sessions
+  add column if not exists active_profile_id uuid references public.profiles (id) on delete set null;
@@ -0,0 +1,113 @@
+-- Atomic signup (AuthService.signup)
+-- `signup_user` inserts the user, the base profile, the role profile (plus the
+-- recruiter's company) and the social links in one transaction. The signup token's
+-- idempotency key is stored with the result, so a retried request returns the
+-- original signup (`replayed: true`) instead of failing or creating a second user.
+
+create table if not exists public.signup_idempotency_keys (
+  key text primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.signup_idempotency_keys enable row level security;
+
+create or replace function public.signup_user(
+  p_idempotency_key text,
+  p_phone_candidates text[],
+  p_payload jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_existing signup_idempotency_keys%rowtype;
+  v_user users%rowtype;
+  v_profile profiles%rowtype;
+  v_recruiter_profile_id uuid;
+  v_role_profile jsonb;
+begin
+  -- Concurrent retries of one signup wait for each other instead of racing
+  perform pg_advisory_xact_lock(hashtext('signup_user:' || p_idempotency_key));
+
+  select * into v_existing from signup_idempotency_keys where key = p_idempotency_key;
+  if found then
+    select * into v_user from users where id = v_existing.user_id;
+    select * into v_profile from profiles where id = v_existing.profile_id;
+    return jsonb_build_object('user', to_jsonb(v_user), 'profile', to_jsonb(v_profile), 'replayed', true);
+  end if;
+
+  if exists (select 1 from users where phone = any (p_phone_candidates)) then
+    raise exception 'USER_EXISTS';
+  end if;
+
+  insert into users (id, phone, email)
+  values (
+    (p_payload -> 'user' ->> 'id')::uuid,
+    p_payload -> 'user' ->> 'phone',
+    p_payload -> 'user' ->> 'email'
+  )
+  returning * into v_user;
+
+  insert into profiles (user_id, role, first_name, last_name, profile_photo_url)
+  values (
+    v_user.id,
+    p_payload -> 'profile' ->> 'role',
+    p_payload -> 'profile' ->> 'first_name',
+    p_payload -> 'profile' ->> 'last_name',
+    p_payload -> 'profile' ->> 'profile_photo_url'
+  )
+  returning * into v_profile;
+
+  v_role_profile := coalesce(nullif(p_payload -> 'artist_profile', 'null'), nullif(p_payload -> 'recruiter_profile', 'null'));
+
+  if jsonb_typeof(p_payload -> 'artist_profile') = 'object' then
+    insert into artist_profiles (
+      profile_id, email, phone, alt_phone, maa_associative_number, gender,
+      department, state, city, aadhar_number, bio, profile_pic
+    )
+    select v_profile.id, r.email, r.phone, r.alt_phone, r.maa_associative_number, r.gender,
+           r.department, r.state, r.city, r.aadhar_number, r.bio, r.profile_pic
+      from jsonb_to_record(v_role_profile) as r(
+        email text, phone text, alt_phone text, maa_associative_number text, gender text,
+        department text, state text, city text, aadhar_number text, bio text, profile_pic text
+      );
+  elsif jsonb_typeof(p_payload -> 'recruiter_profile') = 'object' then
+    insert into recruiter_profiles (
+      profile_id, email, phone, alt_phone, maa_associative_number, gender,
+      department, state, city, aadhar_number, bio, profile_pic
+    )
+    select v_profile.id, r.email, r.phone, r.alt_phone, r.maa_associative_number, r.gender,
+           r.department, r.state, r.city, r.aadhar_number, r.bio, r.profile_pic
+      from jsonb_to_record(v_role_profile) as r(
+        email text, phone text, alt_phone text, maa_associative_number text, gender text,
+        department text, state text, city text, aadhar_number text, bio text, profile_pic text
+      )
+    returning id into v_recruiter_profile_id;
+
+    if jsonb_typeof(p_payload -> 'recruiter_company') = 'object' then
+      insert into recruiter_companies (recruiter_profile_id, name, phone, email, logo_url, website)
+      select v_recruiter_profile_id, c.name, c.phone, c.email, c.logo_url, c.website
+        from jsonb_to_record(p_payload -> 'recruiter_company') as c(
+          name text, phone text, email text, logo_url text, website text
+        );
+    end if;
+  end if;
+
+  insert into profile_social_links (profile_id, platform, url, is_custom, order_index)
+  select v_profile.id, l.platform, l.url, coalesce(l.is_custom, false), l.order_index
+    from jsonb_to_recordset(coalesce(p_payload -> 'social_links', '[]'::jsonb)) as l(
+      platform text, url text, is_custom boolean, order_index integer
+    );
+
+  insert into signup_idempotency_keys (key, user_id, profile_id)
+  values (p_idempotency_key, v_user.id, v_profile.id);
+
+  return jsonb_build_object('user', to_jsonb(v_user), 'profile', to_jsonb(v_profile), 'replayed', false);
+end;
+$$;
+
+revoke all on function public.signup_user(text, text[], jsonb) from public, anon, authenticated;
+grant execute on function public.signup_user(text, text[], jsonb) to service_role;
@@ -0,0 +1,7 @@
+-- Aadhaar numbers are stored envelope-encrypted (FieldEncryptionService):
+-- `enc:v1:{keyId}:{wrappedKey}:{iv}:{tag}:{ciphertext}`, far longer than the 12 digits
+-- the column was sized for. Values without the prefix are legacy plaintext and are
+-- still read as they are.
+
+alter table public.artist_profiles alter column aadhar_number type text;
+alter table public.recruiter_profiles alter column aadhar_number type text;
@@ -0,0 +1,6 @@
+-- Permission-based policies (src/auth/policies)
+-- Roles grant a fixed set of permissions; `permissions` adds named extras to one
+-- profile (e.g. `pii:read`), set by a superadmin through POST /admin/profiles/:id/role.
+
+alter table public.profiles
+  add column if not exists permissions text[] not null default '{}';
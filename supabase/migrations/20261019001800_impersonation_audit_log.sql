@@ -0,0 +1,31 @@
+-- Superadmin impersonation audit trail (ImpersonationService)
+-- `start` is written before the impersonation token is handed out; every write made
+-- with the token and every blocked action follow as `write` / `blocked`. Account
+-- erasure clears the ids of an erased user but keeps the entries.
+
+create table if not exists public.impersonation_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  event text not null check (event in ('start', 'write', 'blocked')),
+  impersonator_id uuid references public.users (id) on delete set null,
+  impersonator_profile_id uuid references public.profiles (id) on delete set null,
+  target_user_id uuid references public.users (id) on delete set null,
+  target_profile_id uuid references public.profiles (id) on delete set null,
+  token_jti text,
+  reason text,
+  expires_at timestamptz,
+  method text,
+  path text,
+  status_code integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists impersonation_audit_log_created_idx
+  on public.impersonation_audit_log (created_at desc);
+
+create index if not exists impersonation_audit_log_impersonator_idx
+  on public.impersonation_audit_log (impersonator_id, created_at desc);
+
+create index if not exists impersonation_audit_log_target_idx
+  on public.impersonation_audit_log (target_user_id, created_at desc);
+
+alter table public.impersonation_audit_log enable row level security;
@@ -0,0 +1,25 @@
+-- API keys for server-to-server integrations (ApiKeysService)
+-- Keys look like `k24_{id}.{secret}`; only a SHA-256 hash of the secret is stored.
+-- `created_by` / `revoked_by` are the admins who managed the key and are cleared
+-- when their account is erased; the key itself keeps working.
+
+create table if not exists public.api_keys (
+  id uuid primary key,
+  name text not null,
+  key_hash text not null,
+  scopes text[] not null default '{}',
+  rate_limit_per_minute integer not null check (rate_limit_per_minute > 0),
+  expires_at timestamptz,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  revoked_by uuid references public.users (id) on delete set null,
+  last_used_at timestamptz,
+  last_used_ip text
+);
+
+create index if not exists api_keys_active_idx
+  on public.api_keys (created_at desc)
+  where revoked_at is null;
+
+alter table public.api_keys enable row level security;
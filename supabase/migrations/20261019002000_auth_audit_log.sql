@@ -0,0 +1,30 @@
+-- Security audit log of authentication events (AuthAuditService)
+-- Entries are written best effort and purged after AUTH_AUDIT_RETENTION_DAYS by the
+-- `auth-audit-retention` job. `phone` is kept for events without a known user, such
+-- as OTP sends and failed logins; erasure clears the user's identifiers and IPs.
+
+create table if not exists public.auth_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  event text not null,
+  outcome text not null check (outcome in ('success', 'failure', 'blocked')),
+  user_id uuid references public.users (id) on delete set null,
+  phone text,
+  profile_id uuid references public.profiles (id) on delete set null,
+  actor_id uuid references public.users (id) on delete set null,
+  reason text,
+  metadata jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists auth_audit_log_user_idx
+  on public.auth_audit_log (user_id, created_at desc);
+
+create index if not exists auth_audit_log_phone_idx
+  on public.auth_audit_log (phone, created_at desc);
+
+create index if not exists auth_audit_log_created_idx
+  on public.auth_audit_log (created_at);
+
+alter table public.auth_audit_log enable row level security;
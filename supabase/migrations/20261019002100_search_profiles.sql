@@ -0,0 +1,110 @@
+-- Talent search (ProfilesService.searchProfiles)
+-- Filters profiles on their artist or recruiter details and ranks a full-text query
+-- over name (weight A) and bio (weight B). Every row carries a text `sort_key` that
+-- orders the same way as the chosen sort, so pages continue after
+-- (`p_cursor_key`, `p_cursor_id`). Only public fields are returned.
+
+alter table public.profiles
+  add column if not exists verified_at timestamptz;
+
+create or replace function public.search_profiles(
+  p_query text default null,
+  p_role text default null,
+  p_department text default null,
+  p_city text default null,
+  p_state text default null,
+  p_gender text default null,
+  p_premium boolean default null,
+  p_verified boolean default null,
+  p_sort text default 'newest',
+  p_cursor_key text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 21
+) returns table (
+  id uuid,
+  user_id uuid,
+  role text,
+  first_name text,
+  last_name text,
+  profile_pic text,
+  department text,
+  city text,
+  state text,
+  gender text,
+  bio text,
+  is_premium boolean,
+  is_verified boolean,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  rank real,
+  sort_key text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with search as (
+    select case when p_query is null then null else websearch_to_tsquery('simple', p_query) end as tsq
+  ),
+  candidates as (
+    select
+      p.id,
+      p.user_id,
+      p.role,
+      p.first_name,
+      p.last_name,
+      coalesce(ap.profile_pic, rp.profile_pic, p.profile_photo_url) as profile_pic,
+      coalesce(ap.department, rp.department) as department,
+      coalesce(ap.city, rp.city) as city,
+      coalesce(ap.state, rp.state) as state,
+      coalesce(ap.gender, rp.gender) as gender,
+      coalesce(ap.bio, rp.bio) as bio,
+      coalesce(p.premium_until > now(), false) as is_premium,
+      p.verified_at is not null as is_verified,
+      (select max(s.last_active_at) from user_sessions s where s.user_id = p.user_id) as last_active_at,
+      p.created_at,
+      case when search.tsq is null then 0::real else ts_rank_cd(doc.document, search.tsq) end as rank,
+      search.tsq is null or doc.document @@ search.tsq as matches
+    from profiles p
+    cross join search
+    left join artist_profiles ap on ap.profile_id = p.id
+    left join recruiter_profiles rp on rp.profile_id = p.id
+    cross join lateral (
+      select setweight(to_tsvector('simple', coalesce(p.first_name, '') || ' ' || coalesce(p.last_name, '')), 'A')
+          || setweight(to_tsvector('simple', coalesce(ap.bio, rp.bio, '')), 'B') as document
+    ) doc
+    where (p_role is null or p.role = p_role)
+  ),
+  keyed as (
+    select
+      c.*,
+      case p_sort
+        -- Fixed-width numbers and ISO timestamps compare as text in the same order as their values
+        when 'relevance' then to_char(c.rank::numeric(20, 9), 'FM00000000000.000000000')
+        when 'recently_active' then coalesce(to_char(c.last_active_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'), '')
+        else to_char(c.created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+      end as sort_key
+    from candidates c
+    where c.matches
+      and (p_department is null or lower(c.department) = lower(p_department))
+      and (p_city is null or lower(c.city) = lower(p_city))
+      and (p_state is null or lower(c.state) = lower(p_state))
+      and (p_gender is null or lower(c.gender) = lower(p_gender))
+      and (p_premium is null or c.is_premium = p_premium)
+      and (p_verified is null or c.is_verified = p_verified)
+  )
+  select
+    k.id, k.user_id, k.role, k.first_name, k.last_name, k.profile_pic, k.department, k.city,
+    k.state, k.gender, k.bio, k.is_premium, k.is_verified, k.last_active_at, k.created_at,
+    k.rank, k.sort_key
+  from keyed k
+  where p_cursor_key is null or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+  order by k.sort_key desc, k.id desc
+  limit least(greatest(p_limit, 1), 51);
+$$;
+
+revoke all on function public.search_profiles(text, text, text, text, text, text, boolean, boolean, text, text, uuid, integer)
+  from public, anon, authenticated;
+grant execute on function public.search_profiles(text, text, text, text, text, text, boolean, boolean, text, text, uuid, integer)
+  to service_role;
@@ -0,0 +1,62 @@
+-- Portfolio albums and items (PortfolioService)
+-- Images live in the private `portfolio-private` bucket and are only handed out as
+-- signed URLs, so `storage_path` is stored instead of a public URL; videos keep their
+-- `url`. Items go with their album (on delete cascade).
+
+create table if not exists public.portfolio_albums (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  title text not null,
+  description text,
+  visibility text not null default 'public' check (visibility in ('public', 'recruiters', 'private')),
+  cover_item_id uuid,
+  order_index integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists portfolio_albums_profile_idx
+  on public.portfolio_albums (profile_id, order_index);
+
+create table if not exists public.portfolio_items (
+  id uuid primary key default gen_random_uuid(),
+  album_id uuid not null references public.portfolio_albums (id) on delete cascade,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null check (type in ('image', 'video')),
+  url text,
+  storage_path text,
+  caption text,
+  tags text[] not null default '{}',
+  visibility text not null default 'public' check (visibility in ('public', 'recruiters', 'private')),
+  order_index integer not null default 0,
+  created_at timestamptz not null default now(),
+  check (
+    (type = 'image' and storage_path is not null)
+    or (type = 'video' and url is not null)
+  )
+);
+
+create index if not exists portfolio_items_album_idx
+  on public.portfolio_items (album_id, order_index);
+
+create index if not exists portfolio_items_profile_idx
+  on public.portfolio_items (profile_id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'portfolio_albums_cover_item_id_fkey'
+  ) then
+    alter table public.portfolio_albums
+      add constraint portfolio_albums_cover_item_id_fkey
+      foreign key (cover_item_id) references public.portfolio_items (id) on delete set null;
+  end if;
+end $$;
+
+alter table public.portfolio_albums enable row level security;
+alter table public.portfolio_items enable row level security;
+
+-- Private bucket: objects are only reachable through signed URLs created by the service role
+insert into storage.buckets (id, name, public)
+values ('portfolio-private', 'portfolio-private', false)
+on conflict (id) do update set public = false;
@@ -0,0 +1,56 @@
+-- Artist availability (AvailabilityService)
+-- Artists publish inclusive `start_date`..`end_date` blocks marked available, tentative
+-- or booked. `available_profiles` returns the profiles free on every day of a range:
+-- no booked (or, unless `p_include_tentative`, tentative) block overlapping it and no
+-- accepted schedule invitation dated within it. It returns `setof profiles`, so callers
+-- select, filter and page it like the table.
+
+create table if not exists public.availability_blocks (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null check (status in ('available', 'tentative', 'booked')),
+  start_date date not null,
+  end_date date not null,
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists availability_blocks_profile_range_idx
+  on public.availability_blocks (profile_id, start_date, end_date);
+
+alter table public.availability_blocks enable row level security;
+
+create or replace function public.available_profiles(
+  p_from date,
+  p_to date,
+  p_include_tentative boolean default false
+) returns setof public.profiles
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.*
+    from profiles p
+   where not exists (
+           select 1
+             from availability_blocks b
+            where b.profile_id = p.id
+              and b.start_date <= p_to
+              and b.end_date >= p_from
+              and (b.status = 'booked' or (b.status = 'tentative' and not p_include_tentative))
+         )
+     and not exists (
+           select 1
+             from schedule_members m
+             join schedules s on s.id = m.schedule_id
+            where m.profile_id = p.id
+              and m.status = 'accepted'
+              and s.date::date between p_from and p_to
+         );
+$$;
+
+revoke all on function public.available_profiles(date, date, boolean) from public, anon, authenticated;
+grant execute on function public.available_profiles(date, date, boolean) to service_role;
@@ -0,0 +1,78 @@
+-- Reviews between recruiters and artists who shared a project (ReviewsService)
+-- One review per reviewer, reviewee and project, rated 1-5 per dimension, with one
+-- answer from the reviewee. Reports (`review_reports`) are resolved by a moderator,
+-- who either hides the review or dismisses the report. `profile_rating_summary`
+-- aggregates the published reviews of a profile for its rating.
+
+create table if not exists public.reviews (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  reviewer_profile_id uuid not null references public.profiles (id) on delete cascade,
+  reviewee_profile_id uuid not null references public.profiles (id) on delete cascade,
+  professionalism smallint not null check (professionalism between 1 and 5),
+  punctuality smallint not null check (punctuality between 1 and 5),
+  skill smallint not null check (skill between 1 and 5),
+  comment text,
+  response text,
+  responded_at timestamptz,
+  status text not null default 'published' check (status in ('published', 'hidden')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (project_id, reviewer_profile_id, reviewee_profile_id),
+  check (reviewer_profile_id <> reviewee_profile_id)
+);
+
+create index if not exists reviews_reviewee_idx
+  on public.reviews (reviewee_profile_id, created_at desc)
+  where status = 'published';
+
+create table if not exists public.review_reports (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.reviews (id) on delete cascade,
+  reporter_profile_id uuid not null references public.profiles (id) on delete cascade,
+  reason text not null check (reason in ('harassment', 'hate_speech', 'spam', 'false_information', 'other')),
+  details text,
+  status text not null default 'open' check (status in ('open', 'actioned', 'dismissed')),
+  resolved_by uuid references public.users (id) on delete set null,
+  resolution_note text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists review_reports_status_idx
+  on public.review_reports (status, created_at desc);
+
+-- At most one open report per reporter and review
+create unique index if not exists review_reports_open_reporter_idx
+  on public.review_reports (review_id, reporter_profile_id)
+  where status = 'open';
+
+alter table public.reviews enable row level security;
+alter table public.review_reports enable row level security;
+
+create or replace function public.profile_rating_summary(p_profile_id uuid)
+returns table (
+  review_count bigint,
+  average numeric,
+  professionalism numeric,
+  punctuality numeric,
+  skill numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    count(*),
+    round(avg((r.professionalism + r.punctuality + r.skill) / 3.0), 1),
+    round(avg(r.professionalism), 1),
+    round(avg(r.punctuality), 1),
+    round(avg(r.skill), 1)
+  from reviews r
+  where r.reviewee_profile_id = p_profile_id
+    and r.status = 'published';
+$$;
+
+revoke all on function public.profile_rating_summary(uuid) from public, anon, authenticated;
+grant execute on function public.profile_rating_summary(uuid) to service_role;
@@ -3,12 +3,17 @@
  * 
  * This script tests the OTP sending and verification flow
  * Run with: node test-otp.js
+ *
+ * Offline: start the server with SMS_PROVIDER=fake and SMS_FAKE_OUTBOX=<file>,
+ * then run with the same SMS_FAKE_OUTBOX so the OTP is read back from that file.
  */
 
 const axios = require('axios');
+const fs = require('fs');
 
 const API_BASE_URL = 'http://localhost:3000/api';
 const TEST_PHONE = '8184930950';
+const SMS_FAKE_OUTBOX = process.env.SMS_FAKE_OUTBOX;
 
 // Colors for console output
 const colors = {
@@ -54,6 +59,26 @@ async function testSendOTP() {
   }
 }
 
+function readOtpFromFakeOutbox() {
+  if (!SMS_FAKE_OUTBOX || !fs.existsSync(SMS_FAKE_OUTBOX)) {
+    return null;
+  }
+
+  const lines = fs.readFileSync(SMS_FAKE_OUTBOX, 'utf8').trim().split('\n').reverse();
+  for (const line of lines) {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.phone && entry.phone.endsWith(TEST_PHONE)) {
+        const match = entry.message.match(/\b(\d{6})\b/);
+        return match ? match[1] : null;
+      }
+    } catch (error) {
+      // Skip partial or malformed lines
+    }
+  }
+  return null;
+}
+
 async function testVerifyOTP(otp) {
   if (!otp) {
     log(colors.yellow, '\n⚠️  No OTP to verify. Please check your phone for SMS or enter manually.');
@@ -102,7 +127,14 @@ async function runTests() {
   log(colors.blue, `📡 API Base URL: ${API_BASE_URL}`);
   
   // Test 1: Send OTP
-  const otp = await testSendOTP();
+  let otp = await testSendOTP();
+
+  if (!otp && SMS_FAKE_OUTBOX) {
+    otp = readOtpFromFakeOutbox();
+    if (otp) {
+      log(colors.green, `📨 Read OTP from fake SMS outbox: ${SMS_FAKE_OUTBOX}`);
+    }
+  }
   
   if (!otp) {
     log(colors.yellow, '\n⚠️  OTP not returned in response (production mode).');